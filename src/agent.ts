@@ -1,6 +1,17 @@
-import { query, createSdkMcpServer, tool, type SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import {
+  AbortError,
+  query,
+  createSdkMcpServer,
+  tool,
+  type AnyZodRawShape,
+  type InferShape,
+  type SdkMcpToolDefinition,
+  type SDKResultMessage,
+  type SDKUserMessage,
+} from "@anthropic-ai/claude-agent-sdk";
+import { randomUUID } from "node:crypto";
 import { z } from "zod";
-import { LinearClient } from "@linear/sdk";
+import { LinearClient, type Issue } from "@linear/sdk";
 import pkg from "@slack/bolt";
 type App = InstanceType<typeof pkg.App>;
 import config, {
@@ -10,46 +21,191 @@ import config, {
   buildFollowupSameReporterPrompt,
   buildFollowupDifferentPersonPrompt,
   buildDeferredFollowupPrompt,
+  buildInfoFollowupPrompt,
   buildEditHandlerPrompt,
   buildDeleteHandlerPrompt,
+  directMessageRoute,
+  isDirectMessageChannel,
+  resolveChannelConfig,
+  type ChannelRoute,
+  type TriageConfig,
 } from "./config.js";
+import { draftReviewBlocks, PRIORITY_NAMES, triageReplyBlocks } from "./blocks.js";
+import { isDryRun, recordDecision, recordingStub, type DecisionMessage } from "./dryRun.js";
+import { createIssueIndex, embeddingClient, linearIssueSource, type IssueIndex } from "./issueIndex.js";
+import { createCustomerRequests, type CustomerRequests, type ReporterOrg } from "./customers.js";
+import { addReport, escalatedPriority, parseReportTally, removeReport, withReportTally } from "./reportTally.js";
+import { isTransientError } from "./retry.js";
+import { affiliationLabel, createUserDirectory, priorityForReporter, type SlackUserInfo, type UserDirectory } from "./slackUsers.js";
+import type { IssueDraft, IssueFields, OperationRecord, ReversibleOperation, TrackingStore } from "./store.js";
+
+/** Where the agent records the comments it writes, the Linear operations it can undo and its ticket drafts. */
+export type AgentLog = Pick<TrackingStore, "markBotComment" | "recordOperation" | "lastOperationSet" | "markOperationSetUndone" | "saveDraft">;
 
 // Dependencies that will be injected
 let slackApp: App | null = null;
 let linearClient: LinearClient | null = null;
-let linearConfig: { teamId: string; projectId: string } | null = null;
+let channelRoutes: ChannelRoute[] = [];
+let agentLog: AgentLog | null = null;
+let userDirectory: UserDirectory | null = null;
 
 export function setDependencies(
   app: App,
   client: LinearClient,
-  cfg: { teamId: string; projectId: string }
+  routes: ChannelRoute[],
+  log?: AgentLog
 ): void {
+  if (app !== slackApp) {
+    userDirectory = createUserDirectory(app.client, () => ({
+      internalEmailDomain: config.internalEmailDomain,
+      ignoredDomains: config.customerRequests.ignoredDomains,
+    }));
+  }
   slackApp = app;
+  if (client !== linearClient) issueIndexes.clear();
   linearClient = client;
-  linearConfig = cfg;
+  channelRoutes = routes;
+  agentLog = log ?? null;
+  promptCache.clear();
+}
+
+// Route for the channel a message came from (falls back to the first configured route). With
+// DM intake on, a direct message gets its own route: private team and/or confidential label.
+function routeFor(channel?: string): ChannelRoute | undefined {
+  const route = channelRoutes.find((r) => r.channelId === channel);
+  if (!route && channel && channelRoutes[0] && isPrivateChannel(channel)) {
+    return directMessageRoute(config, channelRoutes[0], channel);
+  }
+  return route ?? channelRoutes[0];
+}
+
+// A DM handled by the DM intake: its content must not leave the DM or its confidential ticket
+function isPrivateChannel(channel?: string): boolean {
+  return config.directMessages.enabled && !!channel && isDirectMessageChannel(channel);
+}
+
+function channelConfigFor(channel?: string): TriageConfig {
+  const route = routeFor(channel);
+  return route ? resolveChannelConfig(config, route) : config;
+}
+
+// ---------------------------------------------------------------------------
+// Run Tracking
+// ---------------------------------------------------------------------------
+
+interface IssueRef {
+  id: string;
+  identifier: string;
+  url: string;
+}
+
+// What an agent run did, recorded by the tool handlers themselves so results never have to
+// be scraped from assistant text. Several runs can be in flight at once (see scheduler.ts),
+// so every run gets its own tool instances bound to it (see runTools).
+interface AgentRun {
+  /** Groups the Linear operations the run makes, so `undo` reverses them together. */
+  id: string;
+  message: DecisionMessage;
+  outcome: unknown;
+  createdIssues: Array<IssueRef & { priority: number }>;
+  commentedIssues: IssueRef[];
+  searchResults: Array<IssueRef & { title?: string }>;
+  /** Tickets drafted for approval instead of created (approval mode). */
+  drafts: IssueDraft[];
+  /** Slack user new tickets and reports are attributed to: the message author, or the original author of a forwarded message. */
+  reporterId?: string;
+  /** Set by the first write logged for undo or reply posted in Slack (see hasWritten). */
+  wrote: boolean;
+  /** Passed to query() so shutdown can abort the run (see abortRuns). */
+  abortController: AbortController;
+}
+
+const activeRuns = new Set<AgentRun>();
+
+function createRun(message: DecisionMessage, reporterId = message.userId): AgentRun {
+  return { id: randomUUID(), message, outcome: null, createdIssues: [], commentedIssues: [], searchResults: [], drafts: [], reporterId, wrote: false, abortController: new AbortController() };
+}
+
+// query() with the run's abort controller attached; the run counts as active until the stream ends
+async function* runQuery(run: AgentRun, params: Parameters<typeof query>[0]) {
+  activeRuns.add(run);
+  try {
+    yield* query({ ...params, options: { ...params.options, abortController: run.abortController } });
+  } catch (error) {
+    const aborted = error instanceof AbortError || run.abortController.signal.aborted;
+    if (!(isTransientError(error) || aborted) || !hasWritten(run)) throw error;
+    console.warn(`[Agent] ${run.message.kind} run ${aborted ? "aborted" : "failed"} after writing to Linear or Slack - keeping its partial result instead of retrying:`, error);
+    return;
+  } finally {
+    activeRuns.delete(run);
+  }
+  // Never treat a cut-short run as a finished decision, unless re-running it would write twice
+  if (run.abortController.signal.aborted) {
+    if (!hasWritten(run)) throw new AbortError("Agent run aborted");
+    console.warn(`[Agent] ${run.message.kind} run aborted after writing to Linear or Slack - keeping its partial result instead of re-running it`);
+  }
+}
+
+/** Abort every agent run in flight (used on shutdown). Returns how many were aborted. */
+export function abortRuns(): number {
+  const runs = [...activeRuns];
+  for (const run of runs) run.abortController.abort();
+  return runs.length;
+}
+
+// Whether the run has changed anything yet. Running it again would file a second ticket or
+// post a second reply, so such a run ends with its partial result instead of being retried.
+function hasWritten(run: AgentRun): boolean {
+  return run.wrote || run.createdIssues.length > 0 || run.commentedIssues.length > 0 || run.drafts.length > 0;
+}
+
+// A run that ended on an API error (overloaded, rate limited, 5xx) is rethrown so the queue
+// retries the event, instead of being reported as a decision - unless it has already written
+function throwIfTransientFailure(run: AgentRun, message: SDKResultMessage): void {
+  if (!message.is_error) return;
+  const error = new Error(`Agent run failed: ${message.subtype === "success" ? message.result : message.errors.join("; ")}`);
+  if (!isTransientError(error)) return;
+  if (!hasWritten(run)) throw error;
+  console.warn(`[Agent] ${run.message.kind} run failed after writing to Linear or Slack - keeping its partial result instead of retrying: ${error.message}`);
+}
+
+// Log a Linear write against the run's thread so `undo` can reverse it. Dry-run stubs never
+// get here, so nothing is logged for writes that didn't happen.
+function recordOperation(run: Pick<AgentRun, "id" | "message"> & { wrote?: boolean }, operation: ReversibleOperation): void {
+  run.wrote = true;
+  const { channel, threadTs, messageTs } = run.message;
+  const thread = threadTs ?? messageTs;
+  if (!agentLog || !channel || !thread) return;
+  agentLog.recordOperation({
+    setId: run.id,
+    channel,
+    threadTs: thread,
+    messageTs: messageTs ?? thread,
+    runKind: run.message.kind,
+    createdAt: Date.now(),
+    operation,
+  });
+}
+
+// Find the issue a reported outcome refers to among the issues the run actually touched
+function findIssue<T extends IssueRef>(issues: T[], ticketId?: string): T | undefined {
+  if (!ticketId) return undefined;
+  return issues.find((i) => i.id === ticketId || i.identifier === ticketId);
 }
 
 // Define tools using the SDK's tool() helper
 const getUserInfo = tool(
   "slack_get_user_info",
-  "Get information about a Slack user including their real name and email",
+  "Get information about a Slack user: their real name and email, their home workspace and organization, and whether they are internal or external (label, e.g. \"External — Acme Corp\"). Slack Connect users from other companies are external even when their email is hidden.",
   { userId: z.string().describe("The Slack user ID") },
   async ({ userId }) => {
-    if (!slackApp) throw new Error("Slack app not initialized");
+    if (!userDirectory) throw new Error("Slack app not initialized");
     try {
-      const result = await slackApp.client.users.info({ user: userId });
-      if (!result.user) {
-        return { content: [{ type: "text" as const, text: "User not found" }], isError: true };
-      }
+      const { id, name, realName, email, teamId, isStranger, enterprise, affiliation, org, label } = await userDirectory.lookup(userId);
       return {
         content: [{
           type: "text" as const,
-          text: JSON.stringify({
-            id: result.user.id,
-            name: result.user.name,
-            realName: result.user.real_name,
-            email: result.user.profile?.email,
-          }),
+          text: JSON.stringify({ id, name, realName, email, teamId, isStranger, enterprise, affiliation, org, label }),
         }],
       };
     } catch (e) {
@@ -58,14 +214,60 @@ const getUserInfo = tool(
   }
 );
 
-const searchIssues = tool(
+// One query for a page of results, with everything the duplicate decision needs, instead of
+// resolving each issue's state, assignee and labels separately
+const SEARCH_ISSUES_QUERY = `
+  query SearchIssues($filter: IssueFilter, $first: Int, $after: String) {
+    issues(filter: $filter, first: $first, after: $after, orderBy: updatedAt) {
+      nodes {
+        id identifier title url createdAt updatedAt
+        state { name type }
+        assignee { name }
+        team { key }
+        project { name }
+        labels(first: 10) { nodes { name } }
+        inverseRelations(first: 50) { nodes { type } }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+interface SearchIssuesPage {
+  issues: {
+    nodes: Array<{
+      id: string;
+      identifier: string;
+      title: string;
+      url: string;
+      createdAt: string;
+      updatedAt: string;
+      state?: { name: string; type: string } | null;
+      assignee?: { name: string } | null;
+      team?: { key: string } | null;
+      project?: { name: string } | null;
+      labels: { nodes: Array<{ name: string }> };
+      inverseRelations: { nodes: Array<{ type: string }> };
+    }>;
+    pageInfo: { hasNextPage: boolean; endCursor?: string | null };
+  };
+}
+
+const searchIssues = (run: AgentRun) => tool(
   "linear_search_issues",
-  "Search for existing Linear issues to find potential duplicates. Pass multiple keywords to search for any of them (OR logic). For best results, include semantic synonyms.",
+  "Search for existing Linear issues to find potential duplicates. Pass multiple keywords to search for any of them (OR logic). For best results, include semantic synonyms. By default only open issues in this channel's project are searched; the optional filters widen or narrow that.",
   {
-    keywords: z.array(z.string()).describe("Array of search keywords - issues matching ANY keyword will be returned")
+    keywords: z.array(z.string()).describe("Array of search keywords - issues matching ANY keyword will be returned"),
+    includeClosed: z.boolean().optional().describe("Also return completed and canceled issues, e.g. to find a bug that was already fixed (default false)"),
+    scope: z.enum(["project", "team", "workspace"]).optional().describe('"project" (default): this channel\'s Linear project; "team": every project of its team; "workspace": all teams'),
+    labels: z.array(z.string()).optional().describe("Only issues with any of these label names"),
+    createdAfter: z.string().refine((s) => !Number.isNaN(Date.parse(s)), "must be a date").optional().describe("Only issues created after this date (ISO 8601, e.g. 2024-05-01)"),
+    limit: z.number().int().min(1).max(50).optional().describe("Issues per page (default 10)"),
+    cursor: z.string().optional().describe("nextCursor from a previous search with the same filters, for the next page"),
   },
-  async ({ keywords }) => {
-    if (!linearClient || !linearConfig) throw new Error("Linear not initialized");
+  async ({ keywords, includeClosed, scope, labels, createdAfter, limit, cursor }) => {
+    const route = routeFor(run.message.channel);
+    if (!linearClient || !route) throw new Error("Linear not initialized");
     try {
       // Build OR conditions for each keyword across title and description
       const orConditions = keywords.flatMap(keyword => [
@@ -73,66 +275,360 @@ const searchIssues = tool(
         { description: { containsIgnoreCase: keyword } },
       ]);
 
-      const issues = await linearClient.issues({
-        filter: {
-          project: { id: { eq: linearConfig.projectId } },
-          or: orConditions,
-        },
-        first: 10,
+      // A private team for DMs may have no project, then its whole team is searched
+      const scopeFilter = scope === "workspace"
+        ? {}
+        : scope === "team" || !route.linear.projectId
+          ? { team: { id: { eq: route.linear.teamId } } }
+          : { project: { id: { eq: route.linear.projectId } } };
+
+      const filter = {
+        ...scopeFilter,
+        ...(!includeClosed && { state: { type: { nin: ["completed", "canceled"] } } }),
+        ...(createdAfter && { createdAt: { gt: new Date(createdAfter).toISOString() } }),
+        and: [
+          { or: orConditions },
+          ...(labels?.length ? [{ or: labels.map((name) => ({ labels: { name: { eqIgnoreCase: name } } })) }] : []),
+        ],
+      };
+
+      const { data } = await linearClient.client.rawRequest<SearchIssuesPage, Record<string, unknown>>(SEARCH_ISSUES_QUERY, {
+        filter,
+        first: limit ?? 10,
+        after: cursor,
       });
-      const results = await Promise.all(
-        issues.nodes.map(async (issue) => {
-          const state = await issue.state;
-          return { id: issue.id, identifier: issue.identifier, title: issue.title, url: issue.url, state: state?.name };
-        })
-      );
-      return { content: [{ type: "text" as const, text: JSON.stringify({ issues: results, searchedKeywords: keywords }) }] };
+      if (!data) throw new Error("Linear returned no data");
+
+      const results = data.issues.nodes.map((issue) => ({
+        id: issue.id,
+        identifier: issue.identifier,
+        title: issue.title,
+        url: issue.url,
+        state: issue.state?.name,
+        stateType: issue.state?.type,
+        team: issue.team?.key,
+        project: issue.project?.name,
+        assignee: issue.assignee?.name ?? null,
+        labels: issue.labels.nodes.map((l) => l.name),
+        createdAt: issue.createdAt,
+        updatedAt: issue.updatedAt,
+        // Issues marked as duplicates of this one
+        duplicateCount: issue.inverseRelations.nodes.filter((r) => r.type === "duplicate").length,
+      }));
+      const { hasNextPage, endCursor } = data.issues.pageInfo;
+      run.searchResults.push(...results.map(({ id, identifier, url, title }) => ({ id, identifier, url, title })));
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ issues: results, searchedKeywords: keywords, ...(hasNextPage && endCursor && { nextCursor: endCursor }) }),
+        }],
+      };
     } catch (e) {
       return { content: [{ type: "text" as const, text: `Error: ${e}` }], isError: true };
     }
   }
 );
 
-const createIssueToolDescription = config.issueTemplate.titlePrefix
-  ? `Create a new Linear issue. The "${config.issueTemplate.titlePrefix}" prefix is added automatically to the title.`
-  : "Create a new Linear issue in the configured project.";
+// Similarity indexes, one per Linear project (or per team, for a DM route without a project)
+const issueIndexes = new Map<string, IssueIndex>();
+
+function issueIndexFor(route: ChannelRoute): IssueIndex {
+  if (!linearClient) throw new Error("Linear not initialized");
+  const key = route.linear.projectId || `team:${route.linear.teamId}`;
+  let index = issueIndexes.get(key);
+  if (!index) {
+    const embeddingsUrl = process.env.SIMILARITY_EMBEDDINGS_URL;
+    index = createIssueIndex(linearIssueSource(linearClient, route.linear), {
+      embed: embeddingsUrl ? embeddingClient(embeddingsUrl, process.env.SIMILARITY_EMBEDDINGS_MODEL ?? "nomic-embed-text") : undefined,
+    });
+    issueIndexes.set(key, index);
+  }
+  return index;
+}
+
+const findSimilarIssues = (run: AgentRun) => tool(
+  "linear_find_similar_issues",
+  "Find existing Linear issues similar to a problem description, ranked by similarity. Matches reports worded differently (e.g. \"can't log in\" and \"auth fails\") that keyword search misses. Each result has a score from 0 to 1 and the issue's workflow state; completed and canceled issues are included.",
+  {
+    text: z.string().min(1).describe("The problem in a sentence or two: what fails, where, and how it shows up"),
+    limit: z.number().int().min(1).max(20).optional().describe("Maximum number of results (default 5)"),
+  },
+  async ({ text, limit }) => {
+    const route = routeFor(run.message.channel);
+    if (!linearClient || !route) throw new Error("Linear not initialized");
+    try {
+      const index = issueIndexFor(route);
+      await index.refresh();
+      const { issues, method } = await index.findSimilar(text, { limit });
+      run.searchResults.push(...issues.map(({ id, identifier, url, title }) => ({ id, identifier, url, title })));
+      return { content: [{ type: "text" as const, text: JSON.stringify({ issues, method, indexedIssues: index.size }) }] };
+    } catch (e) {
+      return { content: [{ type: "text" as const, text: `Error: ${e}` }], isError: true };
+    }
+  }
+);
+
+/** What linear_create_issue is called with, kept as-is in a draft until it is approved. */
+type NewIssueFields = Pick<IssueDraft, "title" | "description" | "priority" | "reporterInfo">;
+
+// The reporter's affiliation is added to the attribution, and the channel's priority rules applied
+async function withReporter(run: AgentRun, fields: NewIssueFields): Promise<NewIssueFields> {
+  if (!run.reporterId || !userDirectory) return fields;
+  const reporter = await lookupReporter(run.reporterId);
+  const priority = priorityForReporter(channelConfigFor(run.message.channel).priorityRules, reporter, fields.priority);
+  if (priority !== fields.priority) {
+    console.log(`[Agent] Priority ${fields.priority} → ${priority} for a report from ${reporter.label}`);
+  }
+  return {
+    ...fields,
+    priority,
+    reporterInfo: reporter.affiliation === "unknown" ? fields.reporterInfo : `${fields.reporterInfo} · ${reporter.label}`,
+  };
+}
+
+// Create the ticket in the run's channel route, with the channel's issue template applied
+async function createLinearIssue(run: AgentRun, route: ChannelRoute, fields: NewIssueFields): Promise<(IssueRef & { priority: number }) | null> {
+  if (!linearClient) throw new Error("Linear not initialized");
+  const { issueTemplate } = channelConfigFor(route.channelId);
+  const payload = await linearClient.createIssue({
+    teamId: route.linear.teamId,
+    ...(route.linear.projectId && { projectId: route.linear.projectId }),
+    title: issueTemplate.titlePrefix ? `${issueTemplate.titlePrefix}${fields.title}` : fields.title,
+    description: `${fields.description}\n\n---\n**Reported via Slack by:** ${fields.reporterInfo}`,
+    priority: fields.priority,
+    ...(issueTemplate.labelIds.length > 0 && { labelIds: issueTemplate.labelIds }),
+    ...(issueTemplate.stateId && { stateId: issueTemplate.stateId }),
+  });
+  const issue = await payload.issue;
+  if (!issue) return null;
+  const created = { id: issue.id, identifier: issue.identifier, url: issue.url, priority: fields.priority };
+  run.createdIssues.push(created);
+  recordOperation(run, { kind: "create_issue", issueId: issue.id, identifier: issue.identifier });
+  return created;
+}
+
+// Reports on one ticket are counted one at a time, so concurrent runs don't overwrite each other's tally
+const reportQueues = new Map<string, Promise<void>>();
+
+// A failed lookup counts as an unknown reporter rather than holding up the report
+async function lookupReporter(userId: string): Promise<SlackUserInfo> {
+  try {
+    return await userDirectory!.lookup(userId);
+  } catch (error) {
+    console.error(`[Reports] Could not look up Slack user ${userId}:`, error);
+    return { id: userId, name: userId, isStranger: false, affiliation: "unknown", label: affiliationLabel("unknown") };
+  }
+}
+
+/**
+ * Count a report toward the ticket it was filed as or linked to: add the reporter to the
+ * ticket's "Slack reports" section and raise the priority once an escalation threshold is
+ * reached, and for an external reporter add it to their company's customer requests.
+ * Logged with the run's other writes, so undoing the run takes the report back out.
+ * Only tickets the run created or commented on count: a duplicate it merely found stays
+ * untouched. Failures are only logged, since the report itself is already filed.
+ */
+async function recordReport(run: AgentRun, ticket: IssueRef | undefined, reporterId = run.reporterId): Promise<void> {
+  const { channel, threadTs, messageTs } = run.message;
+  const thread = threadTs ?? messageTs;
+  const { reportTracking } = config;
+  if (ticket && ![...run.createdIssues, ...run.commentedIssues].some((issue) => issue.id === ticket.id)) return;
+  // A DM reporter is only named on the DM's own confidential ticket, never on one others can see
+  const tally = reportTracking.enabled && (!isPrivateChannel(channel) || run.createdIssues.some((issue) => issue.id === ticket?.id));
+  // Requests show up in Linear's customer views, so DM reports stay out of them
+  const customerRequests = config.customerRequests.enabled && !isPrivateChannel(channel);
+  if ((!tally && !customerRequests) || !ticket || !reporterId || !channel || !thread || !linearClient || !userDirectory) return;
+  // Tickets "created" in shadow mode don't exist, so there's no description to update
+  if (isDryRun()) {
+    if (tally) recordDecision(run.message, "record_report", { ticketId: ticket.identifier, reporterId });
+    if (customerRequests) recordDecision(run.message, "add_customer_request", { ticketId: ticket.identifier, reporterId });
+    return;
+  }
+  const previous = reportQueues.get(ticket.id) ?? Promise.resolve();
+  const current = previous.then(async () => {
+    const reporter = await lookupReporter(reporterId);
+    if (tally) await updateReportTally(run, ticket, reporter, channel, thread);
+    if (customerRequests && reporter.affiliation === "external") await addCustomerRequest(run, ticket, reporter, channel, thread);
+  });
+  reportQueues.set(ticket.id, current);
+  await current;
+  if (reportQueues.get(ticket.id) === current) reportQueues.delete(ticket.id);
+}
+
+async function updateReportTally(run: AgentRun, ticket: IssueRef, reporter: SlackUserInfo, channel: string, thread: string): Promise<void> {
+  if (!linearClient) return;
+  try {
+    const issue = await linearClient.issue(ticket.id);
+    const description = issue.description ?? "";
+    const before = parseReportTally(description);
+    const existing = before.reporters.find((r) => r.userId === reporter.id);
+    const name = reporter.realName || reporter.name;
+    const threadUrl = `https://slack.com/archives/${channel}/p${thread.replace(".", "")}`;
+    let tally = addReport(before, { userId: reporter.id, name, kind: reporter.affiliation, date: new Date().toISOString().slice(0, 10), threadUrl });
+    const priority = escalatedPriority(tally, config.reportTracking.escalation, issue.priority);
+    if (priority !== undefined) tally = { ...tally, escalation: { priority, reporters: tally.reporters.length } };
+
+    await linearClient.updateIssue(issue.id, { description: withReportTally(description, tally), ...(priority !== undefined && { priority }) });
+    // Logged as the report rather than the old description, so undo keeps whatever changed since
+    recordOperation(run, {
+      kind: "record_report",
+      issueId: issue.id,
+      identifier: issue.identifier,
+      reporterName: name,
+      report: { userId: reporter.id, threadUrl, ...(existing && { previous: { lastSeen: existing.lastSeen, threads: existing.threads } }) },
+      ...(priority !== undefined && {
+        escalation: { priority, previousPriority: issue.priority, ...(before.escalation && { previousEscalation: before.escalation }) },
+      }),
+    });
+    if (priority !== undefined) {
+      console.log(`[Reports] ${issue.identifier} raised to ${PRIORITY_NAMES[priority]} after ${tally.reporters.length} reporters`);
+    }
+  } catch (error) {
+    console.error(`[Reports] Could not update the reporter tally on ${ticket.identifier}:`, error);
+  }
+}
+
+// Customer lookups, one set per Linear client (see customersFor)
+let customerDirectory: { client: LinearClient; requests: CustomerRequests } | null = null;
+
+function customersFor(client: LinearClient): CustomerRequests {
+  if (customerDirectory?.client !== client) customerDirectory = { client, requests: createCustomerRequests(client) };
+  return customerDirectory.requests;
+}
+
+// The company behind an external reporter: their Slack Connect workspace, or else their email domain
+function reporterOrg(reporter: SlackUserInfo): ReporterOrg | null {
+  const domain = reporter.companyDomain;
+  if (reporter.externalTeamId) {
+    return { name: reporter.org || reporter.externalTeamId, slackTeamId: reporter.externalTeamId, ...(domain && { domain }) };
+  }
+  return domain ? { name: domain, domain } : null;
+}
+
+/**
+ * Add an external report to the ticket as a request from the reporter's company, found (or
+ * created) among the Linear customers, with the Slack message attached as the request's source.
+ */
+async function addCustomerRequest(run: AgentRun, ticket: IssueRef, reporter: SlackUserInfo, channel: string, thread: string): Promise<void> {
+  if (!linearClient) return;
+  const name = reporter.realName || reporter.name;
+  try {
+    const org = reporterOrg(reporter);
+    if (!org) {
+      console.log(`[Customers] No company to match ${name} to (no usable email domain), skipping ${ticket.identifier}`);
+      return;
+    }
+    const customers = customersFor(linearClient);
+    const customer = await customers.resolveCustomer(org, { create: config.customerRequests.createCustomers });
+    if (!customer) {
+      console.log(`[Customers] No Linear customer for ${org.name}, skipping ${ticket.identifier}`);
+      return;
+    }
+
+    const ts = run.message.messageTs ?? thread;
+    const url = `https://slack.com/archives/${channel}/p${ts.replace(".", "")}` + (ts !== thread ? `?thread_ts=${thread}&cid=${channel}` : "");
+    const route = channelRoutes.find((r) => r.channelId === channel);
+    const request = await customers.addRequest(customer, {
+      issueId: ticket.id,
+      url,
+      title: `Slack message from ${name}`,
+      ...(route && { subtitle: `#${route.channelName}` }),
+      body: run.message.text?.trim().slice(0, 2000) || `Reported in Slack by ${name}`,
+    });
+    recordOperation(run, { kind: "add_customer_request", issueId: ticket.id, identifier: ticket.identifier, ...request, customerName: customer.name });
+    console.log(`[Customers] Added a request from ${customer.name}${customer.created ? " (new customer)" : ""} to ${ticket.identifier}`);
+  } catch (error) {
+    console.error(`[Customers] Could not add the customer request to ${ticket.identifier}:`, error);
+  }
+}
 
-const createIssue = tool(
+// Approval mode: keep the ticket as a draft and post it for review. The buttons on the review
+// message are handled by the pipeline (see handleBlockAction), which creates the ticket on approval.
+async function draftIssue(run: AgentRun, fields: NewIssueFields): Promise<IssueDraft> {
+  if (!slackApp || !agentLog) throw new Error("Approval mode needs the Slack app and the tracking store");
+  const { channel, threadTs, messageTs } = run.message;
+  const thread = threadTs ?? messageTs;
+  if (!channel || !thread) throw new Error("A draft needs the Slack message it came from");
+
+  const duplicates = new Map(run.searchResults.map((i) => [i.identifier, { identifier: i.identifier, url: i.url, title: i.title }]));
+  const now = Date.now();
+  const draft: IssueDraft = {
+    id: randomUUID(),
+    channel,
+    threadTs: thread,
+    messageTs: messageTs ?? thread,
+    runKind: run.message.kind,
+    reporterId: run.reporterId,
+    ...fields,
+    suspectedDuplicates: [...duplicates.values()].slice(0, 5),
+    createdAt: now,
+    expiresAt: now + config.approval.expiresAfterHours * 60 * 60 * 1000,
+  };
+
+  const reviewChannel = config.approval.reviewChannelId || channel;
+  const posted = await slackApp.client.chat.postMessage({
+    channel: reviewChannel,
+    thread_ts: config.approval.reviewChannelId ? undefined : thread,
+    text: `Ticket draft for review: ${fields.title}`,
+    blocks: draftReviewBlocks(draft),
+  });
+  if (posted.ts) draft.review = { channel: reviewChannel, ts: posted.ts };
+  agentLog.saveDraft(draft);
+  run.drafts.push(draft);
+  console.log(`[Approval] Drafted "${fields.title}" for review in ${reviewChannel} (draft ${draft.id})`);
+  return draft;
+}
+
+const createIssue = (run: AgentRun) => tool(
   "linear_create_issue",
-  createIssueToolDescription,
+  "Create a new Linear issue in the project for this Slack channel. The channel's title prefix, if any, is added automatically.",
   {
-    title: z.string().describe(
-      config.issueTemplate.titlePrefix
-        ? `Issue title (without prefix - the '${config.issueTemplate.titlePrefix}' prefix is added automatically)`
-        : "Issue title"
-    ),
+    title: z.string().describe("Issue title (without any title prefix - it is added automatically)"),
     description: z.string().describe("Detailed issue description"),
     priority: z.number().min(1).max(4).describe("1=Urgent, 2=High, 3=Normal, 4=Low"),
     reporterInfo: z.string().describe("Reporter info for attribution"),
   },
-  async ({ title, description, priority, reporterInfo }) => {
-    if (!linearClient || !linearConfig) throw new Error("Linear not initialized");
+  async (input) => {
+    const route = routeFor(run.message.channel);
+    if (!linearClient || !route) throw new Error("Linear not initialized");
     try {
-      const fullDescription = `${description}\n\n---\n**Reported via Slack by:** ${reporterInfo}`;
-      const payload = await linearClient.createIssue({
-        teamId: linearConfig.teamId,
-        projectId: linearConfig.projectId,
-        title: config.issueTemplate.titlePrefix ? `${config.issueTemplate.titlePrefix}${title}` : title,
-        description: fullDescription,
-        priority,
-        ...(config.issueTemplate.labelIds.length > 0 && { labelIds: config.issueTemplate.labelIds }),
-        ...(config.issueTemplate.stateId && { stateId: config.issueTemplate.stateId }),
-      });
-      const issue = await payload.issue;
+      const fields = await withReporter(run, input);
+      const adjusted = fields.priority !== input.priority && { priority: fields.priority, priorityNote: "Set by the reporter priority rules" };
+      // A draft would put a private report in front of reviewers, so DMs skip approval
+      if (config.approval.enabled && !isPrivateChannel(run.message.channel)) {
+        const draft = await draftIssue(run, fields);
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              draftId: draft.id,
+              status: "pending_approval",
+              note: "No ticket was created yet: the draft was posted for a team member to approve. Don't share a ticket link.",
+              ...adjusted,
+            }),
+          }],
+        };
+      }
+      const issue = await createLinearIssue(run, route, fields);
       if (!issue) return { content: [{ type: "text" as const, text: "Issue creation failed" }], isError: true };
-      return { content: [{ type: "text" as const, text: JSON.stringify({ id: issue.id, identifier: issue.identifier, url: issue.url }) }] };
+      return { content: [{ type: "text" as const, text: JSON.stringify({ id: issue.id, identifier: issue.identifier, url: issue.url, ...adjusted }) }] };
     } catch (e) {
       return { content: [{ type: "text" as const, text: `Error: ${e}` }], isError: true };
     }
   }
 );
 
-const addComment = tool(
+// Every comment the bot writes goes through here. The ID is chosen up front and recorded
+// first, so the comment sync (webhooks.ts) can't see its webhook before knowing the bot wrote it
+async function createBotComment(issueId: string, body: string) {
+  if (!linearClient) throw new Error("Linear not initialized");
+  const id = randomUUID();
+  agentLog?.markBotComment(id);
+  const payload = await linearClient.createComment({ id, issueId, body });
+  return payload.comment;
+}
+
+const addComment = (run: AgentRun) => tool(
   "linear_add_comment",
   "Add a comment to an existing Linear issue (use for duplicates or follow-up info)",
   {
@@ -142,7 +638,14 @@ const addComment = tool(
   async ({ issueId, body }) => {
     if (!linearClient) throw new Error("Linear not initialized");
     try {
-      await linearClient.createComment({ issueId, body });
+      const comment = await createBotComment(issueId, body);
+      const issue = await comment?.issue;
+      if (issue) {
+        run.commentedIssues.push({ id: issue.id, identifier: issue.identifier, url: issue.url });
+      }
+      if (comment) {
+        recordOperation(run, { kind: "add_comment", issueId: issue?.id ?? issueId, identifier: issue?.identifier ?? issueId, commentId: comment.id });
+      }
       return { content: [{ type: "text" as const, text: JSON.stringify({ success: true }) }] };
     } catch (e) {
       return { content: [{ type: "text" as const, text: `Error: ${e}` }], isError: true };
@@ -150,7 +653,7 @@ const addComment = tool(
   }
 );
 
-const updateIssue = tool(
+const updateIssue = (run: AgentRun) => tool(
   "linear_update_issue",
   "Update an existing Linear issue's description or priority based on new information",
   {
@@ -165,7 +668,13 @@ const updateIssue = tool(
       if (description) updateData.description = description;
       if (priority) updateData.priority = priority;
 
-      await linearClient.updateIssue(issueId, updateData);
+      const issue = await linearClient.issue(issueId);
+      const previous: IssueFields = {};
+      if (updateData.description !== undefined) previous.description = issue.description ?? "";
+      if (updateData.priority !== undefined) previous.priority = issue.priority;
+
+      await linearClient.updateIssue(issue.id, updateData);
+      recordOperation(run, { kind: "update_issue", issueId: issue.id, identifier: issue.identifier, previous });
       return { content: [{ type: "text" as const, text: JSON.stringify({ success: true }) }] };
     } catch (e) {
       return { content: [{ type: "text" as const, text: `Error: ${e}` }], isError: true };
@@ -287,6 +796,12 @@ export async function uploadImageToLinearCdn(
     const imageSize = imageBuffer.length;
     console.log(`Downloaded ${imageSize} bytes from Slack`);
 
+    // Keep the image for vision but don't touch Linear's CDN in dry-run mode
+    if (isDryRun()) {
+      recordDecision(null, "upload_slack_image_to_linear", { slackPrivateUrl, filename, contentType, size: imageSize });
+      return { url: slackPrivateUrl, buffer: imageBuffer, contentType };
+    }
+
     const uploadPayload = await linearClient.fileUpload(contentType, filename, imageSize);
     if (!uploadPayload.success || !uploadPayload.uploadFile) {
       console.error("Failed to get Linear upload URL");
@@ -327,7 +842,18 @@ export async function uploadImageToLinearCdn(
   }
 }
 
-const replyInThread = tool(
+// In a triage run (or the follow-up that files a report once its details are in), a reply sent
+// after the ticket was created or commented on carries the action buttons for that ticket
+// (see blocks.ts); other replies are plain text
+function replyBlocks(run: AgentRun, text: string) {
+  if ((run.message.kind !== "triage" && run.message.kind !== "info_followup") || !run.message.messageTs) return undefined;
+  const created = run.createdIssues[run.createdIssues.length - 1];
+  const ticket = created ?? run.commentedIssues[run.commentedIssues.length - 1];
+  if (!ticket) return undefined;
+  return triageReplyBlocks(text, { ticketId: ticket.id, messageTs: run.message.messageTs }, { duplicate: !created });
+}
+
+const replyInThread = (run: AgentRun) => tool(
   "slack_reply_in_thread",
   "Reply to the Slack message with the ticket link",
   {
@@ -337,12 +863,17 @@ const replyInThread = tool(
   },
   async ({ text, channel, threadTs }) => {
     if (!slackApp) throw new Error("Slack not initialized");
+    if (isPrivateChannel(run.message.channel) && channel !== run.message.channel) {
+      return { content: [{ type: "text" as const, text: "Error: a report from a direct message can only be answered in that DM" }], isError: true };
+    }
     try {
       await slackApp.client.chat.postMessage({
         channel,
         thread_ts: threadTs,
         text,
+        blocks: replyBlocks(run, text),
       });
+      run.wrote = true;
       return { content: [{ type: "text" as const, text: JSON.stringify({ success: true }) }] };
     } catch (e) {
       return { content: [{ type: "text" as const, text: `Error: ${e}` }], isError: true };
@@ -375,7 +906,7 @@ const addReaction = tool(
 
 // --- Command Tools (for @mention commands) ---
 
-const updateIssueStatus = tool(
+const updateIssueStatus = (run: AgentRun) => tool(
   "linear_update_status",
   "Update the status of a Linear issue",
   {
@@ -383,7 +914,7 @@ const updateIssueStatus = tool(
     statusName: z.string().describe("The new status name (e.g., 'Triage', 'Todo', 'In Progress', 'Done', 'Canceled')"),
   },
   async ({ issueId, statusName }) => {
-    if (!linearClient || !linearConfig) throw new Error("Linear not initialized");
+    if (!linearClient) throw new Error("Linear not initialized");
     try {
       const issue = await linearClient.issue(issueId);
       const team = await issue.team;
@@ -406,7 +937,9 @@ const updateIssueStatus = tool(
         };
       }
 
+      const previous = { stateId: (await issue.state)?.id };
       await linearClient.updateIssue(issue.id, { stateId: targetState.id });
+      recordOperation(run, { kind: "update_issue", issueId: issue.id, identifier: issue.identifier, previous });
       return { content: [{ type: "text" as const, text: JSON.stringify({ success: true, newStatus: targetState.name }) }] };
     } catch (e) {
       return { content: [{ type: "text" as const, text: `Error: ${e}` }], isError: true };
@@ -414,7 +947,7 @@ const updateIssueStatus = tool(
   }
 );
 
-const addLabel = tool(
+const addLabel = (run: AgentRun) => tool(
   "linear_add_label",
   "Add a label to a Linear issue",
   {
@@ -422,7 +955,7 @@ const addLabel = tool(
     labelName: z.string().describe("The label name to add"),
   },
   async ({ issueId, labelName }) => {
-    if (!linearClient || !linearConfig) throw new Error("Linear not initialized");
+    if (!linearClient) throw new Error("Linear not initialized");
     try {
       const issue = await linearClient.issue(issueId);
       const team = await issue.team;
@@ -452,6 +985,7 @@ const addLabel = tool(
       }
 
       await linearClient.updateIssue(issue.id, { labelIds: [...currentLabelIds, targetLabel.id] });
+      recordOperation(run, { kind: "add_label", issueId: issue.id, identifier: issue.identifier, labelId: targetLabel.id, labelName: targetLabel.name });
       return { content: [{ type: "text" as const, text: JSON.stringify({ success: true, addedLabel: targetLabel.name }) }] };
     } catch (e) {
       return { content: [{ type: "text" as const, text: `Error: ${e}` }], isError: true };
@@ -459,7 +993,7 @@ const addLabel = tool(
   }
 );
 
-const removeLabel = tool(
+const removeLabel = (run: AgentRun) => tool(
   "linear_remove_label",
   "Remove a label from a Linear issue",
   {
@@ -482,6 +1016,7 @@ const removeLabel = tool(
         .filter((l) => l.id !== labelToRemove.id)
         .map((l) => l.id);
       await linearClient.updateIssue(issue.id, { labelIds: newLabelIds });
+      recordOperation(run, { kind: "remove_label", issueId: issue.id, identifier: issue.identifier, labelId: labelToRemove.id, labelName: labelToRemove.name });
       return { content: [{ type: "text" as const, text: JSON.stringify({ success: true, removedLabel: labelToRemove.name }) }] };
     } catch (e) {
       return { content: [{ type: "text" as const, text: `Error: ${e}` }], isError: true };
@@ -489,7 +1024,15 @@ const removeLabel = tool(
   }
 );
 
-const assignIssue = tool(
+// Shared by linear_assign_issue and the "Assign to me" button
+async function assignIssueToUser(run: Pick<AgentRun, "id" | "message">, issue: Issue, assigneeId: string): Promise<void> {
+  if (!linearClient) throw new Error("Linear not initialized");
+  const previous = { assigneeId: (await issue.assignee)?.id ?? null };
+  await linearClient.updateIssue(issue.id, { assigneeId });
+  recordOperation(run, { kind: "update_issue", issueId: issue.id, identifier: issue.identifier, previous });
+}
+
+const assignIssue = (run: AgentRun) => tool(
   "linear_assign_issue",
   "Assign a Linear issue to a user",
   {
@@ -516,7 +1059,7 @@ const assignIssue = tool(
       }
 
       const issue = await linearClient.issue(issueId);
-      await linearClient.updateIssue(issue.id, { assigneeId: targetUser.id });
+      await assignIssueToUser(run, issue, targetUser.id);
       return { content: [{ type: "text" as const, text: JSON.stringify({ success: true, assignedTo: targetUser.name }) }] };
     } catch (e) {
       return { content: [{ type: "text" as const, text: `Error: ${e}` }], isError: true };
@@ -524,7 +1067,7 @@ const assignIssue = tool(
   }
 );
 
-const closeIssue = tool(
+const closeIssue = (run: AgentRun) => tool(
   "linear_close_issue",
   "Close/complete a Linear issue by setting it to Done or Canceled status",
   {
@@ -549,7 +1092,9 @@ const closeIssue = tool(
         return { content: [{ type: "text" as const, text: `Could not find ${targetStateName} status` }], isError: true };
       }
 
+      const previous = { stateId: (await issue.state)?.id };
       await linearClient.updateIssue(issue.id, { stateId: targetState.id });
+      recordOperation(run, { kind: "update_issue", issueId: issue.id, identifier: issue.identifier, previous });
       return { content: [{ type: "text" as const, text: JSON.stringify({ success: true, newStatus: targetState.name }) }] };
     } catch (e) {
       return { content: [{ type: "text" as const, text: `Error: ${e}` }], isError: true };
@@ -557,7 +1102,7 @@ const closeIssue = tool(
   }
 );
 
-const reopenIssue = tool(
+const reopenIssue = (run: AgentRun) => tool(
   "linear_reopen_issue",
   "Reopen a closed Linear issue by setting it back to Triage or Todo",
   {
@@ -582,7 +1127,9 @@ const reopenIssue = tool(
         return { content: [{ type: "text" as const, text: `Could not find ${targetStateName} status` }], isError: true };
       }
 
+      const previous = { stateId: (await issue.state)?.id };
       await linearClient.updateIssue(issue.id, { stateId: targetState.id });
+      recordOperation(run, { kind: "update_issue", issueId: issue.id, identifier: issue.identifier, previous });
       return { content: [{ type: "text" as const, text: JSON.stringify({ success: true, newStatus: targetState.name }) }] };
     } catch (e) {
       return { content: [{ type: "text" as const, text: `Error: ${e}` }], isError: true };
@@ -590,7 +1137,7 @@ const reopenIssue = tool(
   }
 );
 
-const linkIssues = tool(
+const linkIssues = (run: AgentRun) => tool(
   "linear_link_issues",
   "Create a relation/link between two Linear issues",
   {
@@ -608,12 +1155,16 @@ const linkIssues = tool(
       const targetId = relationType === "blocked_by" ? issue.id : relatedIssue.id;
       const typeValue = relationType === "blocked_by" ? "blocks" : relationType;
 
+      // The relation ID is chosen up front so the operation log can delete it on undo
+      const relationId = randomUUID();
       await linearClient.createIssueRelation({
+        id: relationId,
         issueId: sourceId,
         relatedIssueId: targetId,
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         type: typeValue as any,
       });
+      recordOperation(run, { kind: "create_relation", issueId: issue.id, identifier: issue.identifier, relationId });
 
       return {
         content: [{
@@ -630,7 +1181,7 @@ const linkIssues = tool(
   }
 );
 
-const updateTitle = tool(
+const updateTitle = (run: AgentRun) => tool(
   "linear_update_title",
   "Update the title of a Linear issue",
   {
@@ -641,7 +1192,9 @@ const updateTitle = tool(
     if (!linearClient) throw new Error("Linear not initialized");
     try {
       const issue = await linearClient.issue(issueId);
+      const previous = { title: issue.title };
       await linearClient.updateIssue(issue.id, { title });
+      recordOperation(run, { kind: "update_issue", issueId: issue.id, identifier: issue.identifier, previous });
       return { content: [{ type: "text" as const, text: JSON.stringify({ success: true, newTitle: title }) }] };
     } catch (e) {
       return { content: [{ type: "text" as const, text: `Error: ${e}` }], isError: true };
@@ -649,74 +1202,270 @@ const updateTitle = tool(
   }
 );
 
-// ---------------------------------------------------------------------------
-// MCP Servers
-// ---------------------------------------------------------------------------
+// --- Outcome Tools (each agent reports its final decision through one of these) ---
 
-const triageServer = createSdkMcpServer({
-  name: "triage-tools",
-  version: "1.0.0",
-  tools: [getUserInfo, searchIssues, createIssue, addComment, replyInThread, uploadImageToLinear],
+const triageOutcomeSchema = z.object({
+  action: z.enum(["created", "duplicate", "skipped", "deferred", "needs_info"]).describe(
+    "created = new ticket created, duplicate = comment added to an existing ticket, skipped = no action, deferred = left for the team, " +
+      "needs_info = asked the reporter for missing details, no ticket yet"
+  ),
+  ticketId: z.string().optional().describe("ID or identifier of the ticket that was created or commented on"),
+  summary: z.string().describe("One sentence explaining the decision"),
 });
 
-const commandServer = createSdkMcpServer({
-  name: "command-tools",
-  version: "1.0.0",
-  tools: [
-    getUserInfo,
-    getIssue,
-    updateIssue,
-    addComment,
-    replyInThread,
-    searchIssues,
-    createIssue,
-    updateIssueStatus,
-    addLabel,
-    removeLabel,
-    assignIssue,
-    closeIssue,
-    reopenIssue,
-    linkIssues,
-    updateTitle,
-  ],
+const orphanOutcomeSchema = z.object({
+  action: z.enum(["created", "updated", "skipped"]).describe(
+    "created = new ticket created, updated = comment added to an existing ticket, skipped = no action"
+  ),
+  ticketId: z.string().optional().describe("ID or identifier of the ticket that was created or commented on"),
+  summary: z.string().describe("One sentence explaining the decision"),
 });
 
-const followupServer = createSdkMcpServer({
-  name: "followup-tools",
-  version: "1.0.0",
-  tools: [getUserInfo, getIssue, updateIssue, addComment, replyInThread, addReaction],
+const deferredOutcomeSchema = z.object({
+  action: z.enum(["created", "no_action"]).describe("created = ticket created at someone's request, no_action = nothing done"),
+  ticketId: z.string().optional().describe("ID or identifier of the ticket that was created"),
+  summary: z.string().describe("One sentence explaining the decision"),
 });
 
-const deferredFollowupServer = createSdkMcpServer({
-  name: "deferred-tools",
-  version: "1.0.0",
-  tools: [getUserInfo, searchIssues, createIssue, addComment, replyInThread],
+const infoFollowupOutcomeSchema = z.object({
+  action: z.enum(["created", "duplicate"]).describe("created = new ticket created, duplicate = comment added to an existing ticket"),
+  ticketId: z.string().optional().describe("ID or identifier of the ticket that was created or commented on"),
+  summary: z.string().describe("One sentence explaining the decision"),
 });
 
-const editHandlerServer = createSdkMcpServer({
-  name: "edit-handler-tools",
-  version: "1.0.0",
-  tools: [getUserInfo, getIssue, updateIssue, addComment],
+const commandOutcomeSchema = z.object({
+  action: z.enum(["executed", "help", "clarification"]).describe(
+    "executed = command carried out, help = listed available commands, clarification = asked the user for more information"
+  ),
+  summary: z.string().describe("One sentence describing what was done"),
 });
 
-const deleteHandlerServer = createSdkMcpServer({
-  name: "delete-handler-tools",
-  version: "1.0.0",
-  tools: [addComment],
-});
+function reportOutcomeTool<T extends z.AnyZodObject>(run: AgentRun, schema: T) {
+  return tool(
+    "report_outcome",
+    "Report your final decision. Call this exactly once, after all other actions are complete.",
+    schema.shape,
+    async (args) => {
+      const parsed = schema.safeParse(args);
+      if (!parsed.success) {
+        return { content: [{ type: "text" as const, text: `Invalid outcome: ${parsed.error.message}` }], isError: true };
+      }
+      run.outcome = parsed.data;
+      if (isDryRun()) recordDecision(run.message, "report_outcome", parsed.data);
+      return { content: [{ type: "text" as const, text: JSON.stringify({ recorded: true }) }] };
+    }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Dry Run
+// ---------------------------------------------------------------------------
+
+let dryRunIssueCount = 0;
+
+// Stands in for a ticket that would have been created
+function dryRunIssue() {
+  dryRunIssueCount++;
+  return {
+    id: `dry-run-${dryRunIssueCount}`,
+    identifier: `DRYRUN-${dryRunIssueCount}`,
+    url: `https://linear.app/${config.linearOrganization}/issue/DRYRUN-${dryRunIssueCount}`,
+  };
+}
+
+// In dry-run mode write tools are swapped for stubs that log the intended call (see dryRun.ts)
+function writeTool<Schema extends AnyZodRawShape>(
+  run: AgentRun,
+  def: SdkMcpToolDefinition<Schema>,
+  fakeResult?: (args: InferShape<Schema>) => Record<string, unknown>
+): SdkMcpToolDefinition<Schema> {
+  return isDryRun() ? recordingStub(def, () => run.message, fakeResult) : def;
+}
+
+// Tools bound to one run: results are recorded into that run, and dry-run decisions are
+// logged against its message
+function runTools(run: AgentRun) {
+  return {
+    searchIssues: searchIssues(run),
+    findSimilarIssues: findSimilarIssues(run),
+    createIssue: writeTool(run, createIssue(run), ({ priority }) => {
+      const issue = dryRunIssue();
+      run.createdIssues.push({ ...issue, priority });
+      return issue;
+    }),
+    addComment: writeTool(run, addComment(run), ({ issueId }) => {
+      const issue = findIssue(run.searchResults, issueId) ?? { id: issueId, identifier: issueId, url: "" };
+      run.commentedIssues.push(issue);
+      return { success: true };
+    }),
+    updateIssue: writeTool(run, updateIssue(run)),
+    replyInThread: writeTool(run, replyInThread(run)),
+    addReaction: writeTool(run, addReaction),
+    uploadImageToLinear: writeTool(run, uploadImageToLinear, ({ slackPrivateUrl }) => ({ url: slackPrivateUrl })),
+    updateIssueStatus: writeTool(run, updateIssueStatus(run)),
+    addLabel: writeTool(run, addLabel(run)),
+    removeLabel: writeTool(run, removeLabel(run)),
+    assignIssue: writeTool(run, assignIssue(run)),
+    closeIssue: writeTool(run, closeIssue(run)),
+    reopenIssue: writeTool(run, reopenIssue(run)),
+    linkIssues: writeTool(run, linkIssues(run)),
+    updateTitle: writeTool(run, updateTitle(run)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// MCP Servers
+// ---------------------------------------------------------------------------
+
+// Built per run rather than shared: an SDK MCP server serves one query at a time, and the
+// run-bound tools above must not record into another run
+
+// Runs that file a report can't comment on existing tickets from a DM: that would copy a
+// private report into a ticket outside the DM's private team or label
+function commentTool(run: AgentRun, t: ReturnType<typeof runTools>) {
+  return isPrivateChannel(run.message.channel) ? [] : [t.addComment];
+}
+
+// Without `reply` the agent can't post in Slack (the bot isn't in the message's channel)
+function triageServer(run: AgentRun, options: { reply: boolean }) {
+  const t = runTools(run);
+  return createSdkMcpServer({
+    name: "triage-tools",
+    version: "1.0.0",
+    tools: [
+      getUserInfo,
+      t.searchIssues,
+      t.findSimilarIssues,
+      t.createIssue,
+      ...commentTool(run, t),
+      ...(options.reply ? [t.replyInThread] : []),
+      t.uploadImageToLinear,
+      reportOutcomeTool(run, triageOutcomeSchema),
+    ],
+  });
+}
+
+function orphanThreadServer(run: AgentRun) {
+  const t = runTools(run);
+  return createSdkMcpServer({
+    name: "orphan-tools",
+    version: "1.0.0",
+    tools: [getUserInfo, t.searchIssues, t.findSimilarIssues, t.createIssue, ...commentTool(run, t), t.replyInThread, reportOutcomeTool(run, orphanOutcomeSchema)],
+  });
+}
+
+function commandServer(run: AgentRun) {
+  const t = runTools(run);
+  return createSdkMcpServer({
+    name: "command-tools",
+    version: "1.0.0",
+    tools: [
+      getUserInfo,
+      getIssue,
+      t.updateIssue,
+      t.addComment,
+      t.replyInThread,
+      t.searchIssues,
+      t.findSimilarIssues,
+      t.createIssue,
+      t.updateIssueStatus,
+      t.addLabel,
+      t.removeLabel,
+      t.assignIssue,
+      t.closeIssue,
+      t.reopenIssue,
+      t.linkIssues,
+      t.updateTitle,
+      reportOutcomeTool(run, commandOutcomeSchema),
+    ],
+  });
+}
+
+function followupServer(run: AgentRun) {
+  const t = runTools(run);
+  return createSdkMcpServer({
+    name: "followup-tools",
+    version: "1.0.0",
+    tools: [getUserInfo, getIssue, t.updateIssue, t.addComment, t.replyInThread, t.addReaction],
+  });
+}
+
+function deferredFollowupServer(run: AgentRun) {
+  const t = runTools(run);
+  return createSdkMcpServer({
+    name: "deferred-tools",
+    version: "1.0.0",
+    tools: [getUserInfo, t.searchIssues, t.findSimilarIssues, t.createIssue, ...commentTool(run, t), t.replyInThread, reportOutcomeTool(run, deferredOutcomeSchema)],
+  });
+}
+
+function infoFollowupServer(run: AgentRun) {
+  const t = runTools(run);
+  return createSdkMcpServer({
+    name: "info-followup-tools",
+    version: "1.0.0",
+    tools: [getUserInfo, t.searchIssues, t.findSimilarIssues, t.createIssue, ...commentTool(run, t), t.replyInThread, reportOutcomeTool(run, infoFollowupOutcomeSchema)],
+  });
+}
+
+function editHandlerServer(run: AgentRun) {
+  const t = runTools(run);
+  return createSdkMcpServer({
+    name: "edit-handler-tools",
+    version: "1.0.0",
+    tools: [getUserInfo, getIssue, t.updateIssue, t.addComment],
+  });
+}
+
+function deleteHandlerServer(run: AgentRun) {
+  const t = runTools(run);
+  return createSdkMcpServer({
+    name: "delete-handler-tools",
+    version: "1.0.0",
+    tools: [t.addComment],
+  });
+}
 
 // ---------------------------------------------------------------------------
 // Build system prompts from config
 // ---------------------------------------------------------------------------
 
-const SYSTEM_PROMPT = buildTriageSystemPrompt(config);
-const COMMAND_SYSTEM_PROMPT = buildCommandSystemPrompt(config);
-const ORPHAN_THREAD_SYSTEM_PROMPT = buildOrphanThreadPrompt(config);
-const FOLLOWUP_SYSTEM_PROMPT_SAME_REPORTER = buildFollowupSameReporterPrompt(config);
-const FOLLOWUP_SYSTEM_PROMPT_DIFFERENT_PERSON = buildFollowupDifferentPersonPrompt(config);
-const DEFERRED_FOLLOWUP_SYSTEM_PROMPT = buildDeferredFollowupPrompt(config);
-const MESSAGE_EDIT_SYSTEM_PROMPT = buildEditHandlerPrompt(config);
-const MESSAGE_DELETE_SYSTEM_PROMPT = buildDeleteHandlerPrompt(config);
+interface SystemPrompts {
+  triage: string;
+  command: string;
+  orphanThread: string;
+  followupSameReporter: string;
+  followupDifferentPerson: string;
+  deferredFollowup: string;
+  infoFollowup: string;
+  messageEdit: string;
+  messageDelete: string;
+}
+
+// Built once per channel route, since routes can override triage rules and product context
+const promptCache = new Map<string, SystemPrompts>();
+
+function systemPromptsFor(channel?: string): SystemPrompts {
+  // Every DM shares one set of prompts
+  const key = isPrivateChannel(channel) ? "dm" : routeFor(channel)?.channelId ?? "";
+  const cached = promptCache.get(key);
+  if (cached) return cached;
+
+  const cfg = channelConfigFor(channel);
+  const prompts: SystemPrompts = {
+    triage: buildTriageSystemPrompt(cfg),
+    command: buildCommandSystemPrompt(cfg),
+    orphanThread: buildOrphanThreadPrompt(cfg),
+    followupSameReporter: buildFollowupSameReporterPrompt(cfg),
+    followupDifferentPerson: buildFollowupDifferentPersonPrompt(cfg),
+    deferredFollowup: buildDeferredFollowupPrompt(cfg),
+    infoFollowup: buildInfoFollowupPrompt(cfg),
+    messageEdit: buildEditHandlerPrompt(cfg),
+    messageDelete: buildDeleteHandlerPrompt(cfg),
+  };
+  promptCache.set(key, prompts);
+  return prompts;
+}
 
 // ---------------------------------------------------------------------------
 // Types
@@ -739,8 +1488,18 @@ export interface TriageInput {
   userId: string;
   channel: string;
   threadTs: string;
+  /** The message being triaged when it is a reply in `threadTs` (defaults to `threadTs`). */
+  messageTs?: string;
   slackMessageUrl: string;
   images?: TriageImage[];
+  /** Slack user who asked for a ticket with a reaction; the agent must then create one. */
+  forcedBy?: string;
+  /** Slack user who asked for the message to be triaged (the "Send to Linear" shortcut or /triage). */
+  requestedBy?: string;
+  /** The message's thread, fetched when triage was requested for it. */
+  threadContext?: string[];
+  /** False when the bot can't post in the message's channel; the requester hears the outcome privately. */
+  replyInThread?: boolean;
   forwardedMessage?: {
     text: string;
     originalAuthorId?: string;
@@ -752,10 +1511,13 @@ export interface TriageInput {
 }
 
 export interface TriageResult {
-  action: "created" | "duplicate" | "skipped" | "deferred" | "error";
+  /** "drafted" = the ticket is waiting for approval (approval mode), so there is no ticket yet. */
+  action: "created" | "duplicate" | "skipped" | "deferred" | "needs_info" | "drafted" | "error";
   ticketId?: string;
   ticketUrl?: string;
   ticketIdentifier?: string;
+  /** Priority of the created ticket (1=Urgent … 4=Low) */
+  priority?: number;
   message: string;
 }
 
@@ -846,17 +1608,49 @@ IMPORTANT: For forwarded messages:
 - Note in the description that this was forwarded feedback`;
   }
 
-  const textPrompt = `New message in ${config.slackChannelName}:
+  const forcedSection = input.forcedBy
+    ? `
+
+## TICKET REQUESTED
+A team member (User ID: ${input.forcedBy}) reacted to this message to request a ticket. You MUST create a new ticket - do not skip or defer it, even if it looks minor or was already discussed. If you find a likely duplicate, still create the ticket and mention the related ticket in its description.`
+    : "";
+
+  const directMessageSection = isPrivateChannel(input.channel)
+    ? `
+
+## PRIVATE DIRECT MESSAGE
+This report was sent to the bot in a direct message, so treat it as confidential (it may be a security concern or a customer-confidential bug).
+- Reply only in this DM, using the channel and thread_ts above. Never post it or quote it anywhere else
+- Actionable reports always get a NEW ticket: you can't comment on existing tickets from a DM. If you find a likely duplicate, mention its identifier in the description
+- The ticket is filed privately automatically; don't add "confidential" to the title`
+    : "";
+
+  const replyInThread = input.replyInThread !== false;
+  const requestedSection = input.requestedBy
+    ? `
+
+## TRIAGE REQUESTED
+A team member (User ID: ${input.requestedBy}) asked for this message to be triaged. It may come from a channel other than ${channelConfigFor(input.channel).slackChannelName}, such as a support channel or a DM; triage it as you would any message there.${input.threadContext && input.threadContext.length > 0 ? `
+
+### Full Thread Context
+${input.threadContext.join("\n")}
+
+Use the whole thread to understand the report, and include the relevant details in the ticket.` : ""}${replyInThread ? "" : `
+
+The bot is not in this channel, so you can't reply in Slack - the requester is told the outcome privately. Don't ask for more details (no needs_info) or defer: create the ticket with what's known, or comment on a duplicate.`}`
+    : "";
+
+  const textPrompt = `New message in ${channelConfigFor(input.channel).slackChannelName}:
 User ID: ${input.userId}
 Message: "${input.messageText}"
 Slack Message Link: ${input.slackMessageUrl}
 Slack Channel: ${input.channel}
-Slack Thread TS: ${input.threadTs}${imageUrlSection}${forwardedSection}
+Slack Thread TS: ${input.threadTs}${imageUrlSection}${forwardedSection}${forcedSection}${requestedSection}${directMessageSection}
 
 ${input.images && input.images.length > 0 ? "I've attached the screenshot(s) below - analyze them to understand what the user is showing." : ""}
 
-Analyze and take action. If it's actionable feedback, create a ticket (include the Slack link in description, and if image URLs are provided above, include them as markdown images in the description). If not actionable (casual chat, thanks, etc), just say SKIPPED.
-When replying in Slack, use the channel and thread_ts provided above.`;
+Analyze and take action. If it's actionable feedback, create a ticket (include the Slack link in description, and if image URLs are provided above, include them as markdown images in the description). If not actionable (casual chat, thanks, etc), take no action.
+${replyInThread ? "When replying in Slack, use the channel and thread_ts provided above.\n" : ""}When you're done, call report_outcome with your decision.`;
 
   const prompt = input.images && input.images.length > 0
     ? createMultiModalPrompt(textPrompt, input.images)
@@ -865,11 +1659,19 @@ When replying in Slack, use the channel and thread_ts provided above.`;
   try {
     console.log("[Agent] Starting triage...");
 
-    const result = query({
+    const run = createRun({
+      kind: "triage",
+      channel: input.channel,
+      userId: input.userId,
+      text: input.messageText,
+      threadTs: input.threadTs,
+      messageTs: input.messageTs ?? input.threadTs,
+    }, input.forwardedMessage?.originalAuthorId || input.userId);
+    const result = runQuery(run, {
       prompt,
       options: {
         model: config.model,
-        systemPrompt: SYSTEM_PROMPT,
+        systemPrompt: systemPromptsFor(input.channel).triage,
         maxTurns: 10,
         permissionMode: "bypassPermissions",
         cwd: process.cwd(),
@@ -878,14 +1680,16 @@ When replying in Slack, use the channel and thread_ts provided above.`;
           ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
         },
         mcpServers: {
-          "triage-tools": triageServer,
+          "triage-tools": triageServer(run, { reply: replyInThread }),
         },
         allowedTools: [
           "mcp__triage-tools__slack_get_user_info",
           "mcp__triage-tools__linear_search_issues",
+          "mcp__triage-tools__linear_find_similar_issues",
           "mcp__triage-tools__linear_create_issue",
           "mcp__triage-tools__linear_add_comment",
-          "mcp__triage-tools__slack_reply_in_thread",
+          ...(replyInThread ? ["mcp__triage-tools__slack_reply_in_thread"] : []),
+          "mcp__triage-tools__report_outcome",
         ],
         stderr: (data: string) => {
           console.error("[Claude stderr]:", data);
@@ -893,12 +1697,7 @@ When replying in Slack, use the channel and thread_ts provided above.`;
       },
     });
 
-    let finalResult: TriageResult = { action: "skipped", message: "No action taken" };
-    let capturedTicketId: string | undefined;
-    let capturedTicketUrl: string | undefined;
-    let capturedTicketIdentifier: string | undefined;
-    let linkedToExisting = false;
-    let isDeferred = false;
+    let resultText = "No action taken";
 
     for await (const message of result) {
       if (message.type === "assistant") {
@@ -909,77 +1708,51 @@ When replying in Slack, use the channel and thread_ts provided above.`;
           console.log("[Agent] Skipping synthetic/error response");
           continue;
         }
-
-        const idMatch = text.match(/"id"\s*:\s*"([^"]+)"/);
-        if (idMatch && !capturedTicketId) {
-          capturedTicketId = idMatch[1];
-          console.log("[Agent] Captured ticket ID:", capturedTicketId);
-        }
-
-        const urlMatch = text.match(/https:\/\/linear\.app\/[^\s)>\]"]+/);
-        if (urlMatch && !capturedTicketUrl) {
-          capturedTicketUrl = urlMatch[0];
-          console.log("[Agent] Captured ticket URL:", capturedTicketUrl);
-        }
-        const identifierMatch = text.match(/([A-Z]+-\d+)/);
-        if (identifierMatch && !capturedTicketIdentifier) {
-          capturedTicketIdentifier = identifierMatch[1];
-          console.log("[Agent] Captured ticket identifier:", capturedTicketIdentifier);
-        }
-
-        if (text.toLowerCase().includes("existing ticket") ||
-            text.toLowerCase().includes("duplicate") ||
-            text.toLowerCase().includes("already tracking") ||
-            text.toLowerCase().includes("added your report to")) {
-          linkedToExisting = true;
-          console.log("[Agent] Detected link to existing ticket");
-        }
-
-        if ((text.toLowerCase().includes("let the team") ||
-            text.toLowerCase().includes("defer") ||
-            text.toLowerCase().includes("team can share") ||
-            text.toLowerCase().includes("team chime in") ||
-            text.toLowerCase().includes("roadmap")) &&
-            !capturedTicketId && !capturedTicketUrl) {
-          isDeferred = true;
-          console.log("[Agent] Detected DEFER to team");
-        }
       }
 
       if (message.type === "result") {
         console.log("[Agent Complete] Cost:", message.total_cost_usd);
+        throwIfTransientFailure(run, message);
         if ("result" in message) {
-          const resultText = message.result;
-          const urlMatch = resultText.match(/https:\/\/linear\.app\/[^\s)>\]"]+/);
-          if (urlMatch && !capturedTicketUrl) {
-            capturedTicketUrl = urlMatch[0];
-          }
-          const identifierMatch = resultText.match(/([A-Z]+-\d+)/);
-          if (identifierMatch && !capturedTicketIdentifier) {
-            capturedTicketIdentifier = identifierMatch[1];
-          }
-
-          if (capturedTicketUrl || capturedTicketIdentifier) {
-            finalResult = {
-              action: linkedToExisting ? "duplicate" : "created",
-              ticketId: capturedTicketId,
-              ticketUrl: capturedTicketUrl,
-              ticketIdentifier: capturedTicketIdentifier,
-              message: resultText,
-            };
-          } else if (isDeferred) {
-            finalResult = { action: "deferred", message: resultText };
-          } else if (resultText.toLowerCase().includes("skip") || resultText.includes("SKIPPED")) {
-            finalResult = { action: "skipped", message: resultText };
-          } else {
-            finalResult = { action: "skipped", message: resultText };
-          }
+          resultText = message.result;
         }
       }
     }
 
+    const reported = triageOutcomeSchema.safeParse(run.outcome);
+    let action: TriageResult["action"];
+    if (reported.success) {
+      action = reported.data.action;
+    } else {
+      action = run.createdIssues.length > 0 ? "created" : run.commentedIssues.length > 0 ? "duplicate" : "skipped";
+      console.log(`[Agent] No outcome reported - inferred "${action}" from tool calls`);
+    }
+    // In approval mode a "created" ticket may only be a draft so far
+    if ((action === "created" || action === "skipped") && run.createdIssues.length === 0 && run.drafts.length > 0) {
+      action = "drafted";
+    }
+
+    const reportedTicketId = reported.success ? reported.data.ticketId : undefined;
+    const created = findIssue(run.createdIssues, reportedTicketId) ?? run.createdIssues[0];
+    const ticket = action === "created"
+      ? created
+      : action === "duplicate"
+        ? findIssue(run.commentedIssues, reportedTicketId) ?? findIssue(run.searchResults, reportedTicketId) ?? run.commentedIssues[0]
+        : undefined;
+    // A forwarded message was reported by its original author
+    await recordReport(run, ticket);
+
+    const finalResult: TriageResult = {
+      action,
+      ticketId: ticket?.id,
+      ticketUrl: ticket?.url,
+      ticketIdentifier: ticket?.identifier,
+      priority: action === "created" ? created?.priority : undefined,
+      message: resultText,
+    };
     return finalResult;
   } catch (error) {
+    if (isTransientError(error) || error instanceof AbortError) throw error;
     console.error("[Agent Error]:", error);
     return { action: "error", message: error instanceof Error ? error.message : "Unknown error" };
   }
@@ -1004,6 +1777,7 @@ export interface OrphanThreadResult {
   action: "created" | "updated" | "skipped" | "error";
   ticketId?: string;
   ticketIdentifier?: string;
+  priority?: number;
   message: string;
 }
 
@@ -1024,20 +1798,29 @@ Full Thread Context:
 ${input.threadContext}
 
 Based on the thread context and the latest reply, decide:
-1. SKIP if not actionable (just say "SKIPPED" and nothing else)
+1. SKIP if not actionable (take no action)
 2. Search for existing tickets and UPDATE if this relates to a known issue
 3. CREATE a new ticket if this is new actionable feedback
 
-If you take action (update or create), reply in Slack using the channel and thread_ts above.`;
+If you take action (update or create), reply in Slack using the channel and thread_ts above.
+When you're done, call report_outcome with your decision.`;
 
   try {
     console.log("[Orphan Thread Agent] Analyzing thread reply...");
 
-    const result = query({
+    const run = createRun({
+      kind: "orphan_thread",
+      channel: input.channel,
+      userId: input.userId,
+      text: input.replyText,
+      threadTs: input.threadTs,
+      messageTs: input.messageTs,
+    });
+    const result = runQuery(run, {
       prompt,
       options: {
         model: config.model,
-        systemPrompt: ORPHAN_THREAD_SYSTEM_PROMPT,
+        systemPrompt: systemPromptsFor(input.channel).orphanThread,
         maxTurns: 10,
         permissionMode: "bypassPermissions",
         cwd: process.cwd(),
@@ -1046,14 +1829,16 @@ If you take action (update or create), reply in Slack using the channel and thre
           ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
         },
         mcpServers: {
-          "triage-tools": triageServer,
+          "orphan-tools": orphanThreadServer(run),
         },
         allowedTools: [
-          "mcp__triage-tools__slack_get_user_info",
-          "mcp__triage-tools__linear_search_issues",
-          "mcp__triage-tools__linear_create_issue",
-          "mcp__triage-tools__linear_add_comment",
-          "mcp__triage-tools__slack_reply_in_thread",
+          "mcp__orphan-tools__slack_get_user_info",
+          "mcp__orphan-tools__linear_search_issues",
+          "mcp__orphan-tools__linear_find_similar_issues",
+          "mcp__orphan-tools__linear_create_issue",
+          "mcp__orphan-tools__linear_add_comment",
+          "mcp__orphan-tools__slack_reply_in_thread",
+          "mcp__orphan-tools__report_outcome",
         ],
         stderr: (data: string) => {
           console.error("[Orphan Thread stderr]:", data);
@@ -1061,11 +1846,7 @@ If you take action (update or create), reply in Slack using the channel and thre
       },
     });
 
-    let finalResult: OrphanThreadResult = { action: "skipped", message: "No action taken" };
-    let capturedTicketId: string | undefined;
-    let capturedTicketUrl: string | undefined;
-    let capturedTicketIdentifier: string | undefined;
-    let addedComment = false;
+    let resultText = "No action taken";
 
     for await (const message of result) {
       if (message.type === "assistant") {
@@ -1076,48 +1857,45 @@ If you take action (update or create), reply in Slack using the channel and thre
           console.log("[Orphan Thread Agent] Skipping synthetic/error response");
           continue;
         }
-
-        if (text.includes("linear_add_comment") || text.toLowerCase().includes("added") && text.toLowerCase().includes("comment")) {
-          addedComment = true;
-        }
-
-        const idMatch = text.match(/"id"\s*:\s*"([^"]+)"/);
-        if (idMatch && !capturedTicketId) {
-          capturedTicketId = idMatch[1];
-        }
-        const urlMatch = text.match(/https:\/\/linear\.app\/[^\s)>\]"]+/);
-        if (urlMatch && !capturedTicketUrl) {
-          capturedTicketUrl = urlMatch[0];
-        }
-        const identifierMatch = text.match(/([A-Z]+-\d+)/);
-        if (identifierMatch && !capturedTicketIdentifier) {
-          capturedTicketIdentifier = identifierMatch[1];
-        }
       }
 
       if (message.type === "result") {
         console.log("[Orphan Thread Agent Complete] Cost:", message.total_cost_usd);
+        throwIfTransientFailure(run, message);
         if ("result" in message) {
-          const resultText = message.result;
-
-          if (resultText.toLowerCase().includes("skip") || resultText.includes("SKIPPED")) {
-            finalResult = { action: "skipped", message: resultText };
-          } else if (capturedTicketUrl || capturedTicketIdentifier) {
-            finalResult = {
-              action: addedComment ? "updated" : "created",
-              ticketId: capturedTicketId,
-              ticketIdentifier: capturedTicketIdentifier,
-              message: resultText,
-            };
-          } else {
-            finalResult = { action: "skipped", message: resultText };
-          }
+          resultText = message.result;
         }
       }
     }
 
+    const reported = orphanOutcomeSchema.safeParse(run.outcome);
+    let action: OrphanThreadResult["action"];
+    if (reported.success) {
+      action = reported.data.action;
+    } else {
+      action = run.createdIssues.length > 0 ? "created" : run.commentedIssues.length > 0 ? "updated" : "skipped";
+      console.log(`[Orphan Thread Agent] No outcome reported - inferred "${action}" from tool calls`);
+    }
+
+    const reportedTicketId = reported.success ? reported.data.ticketId : undefined;
+    const created = findIssue(run.createdIssues, reportedTicketId) ?? run.createdIssues[0];
+    const ticket = action === "created"
+      ? created
+      : action === "updated"
+        ? findIssue(run.commentedIssues, reportedTicketId) ?? run.commentedIssues[0]
+        : undefined;
+    await recordReport(run, ticket);
+
+    const finalResult: OrphanThreadResult = {
+      action,
+      ticketId: ticket?.id,
+      ticketIdentifier: ticket?.identifier,
+      priority: action === "created" ? created?.priority : undefined,
+      message: resultText,
+    };
     return finalResult;
   } catch (error) {
+    if (isTransientError(error) || error instanceof AbortError) throw error;
     console.error("[Orphan Thread Agent Error]:", error);
     return { action: "error", message: error instanceof Error ? error.message : "Unknown error" };
   }
@@ -1143,8 +1921,8 @@ export interface ThreadReplyInput {
 
 export async function handleThreadReply(input: ThreadReplyInput): Promise<void> {
   const systemPrompt = input.isSameReporter
-    ? FOLLOWUP_SYSTEM_PROMPT_SAME_REPORTER
-    : FOLLOWUP_SYSTEM_PROMPT_DIFFERENT_PERSON;
+    ? systemPromptsFor(input.channel).followupSameReporter
+    : systemPromptsFor(input.channel).followupDifferentPerson;
 
   const actionInstruction = input.isSameReporter
     ? "Update the ticket description with this new context (include any images as markdown, and update priority if warranted), then reply in Slack."
@@ -1172,7 +1950,15 @@ ${actionInstruction}`;
   try {
     console.log(`[Followup Agent] Processing thread reply (sameReporter: ${input.isSameReporter}, isDuplicate: ${input.isDuplicate})...`);
 
-    const result = query({
+    const run = createRun({
+      kind: "thread_reply",
+      channel: input.channel,
+      userId: input.userId,
+      text: input.replyText,
+      threadTs: input.threadTs,
+      messageTs: input.messageTs,
+    });
+    const result = runQuery(run, {
       prompt,
       options: {
         model: config.model,
@@ -1185,7 +1971,7 @@ ${actionInstruction}`;
           ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
         },
         mcpServers: {
-          "followup-tools": followupServer,
+          "followup-tools": followupServer(run),
         },
         allowedTools: [
           "mcp__followup-tools__slack_get_user_info",
@@ -1213,9 +1999,11 @@ ${actionInstruction}`;
       }
       if (message.type === "result") {
         console.log("[Followup Agent Complete] Cost:", message.total_cost_usd);
+        throwIfTransientFailure(run, message);
       }
     }
   } catch (error) {
+    if (isTransientError(error) || error instanceof AbortError) throw error;
     console.error("[Followup Agent Error]:", error);
   }
 }
@@ -1263,19 +2051,28 @@ ${input.threadContext}
 Analyze this reply:
 1. First, get the user's info to determine if they're internal or external
 2. Decide:
-   - NO_ACTION: Team providing context, general discussion, no action needed (respond with "NO_ACTION")
+   - NO_ACTION: Team providing context, general discussion, no action needed
    - CREATE_TICKET: Someone explicitly requested to track this (use tools, then confirm)
+3. Call report_outcome with "no_action" or "created"
 
-Remember: If this is just a team member providing context/answering, respond with "NO_ACTION" and nothing else.`;
+Remember: If this is just a team member providing context/answering, don't reply in Slack - just report "no_action".`;
 
   try {
     console.log(`[Deferred Followup Agent] Processing reply...`);
 
-    const result = query({
+    const run = createRun({
+      kind: "deferred_followup",
+      channel: input.channel,
+      userId: input.userId,
+      text: input.replyText,
+      threadTs: input.threadTs,
+      messageTs: input.messageTs,
+    });
+    const result = runQuery(run, {
       prompt,
       options: {
         model: config.model,
-        systemPrompt: DEFERRED_FOLLOWUP_SYSTEM_PROMPT,
+        systemPrompt: systemPromptsFor(input.channel).deferredFollowup,
         maxTurns: 10,
         permissionMode: "bypassPermissions",
         cwd: process.cwd(),
@@ -1284,14 +2081,16 @@ Remember: If this is just a team member providing context/answering, respond wit
           ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
         },
         mcpServers: {
-          "deferred-tools": deferredFollowupServer,
+          "deferred-tools": deferredFollowupServer(run),
         },
         allowedTools: [
           "mcp__deferred-tools__slack_get_user_info",
           "mcp__deferred-tools__linear_search_issues",
+          "mcp__deferred-tools__linear_find_similar_issues",
           "mcp__deferred-tools__linear_create_issue",
           "mcp__deferred-tools__linear_add_comment",
           "mcp__deferred-tools__slack_reply_in_thread",
+          "mcp__deferred-tools__report_outcome",
         ],
         stderr: (data: string) => {
           console.error("[Deferred Followup stderr]:", data);
@@ -1299,9 +2098,7 @@ Remember: If this is just a team member providing context/answering, respond wit
       },
     });
 
-    let finalResult: DeferredFollowupResult = { action: "no_action", message: "No action taken" };
-    let capturedTicketId: string | undefined;
-    let capturedTicketIdentifier: string | undefined;
+    let resultText = "No action taken";
 
     for await (const message of result) {
       if (message.type === "assistant") {
@@ -1312,41 +2109,191 @@ Remember: If this is just a team member providing context/answering, respond wit
           console.log("[Deferred Followup Agent] Skipping synthetic/error response");
           continue;
         }
+      }
 
-        const idMatch = text.match(/"id"\s*:\s*"([^"]+)"/);
-        if (idMatch && !capturedTicketId) {
-          capturedTicketId = idMatch[1];
+      if (message.type === "result") {
+        console.log("[Deferred Followup Agent Complete] Cost:", message.total_cost_usd);
+        throwIfTransientFailure(run, message);
+        if ("result" in message) {
+          resultText = message.result;
         }
-        const identifierMatch = text.match(/([A-Z]+-\d+)/);
-        if (identifierMatch && !capturedTicketIdentifier) {
-          capturedTicketIdentifier = identifierMatch[1];
+      }
+    }
+
+    const reported = deferredOutcomeSchema.safeParse(run.outcome);
+    let action: DeferredFollowupResult["action"];
+    if (reported.success) {
+      action = reported.data.action;
+    } else {
+      action = run.createdIssues.length > 0 ? "created" : "no_action";
+      console.log(`[Deferred Followup Agent] No outcome reported - inferred "${action}" from tool calls`);
+    }
+
+    const ticket = action === "created"
+      ? findIssue(run.createdIssues, reported.success ? reported.data.ticketId : undefined) ?? run.createdIssues[0]
+      : undefined;
+    await recordReport(run, ticket);
+
+    const finalResult: DeferredFollowupResult = {
+      action,
+      ticketId: ticket?.id,
+      ticketIdentifier: ticket?.identifier,
+      message: resultText,
+    };
+    return finalResult;
+  } catch (error) {
+    if (isTransientError(error) || error instanceof AbortError) throw error;
+    console.error("[Deferred Followup Agent Error]:", error);
+    return { action: "error", message: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Info Follow-up Handling (the reporter answered the bot's questions, or didn't in time)
+// ---------------------------------------------------------------------------
+
+export interface InfoFollowupInput {
+  /** The reporter's answer (missing when the wait timed out). */
+  replyText?: string;
+  /** The original reporter. */
+  userId: string;
+  channel: string;
+  threadTs: string;
+  originalContext?: string;
+  threadContext: string;
+  timedOut: boolean;
+  imageUrls?: string[];
+}
+
+export interface InfoFollowupResult {
+  action: "created" | "duplicate" | "drafted" | "error";
+  ticketId?: string;
+  ticketIdentifier?: string;
+  ticketUrl?: string;
+  message: string;
+}
+
+export async function handleInfoFollowup(input: InfoFollowupInput): Promise<InfoFollowupResult> {
+  const imageSection = input.imageUrls && input.imageUrls.length > 0
+    ? `\nImage URLs (already uploaded to Linear CDN - include them as markdown images in the description):\n${input.imageUrls.map((url, i) => `  ${i + 1}. ${url}`).join("\n")}`
+    : "";
+
+  const situation = input.timedOut
+    ? `Nobody answered the questions in time. File the report with what's known and list the details that are still missing in the description.`
+    : `The reporter answered:
+Reply text: "${input.replyText ?? ""}"${imageSection}`;
+
+  const prompt = `The bot asked the reporter of an under-specified bug report for more details.
+
+Original report: "${input.originalContext || "(not available)"}"
+Reporter User ID: ${input.userId}
+Slack Channel: ${input.channel}
+Slack Thread TS: ${input.threadTs}
+Slack Message Link: https://slack.com/archives/${input.channel}/p${input.threadTs.replace(".", "")}
+
+${situation}
+
+Full thread context:
+${input.threadContext}
+
+File the report now: create the ticket (or comment on a duplicate), reply in the thread with the link, then call report_outcome.`;
+
+  try {
+    console.log(`[Info Followup Agent] Filing report (${input.timedOut ? "timed out" : "answered"})...`);
+
+    const run = createRun({
+      kind: "info_followup",
+      channel: input.channel,
+      userId: input.userId,
+      text: input.replyText ?? "",
+      threadTs: input.threadTs,
+      // The ticket belongs to the original report, so that's the message its buttons and undo act on
+      messageTs: input.threadTs,
+    });
+    const result = runQuery(run, {
+      prompt,
+      options: {
+        model: config.model,
+        systemPrompt: systemPromptsFor(input.channel).infoFollowup,
+        maxTurns: 10,
+        permissionMode: "bypassPermissions",
+        cwd: process.cwd(),
+        env: {
+          ...process.env,
+          ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+        },
+        mcpServers: {
+          "info-followup-tools": infoFollowupServer(run),
+        },
+        allowedTools: [
+          "mcp__info-followup-tools__slack_get_user_info",
+          "mcp__info-followup-tools__linear_search_issues",
+          "mcp__info-followup-tools__linear_find_similar_issues",
+          "mcp__info-followup-tools__linear_create_issue",
+          "mcp__info-followup-tools__linear_add_comment",
+          "mcp__info-followup-tools__slack_reply_in_thread",
+          "mcp__info-followup-tools__report_outcome",
+        ],
+        stderr: (data: string) => {
+          console.error("[Info Followup stderr]:", data);
+        },
+      },
+    });
+
+    let resultText = "No action taken";
+
+    for await (const message of result) {
+      if (message.type === "assistant") {
+        const text = typeof message.message === "string" ? message.message : JSON.stringify(message.message);
+        console.log("[Info Followup Agent]:", text.substring(0, 200));
+
+        if (text.includes('"model":"<synthetic>"') || text.includes('"input_tokens":0')) {
+          console.log("[Info Followup Agent] Skipping synthetic/error response");
+          continue;
         }
       }
 
       if (message.type === "result") {
-        console.log("[Deferred Followup Agent Complete] Cost:", message.total_cost_usd);
+        console.log("[Info Followup Agent Complete] Cost:", message.total_cost_usd);
+        throwIfTransientFailure(run, message);
         if ("result" in message) {
-          const resultText = message.result;
-
-          if (resultText.includes("NO_ACTION") || resultText.toLowerCase().includes("no action")) {
-            finalResult = { action: "no_action", message: resultText };
-          } else if (capturedTicketId || capturedTicketIdentifier) {
-            finalResult = {
-              action: "created",
-              ticketId: capturedTicketId,
-              ticketIdentifier: capturedTicketIdentifier,
-              message: resultText,
-            };
-          } else {
-            finalResult = { action: "no_action", message: resultText };
-          }
+          resultText = message.result;
         }
       }
     }
 
+    const reported = infoFollowupOutcomeSchema.safeParse(run.outcome);
+    const reportedTicketId = reported.success ? reported.data.ticketId : undefined;
+    let action: InfoFollowupResult["action"];
+    if (run.createdIssues.length === 0 && run.drafts.length > 0) {
+      action = "drafted";
+    } else if (reported.success) {
+      action = reported.data.action;
+    } else if (run.createdIssues.length > 0 || run.commentedIssues.length > 0) {
+      action = run.createdIssues.length > 0 ? "created" : "duplicate";
+      console.log(`[Info Followup Agent] No outcome reported - inferred "${action}" from tool calls`);
+    } else {
+      return { action: "error", message: `Nothing was filed: ${resultText}` };
+    }
+
+    const ticket = action === "created"
+      ? findIssue(run.createdIssues, reportedTicketId) ?? run.createdIssues[0]
+      : action === "duplicate"
+        ? findIssue(run.commentedIssues, reportedTicketId) ?? findIssue(run.searchResults, reportedTicketId) ?? run.commentedIssues[0]
+        : undefined;
+    await recordReport(run, ticket);
+
+    const finalResult: InfoFollowupResult = {
+      action,
+      ticketId: ticket?.id,
+      ticketIdentifier: ticket?.identifier,
+      ticketUrl: ticket?.url,
+      message: resultText,
+    };
     return finalResult;
   } catch (error) {
-    console.error("[Deferred Followup Agent Error]:", error);
+    if (isTransientError(error) || error instanceof AbortError) throw error;
+    console.error("[Info Followup Agent Error]:", error);
     return { action: "error", message: error instanceof Error ? error.message : "Unknown error" };
   }
 }
@@ -1395,16 +2342,25 @@ Analyze the command and execute it. Remember:
 - For "this" references to a ticket, use the ticket context above (${input.ticketContext || "none available"})
 - If no ticket context and they say "this", look for Linear ticket links in the thread context above
 - Use slack_reply_in_thread to confirm what you did
-- For "help" commands, list the available commands in a friendly, readable format`;
+- For "help" commands, list the available commands in a friendly, readable format
+- Finish by calling report_outcome ("executed", "help", or "clarification")`;
 
   try {
     console.log(`[Command Agent] Processing command: ${input.commandText.substring(0, 100)}`);
 
-    const result = query({
+    const run = createRun({
+      kind: "direct_command",
+      channel: input.channel,
+      userId: input.userId,
+      text: input.commandText,
+      threadTs: input.threadTs,
+      messageTs: input.messageTs,
+    });
+    const result = runQuery(run, {
       prompt,
       options: {
         model: config.model,
-        systemPrompt: COMMAND_SYSTEM_PROMPT,
+        systemPrompt: systemPromptsFor(input.channel).command,
         maxTurns: 10,
         permissionMode: "bypassPermissions",
         cwd: process.cwd(),
@@ -1413,7 +2369,7 @@ Analyze the command and execute it. Remember:
           ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
         },
         mcpServers: {
-          "command-tools": commandServer,
+          "command-tools": commandServer(run),
         },
         allowedTools: [
           "mcp__command-tools__slack_get_user_info",
@@ -1422,6 +2378,7 @@ Analyze the command and execute it. Remember:
           "mcp__command-tools__linear_add_comment",
           "mcp__command-tools__slack_reply_in_thread",
           "mcp__command-tools__linear_search_issues",
+          "mcp__command-tools__linear_find_similar_issues",
           "mcp__command-tools__linear_create_issue",
           "mcp__command-tools__linear_update_status",
           "mcp__command-tools__linear_add_label",
@@ -1431,6 +2388,7 @@ Analyze the command and execute it. Remember:
           "mcp__command-tools__linear_reopen_issue",
           "mcp__command-tools__linear_link_issues",
           "mcp__command-tools__linear_update_title",
+          "mcp__command-tools__report_outcome",
         ],
         stderr: (data: string) => {
           console.error("[Command Agent stderr]:", data);
@@ -1438,7 +2396,7 @@ Analyze the command and execute it. Remember:
       },
     });
 
-    let finalResult: DirectCommandResult = { action: "executed", message: "Command processed" };
+    let resultText = "Command processed";
 
     for await (const message of result) {
       if (message.type === "assistant") {
@@ -1449,31 +2407,29 @@ Analyze the command and execute it. Remember:
           console.log("[Command Agent] Skipping synthetic/error response");
           continue;
         }
-
-        if (text.toLowerCase().includes("available commands") || text.toLowerCase().includes("what can you do") || text.toLowerCase().includes("here's what i can")) {
-          finalResult = { action: "help", message: text };
-        }
       }
 
       if (message.type === "result") {
         console.log("[Command Agent Complete] Cost:", message.total_cost_usd);
+        throwIfTransientFailure(run, message);
         if ("result" in message) {
-          const resultText = message.result;
-
-          if (resultText.toLowerCase().includes("could you") ||
-              resultText.toLowerCase().includes("please specify") ||
-              resultText.toLowerCase().includes("which ticket") ||
-              resultText.toLowerCase().includes("i need")) {
-            finalResult = { action: "clarification", message: resultText };
-          } else if (finalResult.action !== "help") {
-            finalResult = { action: "executed", message: resultText };
-          }
+          resultText = message.result;
         }
       }
     }
 
+    const reported = commandOutcomeSchema.safeParse(run.outcome);
+    if (!reported.success) {
+      console.log(`[Command Agent] No outcome reported - assuming "executed"`);
+    }
+
+    const finalResult: DirectCommandResult = {
+      action: reported.success ? reported.data.action : "executed",
+      message: resultText,
+    };
     return finalResult;
   } catch (error) {
+    if (isTransientError(error) || error instanceof AbortError) throw error;
     console.error("[Command Agent Error]:", error);
     return { action: "error", message: error instanceof Error ? error.message : "Unknown error" };
   }
@@ -1484,12 +2440,15 @@ Analyze the command and execute it. Remember:
 // ---------------------------------------------------------------------------
 
 export interface EditedMessageInput {
+  channel: string;
+  messageTs: string;
+  threadTs?: string;
   ticketId: string;
   ticketIdentifier: string;
   originalText: string;
   editedText: string;
   userId: string;
-  action: "created" | "duplicate" | "skipped" | "deferred" | "error";
+  action: "created" | "duplicate" | "skipped" | "deferred" | "needs_info" | "drafted" | "error";
 }
 
 export async function handleMessageEdit(input: EditedMessageInput): Promise<void> {
@@ -1514,11 +2473,19 @@ Analyze the edit and take appropriate action:
   try {
     console.log(`[Edit Agent] Analyzing edit significance...`);
 
-    const result = query({
+    const run = createRun({
+      kind: "message_edited",
+      channel: input.channel,
+      userId: input.userId,
+      text: input.editedText,
+      threadTs: input.threadTs,
+      messageTs: input.messageTs,
+    });
+    const result = runQuery(run, {
       prompt,
       options: {
         model: config.model,
-        systemPrompt: MESSAGE_EDIT_SYSTEM_PROMPT,
+        systemPrompt: systemPromptsFor(input.channel).messageEdit,
         maxTurns: 8,
         permissionMode: "bypassPermissions",
         cwd: process.cwd(),
@@ -1527,7 +2494,7 @@ Analyze the edit and take appropriate action:
           ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
         },
         mcpServers: {
-          "edit-handler-tools": editHandlerServer,
+          "edit-handler-tools": editHandlerServer(run),
         },
         allowedTools: [
           "mcp__edit-handler-tools__slack_get_user_info",
@@ -1553,9 +2520,11 @@ Analyze the edit and take appropriate action:
       }
       if (message.type === "result") {
         console.log("[Edit Agent Complete] Cost:", message.total_cost_usd);
+        throwIfTransientFailure(run, message);
       }
     }
   } catch (error) {
+    if (isTransientError(error) || error instanceof AbortError) throw error;
     console.error("[Edit Agent Error]:", error);
   }
 }
@@ -1565,10 +2534,11 @@ Analyze the edit and take appropriate action:
 // ---------------------------------------------------------------------------
 
 export interface DeletedMessageInput {
+  channel: string;
   ticketId: string;
   ticketIdentifier: string;
   messageTs: string;
-  action: "created" | "duplicate" | "skipped" | "deferred" | "error";
+  action: "created" | "duplicate" | "skipped" | "deferred" | "needs_info" | "drafted" | "error";
 }
 
 export async function handleMessageDelete(input: DeletedMessageInput): Promise<void> {
@@ -1584,11 +2554,16 @@ Add a brief, factual note to the ticket that the original Slack message was dele
   try {
     console.log(`[Delete Agent] Adding deletion note...`);
 
-    const result = query({
+    const run = createRun({
+      kind: "message_deleted",
+      channel: input.channel,
+      messageTs: input.messageTs,
+    });
+    const result = runQuery(run, {
       prompt,
       options: {
         model: config.model,
-        systemPrompt: MESSAGE_DELETE_SYSTEM_PROMPT,
+        systemPrompt: systemPromptsFor(input.channel).messageDelete,
         maxTurns: 3,
         permissionMode: "bypassPermissions",
         cwd: process.cwd(),
@@ -1597,7 +2572,7 @@ Add a brief, factual note to the ticket that the original Slack message was dele
           ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
         },
         mcpServers: {
-          "delete-handler-tools": deleteHandlerServer,
+          "delete-handler-tools": deleteHandlerServer(run),
         },
         allowedTools: [
           "mcp__delete-handler-tools__linear_add_comment",
@@ -1620,9 +2595,243 @@ Add a brief, factual note to the ticket that the original Slack message was dele
       }
       if (message.type === "result") {
         console.log("[Delete Agent Complete] Cost:", message.total_cost_usd);
+        throwIfTransientFailure(run, message);
       }
     }
   } catch (error) {
+    if (isTransientError(error) || error instanceof AbortError) throw error;
     console.error("[Delete Agent Error]:", error);
   }
 }
+
+// ---------------------------------------------------------------------------
+// Reaction and Button Triggers (direct Linear writes, no agent run)
+// ---------------------------------------------------------------------------
+
+/** A reaction or a button click on a triage reply, acting on a ticket without an agent run. */
+export interface TriggerInput {
+  trigger: "reaction" | "button";
+  channel: string;
+  userId: string;
+  threadTs: string;
+  messageTs: string;
+  ticketId: string;
+}
+
+// The message a trigger's writes are logged against (decision log and undo log)
+function triggerMessage(input: TriggerInput): DecisionMessage {
+  return { kind: input.trigger, channel: input.channel, userId: input.userId, threadTs: input.threadTs, messageTs: input.messageTs };
+}
+
+export interface IssuePriorityInput extends TriggerInput {
+  priority: number;
+}
+
+/** Set a ticket's priority. Returns the ticket, or null if it doesn't exist. */
+export async function setIssuePriority(input: IssuePriorityInput): Promise<IssueRef | null> {
+  if (!linearClient) throw new Error("Linear not initialized");
+  const issue = await linearClient.issue(input.ticketId).catch(() => null);
+  if (!issue) return null;
+
+  const message = triggerMessage(input);
+  if (isDryRun()) {
+    recordDecision(message, "linear_update_issue", { issueId: issue.id, priority: input.priority });
+  } else {
+    const previous = { priority: issue.priority };
+    await linearClient.updateIssue(issue.id, { priority: input.priority });
+    recordOperation({ id: randomUUID(), message }, { kind: "update_issue", issueId: issue.id, identifier: issue.identifier, previous });
+  }
+  console.log(`[Trigger] ${issue.identifier} priority set to ${PRIORITY_NAMES[input.priority]} by ${input.userId} (${input.trigger})`);
+  return { id: issue.id, identifier: issue.identifier, url: issue.url };
+}
+
+export interface AssignResult {
+  assigned: boolean;
+  message: string;
+}
+
+/** Assign a ticket to the Linear user whose email matches the Slack user's ("Assign to me"). */
+export async function assignIssueToSlackUser(input: TriggerInput): Promise<AssignResult> {
+  if (!slackApp || !linearClient) throw new Error("Not initialized");
+  const issue = await linearClient.issue(input.ticketId).catch(() => null);
+  if (!issue) return { assigned: false, message: `Ticket ${input.ticketId} no longer exists.` };
+  const link = `<${issue.url}|${issue.identifier}>`;
+
+  const profile = await slackApp.client.users.info({ user: input.userId });
+  const email = profile.user?.profile?.email?.toLowerCase();
+  const users = email ? await linearClient.users() : null;
+  const assignee = users?.nodes.find((u) => u.email?.toLowerCase() === email);
+  if (!assignee) {
+    return { assigned: false, message: `I couldn't find a Linear account for <@${input.userId}>${email ? ` (${email})` : ""} - please assign ${link} in Linear.` };
+  }
+
+  const message = triggerMessage(input);
+  if (isDryRun()) recordDecision(message, "linear_assign_issue", { issueId: issue.id, assigneeId: assignee.id });
+  else await assignIssueToUser({ id: randomUUID(), message }, issue, assignee.id);
+  console.log(`[Trigger] ${issue.identifier} assigned to ${assignee.name} (${input.trigger})`);
+  return { assigned: true, message: `${link} is now assigned to ${assignee.name}.` };
+}
+
+// ---------------------------------------------------------------------------
+// Approval Mode (drafts are approved from Slack, see draftIssue)
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the ticket for an approved draft. The ticket is logged for undo against the drafted
+ * message and run kind, so it can be taken back like one the agent created directly.
+ * Returns null if Linear didn't return the new issue.
+ */
+export async function createIssueFromDraft(draft: IssueDraft, approvedBy: string): Promise<(IssueRef & { priority: number }) | null> {
+  const route = routeFor(draft.channel);
+  if (!linearClient || !route) throw new Error("Linear not initialized");
+  const run = createRun({ kind: draft.runKind, channel: draft.channel, userId: approvedBy, threadTs: draft.threadTs, messageTs: draft.messageTs }, draft.reporterId);
+
+  if (isDryRun()) {
+    const { title, description, priority, reporterInfo } = draft;
+    recordDecision(run.message, "linear_create_issue", { title, description, priority, reporterInfo });
+    return { ...dryRunIssue(), priority };
+  }
+  const issue = await createLinearIssue(run, route, draft);
+  if (issue) {
+    console.log(`[Approval] Created ${issue.identifier} from draft ${draft.id} (approved by ${approvedBy})`);
+    await recordReport(run, issue);
+  }
+  return issue;
+}
+
+// ---------------------------------------------------------------------------
+// Undo (reverses the last operation set logged for a thread)
+// ---------------------------------------------------------------------------
+
+export interface UndoInput {
+  channel: string;
+  threadTs: string;
+  /** Only undo changes made while handling this message (e.g. the message a reaction is on). */
+  messageTs?: string;
+  /** Only undo changes made by this kind of run (e.g. "triage" to take back a triage decision). */
+  runKind?: string;
+  userId: string;
+}
+
+export interface UndoResult {
+  undone: boolean;
+  /** What was reversed (or why nothing was), for the reply in Slack. */
+  message: string;
+  /** The undone set: the kind of run that made it and the message it was handling. */
+  runKind?: string;
+  messageTs?: string;
+  /** Issues the set created or commented on, by ID and identifier. */
+  issues: Array<{ id: string; identifier: string }>;
+}
+
+const FIELD_NAMES: Record<keyof IssueFields, string> = {
+  title: "title",
+  description: "description",
+  priority: "priority",
+  stateId: "status",
+  assigneeId: "assignee",
+};
+
+// Reverse one operation; returns what was done, for the summary
+async function reverseOperation(op: ReversibleOperation, decision: DecisionMessage): Promise<string> {
+  if (!linearClient) throw new Error("Linear not initialized");
+  const client = linearClient;
+  const write = async (action: string, payload: Record<string, unknown>, apply: () => Promise<unknown>) => {
+    if (isDryRun()) recordDecision(decision, action, payload);
+    else await apply();
+  };
+
+  switch (op.kind) {
+    case "create_issue": {
+      // Canceled rather than deleted so the ticket's history stays; archived if the team has no canceled state
+      const issue = await client.issue(op.issueId);
+      const team = await issue.team;
+      const canceled = team ? (await team.states()).nodes.find((s) => s.type === "canceled") : undefined;
+      if (!canceled) {
+        await write("linear_archive_issue", { issueId: op.issueId }, () => client.archiveIssue(op.issueId));
+        return `archived ${op.identifier}`;
+      }
+      await write("linear_update_issue", { issueId: op.issueId, stateId: canceled.id }, () =>
+        client.updateIssue(op.issueId, { stateId: canceled.id }));
+      return `canceled ${op.identifier}`;
+    }
+    case "add_comment":
+      await write("linear_delete_comment", { commentId: op.commentId }, () => client.deleteComment(op.commentId));
+      return `deleted the comment on ${op.identifier}`;
+    case "update_issue": {
+      await write("linear_update_issue", { issueId: op.issueId, ...op.previous }, () => client.updateIssue(op.issueId, op.previous));
+      const fields = (Object.keys(op.previous) as Array<keyof IssueFields>).map((f) => FIELD_NAMES[f]);
+      return `restored the ${fields.join(" and ")} of ${op.identifier}`;
+    }
+    case "add_label":
+      await write("linear_remove_label", { issueId: op.issueId, labelId: op.labelId }, () => client.issueRemoveLabel(op.issueId, op.labelId));
+      return `removed ${op.labelName} from ${op.identifier}`;
+    case "remove_label":
+      await write("linear_add_label", { issueId: op.issueId, labelId: op.labelId }, () => client.issueAddLabel(op.issueId, op.labelId));
+      return `put ${op.labelName} back on ${op.identifier}`;
+    case "create_relation":
+      await write("linear_delete_relation", { relationId: op.relationId }, () => client.deleteIssueRelation(op.relationId));
+      return `removed the link from ${op.identifier}`;
+    case "add_customer_request":
+      // The customer stays, even if it was created for this report, and so does an attachment the request reused
+      await write("linear_delete_customer_request", { needId: op.needId, ...(op.createdAttachment && { attachmentId: op.attachmentId }) }, () =>
+        customersFor(client).removeRequest(op));
+      return `removed the ${op.customerName} request from ${op.identifier}`;
+    case "record_report": {
+      // Re-read the ticket: other reports and edits may have changed it since
+      const issue = await client.issue(op.issueId);
+      const current = issue.description ?? "";
+      let tally = removeReport(parseReportTally(current), op.report);
+      const { escalation } = op;
+      if (escalation && tally.escalation?.priority === escalation.priority) tally = { ...tally, escalation: escalation.previousEscalation };
+      // Only a priority nobody has changed since goes back
+      const restorePriority = escalation !== undefined && issue.priority === escalation.priority;
+      const update = {
+        description: withReportTally(current, tally),
+        ...(restorePriority && { priority: escalation.previousPriority }),
+      };
+      await write("linear_update_issue", { issueId: op.issueId, ...update }, () => client.updateIssue(op.issueId, update));
+      return `removed ${op.reporterName}'s report from ${op.identifier}${restorePriority ? " and restored its priority" : ""}`;
+    }
+  }
+}
+
+/**
+ * Undo the most recent set of Linear changes the bot made in a thread (everything one agent
+ * run or reaction did), newest first. Slack replies and reactions are not undone.
+ */
+export async function undoLastOperations(input: UndoInput): Promise<UndoResult> {
+  if (!agentLog) throw new Error("Operation log not initialized");
+  const set: OperationRecord[] = agentLog.lastOperationSet(input.channel, input.threadTs, { messageTs: input.messageTs, runKind: input.runKind });
+  if (set.length === 0) {
+    return { undone: false, message: "There's nothing to undo here - I haven't changed anything in Linear for this thread.", issues: [] };
+  }
+
+  const decision = { kind: "undo", channel: input.channel, userId: input.userId, threadTs: input.threadTs, messageTs: set[0].messageTs };
+  const done: string[] = [];
+  const failed: string[] = [];
+  for (const { operation } of [...set].reverse()) {
+    try {
+      done.push(await reverseOperation(operation, decision));
+    } catch (e) {
+      console.error(`[Undo] Could not reverse ${operation.kind} on ${operation.identifier}:`, e);
+      failed.push(`${operation.kind.replace("_", " ")} on ${operation.identifier}`);
+    }
+  }
+
+  // A set that was partly reversed is still marked, so a second undo doesn't reach further back
+  if (done.length > 0 && !isDryRun()) agentLog.markOperationSetUndone(set[0].setId);
+  console.log(`[Undo] ${input.userId} undid ${done.length}/${set.length} operation(s) from ${set[0].runKind} in thread ${input.threadTs}`);
+
+  const issues = set
+    .filter(({ operation }) => operation.kind === "create_issue" || operation.kind === "add_comment")
+    .map(({ operation }) => ({ id: operation.issueId, identifier: operation.identifier }));
+  const summary = done.length > 0 ? `Undone: ${done.join(", ")}.` : "Nothing could be undone.";
+  return {
+    undone: done.length > 0,
+    message: failed.length > 0 ? `${summary} Could not undo: ${failed.join(", ")} - please fix these in Linear.` : summary,
+    runKind: set[0].runKind,
+    messageTs: set[0].messageTs,
+    issues,
+  };
+}
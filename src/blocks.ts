@@ -0,0 +1,243 @@
+/**
+ * blocks.ts — Block Kit for the bot's triage replies.
+ *
+ * A triage reply that names a ticket gets action buttons under its text: dismiss the report,
+ * replace a wrong duplicate link with a new ticket, change the priority or take the ticket.
+ * Clicks arrive as `block_actions` (see handleBlockAction in pipeline.ts); each button
+ * carries the ticket and the triaged message in its value, so no lookup is needed to act.
+ *
+ * In approval mode a drafted ticket is posted for review with Approve / Edit / Reject
+ * buttons; those carry the draft ID, and Edit opens a modal with the draft's fields.
+ */
+
+import type { KnownBlock, ModalView } from "@slack/bolt";
+import type { IssueDraft } from "./store.js";
+
+// Every action ID starts with "triage_", which is what index.ts listens for
+export const TRIAGE_ACTIONS = {
+  dismiss: "triage_dismiss",
+  createNew: "triage_create_new",
+  priority: "triage_priority",
+  assignMe: "triage_assign_me",
+} as const;
+
+export type TriageActionId = (typeof TRIAGE_ACTIONS)[keyof typeof TRIAGE_ACTIONS];
+
+/** What a button acts on, stored in its `value`. */
+export interface TriageActionValue {
+  ticketId: string;
+  /** The Slack message that was triaged (the thread root, or a reply that was triaged on its own). */
+  messageTs: string;
+}
+
+export const PRIORITY_NAMES: Record<number, string> = { 1: "Urgent", 2: "High", 3: "Normal", 4: "Low" };
+
+/** Reply text plus the action buttons for the ticket it names. */
+export function triageReplyBlocks(text: string, target: TriageActionValue, options: { duplicate: boolean }): KnownBlock[] {
+  const value = JSON.stringify(target);
+  return [
+    { type: "section", text: { type: "mrkdwn", text } },
+    {
+      type: "actions",
+      block_id: "triage_actions",
+      elements: [
+        {
+          type: "button",
+          action_id: TRIAGE_ACTIONS.dismiss,
+          text: { type: "plain_text", text: "Not a bug / dismiss" },
+          value,
+          confirm: {
+            title: { type: "plain_text", text: "Dismiss this report?" },
+            text: { type: "mrkdwn", text: options.duplicate ? "The comment added to the ticket is removed." : "The ticket is canceled." },
+            confirm: { type: "plain_text", text: "Dismiss" },
+            deny: { type: "plain_text", text: "Keep it" },
+          },
+        },
+        ...(options.duplicate
+          ? [{
+              type: "button" as const,
+              action_id: TRIAGE_ACTIONS.createNew,
+              text: { type: "plain_text" as const, text: "Wrong duplicate, create a new ticket" },
+              value,
+            }]
+          : []),
+        {
+          type: "static_select",
+          action_id: TRIAGE_ACTIONS.priority,
+          placeholder: { type: "plain_text", text: "Change priority" },
+          options: Object.entries(PRIORITY_NAMES).map(([priority, name]) => ({
+            text: { type: "plain_text" as const, text: name },
+            value: JSON.stringify({ ...target, priority: Number(priority) }),
+          })),
+        },
+        {
+          type: "button",
+          action_id: TRIAGE_ACTIONS.assignMe,
+          text: { type: "plain_text", text: "Assign to me" },
+          value,
+        },
+      ],
+    },
+  ];
+}
+
+/** Decode a button or option value. Returns null for values this bot didn't produce. */
+export function parseActionValue(value: string | undefined): (TriageActionValue & { priority?: number }) | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed?.ticketId !== "string" || typeof parsed?.messageTs !== "string") return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Draft Review (approval mode)
+// ---------------------------------------------------------------------------
+
+export const DRAFT_ACTIONS = {
+  approve: "triage_draft_approve",
+  edit: "triage_draft_edit",
+  reject: "triage_draft_reject",
+} as const;
+
+export type DraftActionId = (typeof DRAFT_ACTIONS)[keyof typeof DRAFT_ACTIONS];
+
+/** callback_id of the modal the Edit button opens. */
+export const DRAFT_EDIT_VIEW = "triage_draft_edit_view";
+
+// Slack's limits: 3000 characters for a section's text and for a plain-text input
+const SECTION_MAX = 3000;
+const PREVIEW_MAX = 1500;
+
+/** The draft fields a reviewer can change in the edit modal. */
+export type DraftEdits = Pick<IssueDraft, "title" | "description" | "priority">;
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+// Title, priority, description preview, where it came from and what it might duplicate
+function draftSummaryBlocks(draft: IssueDraft): KnownBlock[] {
+  const source = `https://slack.com/archives/${draft.channel}/p${draft.messageTs.replace(".", "")}`;
+  const duplicates = draft.suspectedDuplicates.map((d) => `<${d.url}|${d.identifier}>${d.title ? ` ${d.title}` : ""}`);
+  return [
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: truncate(`*${draft.title}*\nPriority: *${PRIORITY_NAMES[draft.priority] ?? draft.priority}*`, SECTION_MAX) },
+    },
+    { type: "section", text: { type: "mrkdwn", text: truncate(draft.description || "_No description_", PREVIEW_MAX) } },
+    {
+      type: "context",
+      elements: [{
+        type: "mrkdwn",
+        text: truncate(
+          `From ${draft.reporterId ? `<@${draft.reporterId}>` : draft.reporterInfo} in <${source}|this message>` +
+            (duplicates.length > 0 ? ` · Possible duplicates: ${duplicates.join(", ")}` : ""),
+          SECTION_MAX
+        ),
+      }],
+    },
+  ];
+}
+
+/** The review message: the draft plus Approve / Edit / Reject buttons. */
+export function draftReviewBlocks(draft: IssueDraft): KnownBlock[] {
+  const expires = Math.floor(draft.expiresAt / 1000);
+  return [
+    { type: "header", text: { type: "plain_text", text: "Ticket draft for review" } },
+    ...draftSummaryBlocks(draft),
+    {
+      type: "actions",
+      block_id: "draft_actions",
+      elements: [
+        { type: "button", action_id: DRAFT_ACTIONS.approve, style: "primary", text: { type: "plain_text", text: "Approve" }, value: draft.id },
+        { type: "button", action_id: DRAFT_ACTIONS.edit, text: { type: "plain_text", text: "Edit" }, value: draft.id },
+        {
+          type: "button",
+          action_id: DRAFT_ACTIONS.reject,
+          style: "danger",
+          text: { type: "plain_text", text: "Reject" },
+          value: draft.id,
+          confirm: {
+            title: { type: "plain_text", text: "Reject this draft?" },
+            text: { type: "mrkdwn", text: "No ticket is created for the report." },
+            confirm: { type: "plain_text", text: "Reject" },
+            deny: { type: "plain_text", text: "Keep it" },
+          },
+        },
+      ],
+    },
+    {
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `Expires <!date^${expires}^{date_short_pretty} at {time}|${new Date(draft.expiresAt).toISOString()}>` }],
+    },
+  ];
+}
+
+/** The review message once decided: the draft without buttons, and what happened to it. */
+export function draftResolvedBlocks(draft: IssueDraft, outcome: string): KnownBlock[] {
+  return [
+    ...draftSummaryBlocks(draft),
+    { type: "context", elements: [{ type: "mrkdwn", text: outcome }] },
+  ];
+}
+
+/** The edit modal; the draft ID travels in private_metadata. */
+export function draftEditView(draft: IssueDraft): ModalView {
+  // A description too long for the input is left as it is
+  const editableDescription = draft.description.length <= SECTION_MAX;
+  return {
+    type: "modal",
+    callback_id: DRAFT_EDIT_VIEW,
+    private_metadata: draft.id,
+    title: { type: "plain_text", text: "Edit ticket draft" },
+    submit: { type: "plain_text", text: "Save" },
+    close: { type: "plain_text", text: "Cancel" },
+    blocks: [
+      {
+        type: "input",
+        block_id: "title",
+        label: { type: "plain_text", text: "Title" },
+        element: { type: "plain_text_input", action_id: "value", initial_value: draft.title, max_length: 255 },
+      },
+      editableDescription
+        ? {
+            type: "input",
+            block_id: "description",
+            label: { type: "plain_text", text: "Description" },
+            element: { type: "plain_text_input", action_id: "value", multiline: true, initial_value: draft.description, max_length: SECTION_MAX },
+          }
+        : { type: "context", elements: [{ type: "mrkdwn", text: "The description is too long to edit here; it is kept as drafted." }] },
+      {
+        type: "input",
+        block_id: "priority",
+        label: { type: "plain_text", text: "Priority" },
+        element: {
+          type: "static_select",
+          action_id: "value",
+          options: Object.entries(PRIORITY_NAMES).map(([priority, name]) => ({ text: { type: "plain_text" as const, text: name }, value: priority })),
+          ...(PRIORITY_NAMES[draft.priority] && {
+            initial_option: { text: { type: "plain_text" as const, text: PRIORITY_NAMES[draft.priority] }, value: String(draft.priority) },
+          }),
+        },
+      },
+    ],
+  };
+}
+
+type ViewStateValues = Record<string, Record<string, { value?: string | null; selected_option?: { value?: string } | null }>>;
+
+/** Read the submitted edit modal. Fields missing from the submission are left out. */
+export function parseDraftEdits(values: ViewStateValues | undefined): Partial<DraftEdits> {
+  const edits: Partial<DraftEdits> = {};
+  const title = values?.title?.value?.value?.trim();
+  if (title) edits.title = title;
+  const description = values?.description?.value?.value;
+  if (typeof description === "string") edits.description = description;
+  const priority = Number(values?.priority?.value?.selected_option?.value);
+  if (PRIORITY_NAMES[priority]) edits.priority = priority;
+  return edits;
+}
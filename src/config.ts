@@ -30,6 +30,103 @@ export interface TriageRules {
   deferFor: string[];
 }
 
+export interface LinearDestination {
+  /** Linear team UUID that new tickets are created in. */
+  teamId: string;
+  /** Linear project UUID that new tickets are added to (and searched for duplicates). */
+  projectId: string;
+}
+
+/**
+ * What a reaction on a message makes the bot do:
+ * - `create_ticket`: create a ticket for the message, even a reply or one the bot skipped
+ * - `urgent`: set the message's ticket to Urgent priority
+ * - `undo`: undo what the bot did for the message
+ */
+export type ReactionAction = "create_ticket" | "urgent" | "undo";
+
+/** Human review of new tickets before they reach Linear. */
+export interface ApprovalSettings {
+  /** When true, the agent drafts tickets and a team member approves, edits or rejects each draft in Slack. */
+  enabled: boolean;
+  /** Slack channel ID drafts are posted to for review. Leave empty to post each draft in the reporter's thread. */
+  reviewChannelId: string;
+  /** Hours a draft waits for a decision before it expires without creating a ticket. */
+  expiresAfterHours: number;
+}
+
+/** Private reports sent to the bot in direct messages. */
+export interface DirectMessageSettings {
+  /** When true, the bot triages DMs sent to it. Its replies stay in the DM. */
+  enabled: boolean;
+  /** Linear label UUID added to every ticket from a DM (e.g. a "Confidential" label). */
+  confidentialLabelId: string;
+  /**
+   * Where tickets from DMs go, e.g. a private team (projectId may be empty). Leave teamId empty
+   * to use the first channel route's team and project, with the confidential label.
+   */
+  linear: LinearDestination;
+}
+
+/** A priority the ticket is raised to once enough people have reported it. */
+export interface EscalationThreshold {
+  /** Distinct reporters needed. */
+  reporters: number;
+  /** 1 = Urgent, 2 = High, 3 = Normal, 4 = Low. */
+  priority: number;
+}
+
+/** The tally of who reported each ticket, kept in a section of its description. */
+export interface ReportTrackingSettings {
+  /** When true, every ticket the bot files or links a report to lists its reporters and their Slack threads. */
+  enabled: boolean;
+  /** Raise the priority as the reporter count grows. Priorities are only ever raised, never lowered. */
+  escalation: EscalationThreshold[];
+}
+
+/** Adjusts the priority of new tickets by who reported them (see slackUsers.ts). */
+export interface ReporterPriorityRule {
+  /** Reporters the rule applies to: team members, or people from other organizations. */
+  affiliation: "internal" | "external";
+  /**
+   * Only external reporters from these organizations: Slack Connect workspace or Enterprise Grid
+   * org name, or email domain (case-insensitive). Left out or empty for any.
+   */
+  orgs?: string[];
+  /** File tickets at least this urgent: 1 = Urgent, 2 = High, 3 = Normal, 4 = Low. */
+  atLeast?: number;
+  /** File tickets at most this urgent. */
+  atMost?: number;
+}
+
+/** Linear customer requests for reports from people outside the company. */
+export interface CustomerRequestSettings {
+  /**
+   * When true, each report from an external reporter (a Slack Connect user, or an email outside
+   * `internalEmailDomain`) is added to the ticket as a request from their company's Linear customer.
+   */
+  enabled: boolean;
+  /** Create the customer when none matches the reporter's email domain or Slack Connect workspace. */
+  createCustomers: boolean;
+  /** Webmail and other shared email domains, which say nothing about the reporter's company. */
+  ignoredDomains: string[];
+}
+
+export interface ChannelRoute {
+  /** Slack channel ID to monitor (e.g., "C0123456789"). */
+  channelId: string;
+  /** Name of the Slack channel (for prompts and log messages). */
+  channelName: string;
+  /** Where tickets from this channel go in Linear. */
+  linear: LinearDestination;
+  /** Per-channel overrides. Any field left out falls back to the top-level `issueTemplate`. */
+  issueTemplate?: Partial<IssueTemplate>;
+  /** Per-channel overrides. Any field left out falls back to the top-level `triageRules`. */
+  triageRules?: Partial<TriageRules>;
+  /** Per-channel product context. Falls back to the top-level `productContext`. */
+  productContext?: string;
+}
+
 export interface TriageConfig {
   // --- Required (you must change these) ---
 
@@ -60,12 +157,109 @@ export interface TriageConfig {
   internalEmailDomain: string;
   /** Claude model alias to use for all agent calls. */
   model: "sonnet" | "opus" | "haiku";
+  /**
+   * How many agent runs may be in flight at once. Events in the same thread always run one
+   * after another, in the order they arrived. Set to 1 to process everything serially.
+   */
+  maxConcurrentRuns: number;
+  /**
+   * Prefix that marks a Linear comment for posting in the ticket's Slack threads (needs the
+   * Linear webhook, see README). The prefix is stripped. Empty string syncs every comment.
+   */
+  commentSyncMarker: string;
+  /**
+   * Hours the bot waits for a reporter to answer its clarifying questions (the needs_info
+   * outcome) before it creates the ticket with what it has.
+   */
+  clarificationTimeoutHours: number;
+  /** Emoji name (without colons) → what a reaction with it does. Remove an entry to disable it. */
+  reactionTriggers: Record<string, ReactionAction>;
+  /** Approval mode: new tickets are drafted for review instead of created directly. */
+  approval: ApprovalSettings;
+  /** Direct-message intake for sensitive feedback. */
+  directMessages: DirectMessageSettings;
+  /** Reporter tally and automatic priority escalation on tickets. */
+  reportTracking: ReportTrackingSettings;
+  /** Customer requests in Linear for external reporters. */
+  customerRequests: CustomerRequestSettings;
+  /** Priority rules for new tickets by reporter, e.g. at least High for a key customer. */
+  priorityRules: ReporterPriorityRule[];
+  /**
+   * Channels to monitor, each routed to its own Linear team/project. Leave empty to
+   * monitor a single channel configured through SLACK_CHANNEL_ID, LINEAR_TEAM_ID and
+   * LINEAR_PROJECT_ID.
+   */
+  channels: ChannelRoute[];
+}
+
+// ---------------------------------------------------------------------------
+// Channel Routing
+// ---------------------------------------------------------------------------
+
+/** Apply a channel route's overrides on top of the base config. */
+export function resolveChannelConfig(cfg: TriageConfig, route: ChannelRoute): TriageConfig {
+  return {
+    ...cfg,
+    slackChannelName: route.channelName,
+    issueTemplate: { ...cfg.issueTemplate, ...route.issueTemplate },
+    triageRules: { ...cfg.triageRules, ...route.triageRules },
+    productContext: route.productContext ?? cfg.productContext,
+  };
+}
+
+/** Slack IDs of direct-message conversations start with "D". */
+export function isDirectMessageChannel(channel: string): boolean {
+  return channel.startsWith("D");
+}
+
+/**
+ * The route for a direct message: `base` (the first channel route) with tickets sent to
+ * `directMessages.linear` when a team is set there, and always given the confidential label.
+ */
+export function directMessageRoute(cfg: TriageConfig, base: ChannelRoute, channelId: string): ChannelRoute {
+  const dm = cfg.directMessages;
+  const privateTeam = !!dm.linear.teamId;
+  // Labels and workflow states belong to the base route's team
+  const labelIds = privateTeam ? [] : base.issueTemplate?.labelIds ?? cfg.issueTemplate.labelIds;
+  return {
+    ...base,
+    channelId,
+    channelName: "a direct message",
+    linear: privateTeam ? dm.linear : base.linear,
+    issueTemplate: {
+      ...base.issueTemplate,
+      labelIds: dm.confidentialLabelId ? [...labelIds, dm.confidentialLabelId] : labelIds,
+      ...(privateTeam && { stateId: "" }),
+    },
+  };
 }
 
 // ---------------------------------------------------------------------------
 // Prompt Builder Functions
 // ---------------------------------------------------------------------------
 
+// The reporter priority rules, as the linear_create_issue tool applies them
+function priorityRulesSection(cfg: TriageConfig): string {
+  if (cfg.priorityRules.length === 0) return "";
+  const names = ["", "Urgent", "High", "Normal", "Low"];
+  const rules = cfg.priorityRules.map((rule) => {
+    const who = rule.affiliation === "internal"
+      ? "Internal reporters"
+      : rule.orgs && rule.orgs.length > 0 ? `External reporters from ${rule.orgs.join(", ")}` : "External reporters";
+    const bounds = [
+      ...(rule.atLeast !== undefined ? [`at least ${rule.atLeast} (${names[rule.atLeast]})`] : []),
+      ...(rule.atMost !== undefined ? [`at most ${rule.atMost} (${names[rule.atMost]})`] : []),
+    ];
+    return `- ${who}: ${bounds.join(" and ")}`;
+  });
+  return `
+### Reporter Priority Rules
+linear_create_issue adjusts the priority of new tickets by who reported them (the label from slack_get_user_info):
+${rules.join("\n")}
+Pick the priority the report deserves; the tool applies these rules and returns the priority it used.
+`;
+}
+
 export function buildTriageSystemPrompt(cfg: TriageConfig): string {
   const productContextSection = cfg.productContext
     ? `\n## Product Context: ${cfg.productName}\n\n${cfg.productContext}\n`
@@ -106,7 +300,17 @@ Include the following in every ticket description:
 - **Impact**: How it affects the user (blocking, confusing UX, minor, etc.)
 - **Extra context**: Link to original Slack message, any image URLs as markdown images, related issues found during search
 
-DO NOT include reporter info in the description - the tool automatically adds "Reported via Slack by:" at the end.\n`;
+DO NOT include reporter info in the description - the tool automatically adds "Reported via Slack by:" at the end, with whether the reporter is internal or external.\n`;
+
+  const approvalSection = cfg.approval.enabled
+    ? `
+## Approval Mode
+New tickets need a team member's approval. linear_create_issue posts a draft for review instead of creating the ticket, so there is no ticket link yet:
+- Reply that the report is waiting for the team's review, e.g. "Thanks for the feedback! I've drafted a ticket for the team to review."
+- Report the outcome as **created** without a ticket ID
+Duplicates are not affected: comments on existing tickets are added right away.
+`
+    : "";
 
   return `You are a triage agent for ${cfg.productName} product feedback.
 
@@ -117,7 +321,7 @@ If the message appears to be directly addressing you by name (e.g., "hey bot", "
 
 "I'm designed to automatically triage feedback messages in this channel. If you'd like me to take a specific action, please @-tag me directly with your request - I can check for duplicates, update ticket status, close/reopen issues, and more."
 
-Set action to SKIPPED.
+Report the outcome as skipped.
 
 ## Triage Rules
 - CREATE ticket for:
@@ -125,6 +329,7 @@ ${createRules}
 - SKIP (no action):
 ${skipRules}
 - DEFER (let team respond): questions about roadmap features, requests needing team discussion
+- NEEDS INFO (ask first): bug reports too vague to act on, e.g. "export is broken" (see below)
 ${deferSection}
 ## Forwarded Messages
 Sometimes feedback is forwarded/shared from other channels. When a message is marked as FORWARDED:
@@ -136,10 +341,11 @@ Sometimes feedback is forwarded/shared from other channels. When a message is ma
 - Link to the original message URL if available
 
 ## If Creating a Ticket
-1. Get user info with slack_get_user_info
-2. Search for duplicates with a COMPREHENSIVE keyword array:
-   - Pass ALL relevant synonyms in a single search (the tool uses OR logic)
-   - Include the literal terms AND semantic equivalents
+1. Get user info with slack_get_user_info. Its label says whether the reporter is internal or external, and from which organization (e.g. "External — Acme Corp")
+2. Search for duplicates:
+   - First describe the problem in a sentence or two to linear_find_similar_issues: it ranks issues by similarity and finds reports worded differently. Look closely at anything scoring 0.4 or more
+   - Then search with linear_search_issues using a COMPREHENSIVE keyword array: pass ALL relevant synonyms in a single search (the tool uses OR logic), the literal terms AND semantic equivalents
+   - Nothing open matches? Search again with includeClosed: true (a fixed bug may be back) and scope: "team" (it may be tracked in a sibling project). A closed match goes under "Related issues" in a new ticket
    - Be aggressive about finding duplicates - creating duplicates is worse than adding to existing tickets
 3. If duplicate found: use linear_add_comment to add reporter details and Slack link
 4. If new: use linear_create_issue with:
@@ -155,7 +361,7 @@ Sometimes feedback is forwarded/shared from other channels. When a message is ma
    - Format: "Thanks for the feedback! I've added a comment to an existing ticket tracking this issue: [link]"
 
    **IMPORTANT**: Always be clear whether you CREATED a ticket or ADDED A COMMENT.
-
+${approvalSection}
 ## Multiple Feedback Items in One Message
 If a single message contains multiple distinct pieces of feedback:
 1. Identify distinct issues (numbered lists, "also", clearly unrelated topics)
@@ -164,8 +370,19 @@ If a single message contains multiple distinct pieces of feedback:
 
 **When NOT to split:** closely related aspects of the same problem, or one item providing context for another.
 
+## Under-Specified Bug Reports (NEEDS INFO)
+When a bug report is too thin for anyone to act on (no idea where it happens, what was expected, or how to trigger it), don't create a thin ticket:
+1. Search for duplicates first - if it clearly matches an existing ticket, handle it as a duplicate
+2. Otherwise reply with slack_reply_in_thread and ask 2-3 targeted questions about what's missing:
+   - Steps to reproduce
+   - Environment (browser or app version, OS, workspace)
+   - Expected vs. actual behavior
+3. Don't create a ticket. The ticket is created once the reporter answers, or after ${cfg.clarificationTimeoutHours} hours with what's known
+
+Only ask about what's actually missing. Feature requests and reports that are clear enough get a ticket right away.
+
 ## Clarifying Questions
-Always assess if you understand what the user is trying to accomplish. Create the ticket/add comment regardless, but ask for clarification when needed.
+For reports that are clear enough to ticket, still assess if you understand what the user is trying to accomplish. Create the ticket/add comment regardless, but ask for clarification when needed.
 - Still create the ticket first - don't block on getting more info
 - 1-2 questions max in your Slack reply
 - Ask "what were you trying to do?" or "what were you hoping to accomplish?"
@@ -186,13 +403,23 @@ ${titleNote}
 - **4 = Low**: Nice-to-have polish, edge cases, minor inconveniences
 
 **Important**: UX-only issues should be **Priority 3 (Normal)** unless they're genuinely blocking work.
-
+${priorityRulesSection(cfg)}
 ## Slack Formatting
 When using slack_reply_in_thread, use Slack's native formatting - NOT Markdown:
 - Bold: *text* (NOT **text** - double asterisks render as literal * in Slack)
 - Italic: _text_
 - Code: \`code\`
-- Bullet lists: use • or -`;
+- Bullet lists: use • or -
+
+## Reporting Your Decision
+After all other actions, call report_outcome exactly once:
+- **created**: you created a new ticket (pass its ID)
+- **duplicate**: you added a comment to an existing ticket (pass that ticket's ID)
+- **deferred**: you replied and left it for the team
+- **needs_info**: you asked the reporter for missing details and created nothing yet
+- **skipped**: you took no action
+
+If you created several tickets from one message, pass the ID of the first one.`;
 }
 
 export function buildCommandSystemPrompt(cfg: TriageConfig): string {
@@ -222,6 +449,7 @@ You were @mentioned in a Slack message. Analyze the command and execute it.
 ### Information
 - **help** / **what can you do?** - List available commands
 - **status** - Show current ticket status and details
+- **undo** - Roll back the bot's last Linear changes in this thread (the bot handles this itself; only mention it when listing commands)
 
 ## How to Handle Commands
 
@@ -249,7 +477,13 @@ Use Slack's native formatting - NOT Markdown:
 When asked to "merge into [ticket]", gather the full thread context and add it as a well-formatted comment to the target ticket. Include:
 - Summary of the discussion
 - Key points raised
-- Link back to the Slack thread`;
+- Link back to the Slack thread
+
+## Reporting Your Decision
+After responding, call report_outcome exactly once:
+- **executed**: you carried out the command
+- **help**: you listed the available commands
+- **clarification**: you asked the user for more information`;
 }
 
 export function buildOrphanThreadPrompt(cfg: TriageConfig): string {
@@ -270,7 +504,7 @@ Analyze the thread and the latest reply to decide what action to take:
    - Already handled (e.g., someone said they'll file a ticket)
 
 2. **UPDATE EXISTING TICKET** - If the reply is about an issue that likely has a ticket:
-   - Search for existing tickets using linear_search_issues
+   - Search for existing tickets using linear_find_similar_issues and linear_search_issues
    - If found, add a comment with linear_add_comment linking to this thread
    - Reply in Slack confirming you added to the existing ticket
 
@@ -282,7 +516,7 @@ Analyze the thread and the latest reply to decide what action to take:
 ## Search Strategy
 When searching for existing tickets:
 - Extract key concepts from the thread (what feature/issue is being discussed)
-- Use semantic synonyms in your search
+- Describe the issue to linear_find_similar_issues, and use semantic synonyms in linear_search_issues
 - Consider the full thread context, not just the latest reply
 
 ## Important
@@ -290,6 +524,9 @@ When searching for existing tickets:
 - The latest reply may be a follow-up to an earlier discussion
 - Don't create tickets for casual follow-ups like "thanks!" or "sounds good"
 - If someone mentions they already filed a ticket, skip
+
+## Reporting Your Decision
+After all other actions, call report_outcome exactly once with "created", "updated" (comment added to an existing ticket), or "skipped", passing the ticket ID when there is one.
 ${productLine}`;
 }
 
@@ -323,6 +560,7 @@ The SAME USER who originally reported this issue is providing additional context
    - Integrate the new information naturally into the existing description
    - If they provided screenshots, add them as markdown images in the description
    - Don't create a separate section - weave it into the narrative
+   - Keep the "### Slack reports" section exactly as it is; the bot maintains it
    - If they clarified impact and it changes priority, update that too
 5. Reply in Slack: "I've updated the description with this additional context."
 
@@ -409,9 +647,10 @@ Analyze replies in the thread and decide what action to take:
    - User provides detailed reproduction steps or a specific new use case that warrants tracking
 
 ## How to Detect Internal vs External Users
-Use slack_get_user_info to check the user's email:
-- Email ends with @${emailDomain} → Internal team member
-- Other emails → External user
+Use slack_get_user_info and check the user's affiliation:
+- "internal" → Internal team member
+- "external" → External user; the label names their organization (e.g. "External — Acme Corp"). Slack Connect users from other companies are external even when their email is hidden
+- "unknown" → go by the email: @${emailDomain} is internal, anything else external
 
 ## Important Behavior
 - **DON'T BE ROBOTIC**: If a team member just provides context, DO NOT reply at all
@@ -422,13 +661,47 @@ Use slack_get_user_info to check the user's email:
 ## When Creating a Ticket
 If someone explicitly requests a ticket:
 1. Gather the FULL context from the thread (original question + all discussion)
-2. Search for duplicates with linear_search_issues
+2. Search for duplicates with linear_find_similar_issues and linear_search_issues
 3. Create the ticket with linear_create_issue
 4. Reply in Slack confirming the ticket was created
 
 ## Response Format
-- If NO_ACTION: respond with exactly "NO_ACTION" and nothing else
-- If creating a ticket: use the tools, then confirm briefly in Slack`;
+- If NO_ACTION: don't reply in Slack; call report_outcome with "no_action"
+- If creating a ticket: use the tools, confirm briefly in Slack, then call report_outcome with "created" and the ticket ID`;
+}
+
+export function buildInfoFollowupPrompt(cfg: TriageConfig): string {
+  const titleNote = cfg.issueTemplate.titlePrefix
+    ? `Provide the title WITHOUT the "${cfg.issueTemplate.titlePrefix}" prefix (it's added automatically). Keep titles concise (max 80 chars).`
+    : "Keep titles concise (max 80 chars).";
+
+  const descriptionNote = cfg.issueTemplate.descriptionTemplate
+    ? `Follow this template for the description:\n\n${cfg.issueTemplate.descriptionTemplate}`
+    : `In the description, include a summary plus **Steps to reproduce**, **Environment** and **Expected vs. actual** from the answers, and the Slack link.`;
+
+  return `You are a follow-up agent for ${cfg.productName} product feedback.
+
+The triage bot got a bug report that was too vague to act on, so instead of creating a ticket it asked the reporter for details (steps to reproduce, environment, expected vs. actual behavior). Now the reporter has answered, or nobody answered in time.
+
+## Your Task
+File the report now, using the original message and everything the thread added:
+1. Get the reporter's info with slack_get_user_info
+2. Search for duplicates with linear_find_similar_issues and linear_search_issues - the answers may reveal a match
+3. If it's a duplicate: add a comment with linear_add_comment containing the report and the answers
+4. Otherwise create the ticket with linear_create_issue
+   - ${titleNote}
+   - ${descriptionNote}
+   - If details are still missing (for example nobody answered), say which ones in the description
+   - Priority: 1=Urgent (blocking, data loss, security), 2=High (core workflow broken), 3=Normal (most bugs), 4=Low (minor)
+5. Reply with slack_reply_in_thread: thank the reporter and say whether you CREATED a ticket or ADDED A COMMENT, with the link
+
+Don't ask further questions - this is the moment to file it.
+
+## Slack Formatting
+Use Slack's native formatting - NOT Markdown: *bold*, _italic_, \`code\`.
+
+## Reporting Your Decision
+After all other actions, call report_outcome exactly once with "created" or "duplicate" and the ticket ID.`;
 }
 
 export function buildEditHandlerPrompt(cfg: TriageConfig): string {
@@ -449,7 +722,7 @@ A user has edited their Slack message after you already triaged it and created/l
 **For SIGNIFICANT changes (new information, clarifications, changed context):**
 - If this was a NEW ticket (action: "created"):
   - Update the description using linear_update_issue
-  - Integrate the edit naturally into the existing description
+  - Integrate the edit naturally into the existing description, keeping the "### Slack reports" section as it is
   - Update priority if the edit reveals different severity
 - If this was a DUPLICATE ticket (action: "duplicate"):
   - Add a comment using linear_add_comment
@@ -524,6 +797,48 @@ const config: TriageConfig = {
   internalEmailDomain: "", // e.g., "mycompany.com" - used to detect internal vs external users
 
   model: "sonnet",
+
+  maxConcurrentRuns: 3,
+
+  commentSyncMarker: "/slack",
+
+  clarificationTimeoutHours: 24,
+
+  reactionTriggers: {
+    ticket: "create_ticket",
+    rotating_light: "urgent",
+    no_entry_sign: "undo",
+  },
+
+  approval: {
+    enabled: false,
+    reviewChannelId: "", // e.g., "C0123456789" - empty posts drafts in the reporter's thread
+    expiresAfterHours: 72,
+  },
+
+  directMessages: {
+    enabled: false,
+    confidentialLabelId: "", // e.g., the UUID of a "Confidential" label
+    linear: { teamId: "", projectId: "" }, // e.g., a private team - empty uses the first channel's
+  },
+
+  reportTracking: {
+    enabled: true,
+    escalation: [
+      { reporters: 5, priority: 2 },  // High
+      { reporters: 10, priority: 1 }, // Urgent
+    ],
+  },
+
+  customerRequests: {
+    enabled: false, // needs Linear's Customers feature
+    createCustomers: true,
+    ignoredDomains: ["gmail.com", "googlemail.com", "outlook.com", "hotmail.com", "live.com", "yahoo.com", "icloud.com", "me.com", "proton.me", "protonmail.com"],
+  },
+
+  priorityRules: [], // e.g., [{ affiliation: "external", orgs: ["Acme Corp"], atLeast: 2 }, { affiliation: "internal", atMost: 3 }]
+
+  channels: [], // e.g., [{ channelId: "C0123", channelName: "mobile-feedback", linear: { teamId: "...", projectId: "..." }, issueTemplate: { titlePrefix: "Mobile - " } }]
 };
 
 export default config;
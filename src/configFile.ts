@@ -0,0 +1,216 @@
+/**
+ * configFile.ts — Load TriageConfig from an external YAML or JSON file.
+ *
+ * Set TRIAGE_CONFIG_PATH to a .yaml/.yml/.json file to customize the agent without
+ * editing `config.ts`. Fields left out of the file fall back to the in-code defaults.
+ * The file is validated with zod and can be watched for changes so prompts are rebuilt
+ * without restarting the Slack connection.
+ */
+
+import { readFileSync, unwatchFile, watchFile } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import type { TriageConfig } from "./config.js";
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+const nonEmpty = (field: string) => z.string().trim().min(1, `${field} is required and cannot be empty`);
+const linearUuid = (what: string) => z.string().uuid(`must be a Linear ${what} UUID (e.g. "9cfb482a-81e3-4154-b5b9-2c805e70a02d")`);
+const optionalUuid = (what: string) => z.union([z.literal(""), linearUuid(what)]);
+const priorityLevel = z.number().int().min(1, "must be 1 (Urgent) to 4 (Low)").max(4, "must be 1 (Urgent) to 4 (Low)");
+
+const issueTemplateSchema = z.object({
+  titlePrefix: z.string(),
+  labelIds: z.array(linearUuid("label")),
+  stateId: z.union([z.literal(""), linearUuid("workflow state")]),
+  descriptionTemplate: z.string(),
+});
+
+const triageRulesSchema = z.object({
+  createFor: z.array(z.string()),
+  skipFor: z.array(z.string()),
+  deferFor: z.array(z.string()),
+});
+
+const approvalSchema = z.object({
+  enabled: z.boolean(),
+  reviewChannelId: z.union([z.literal(""), z.string().regex(/^[CG][A-Z0-9]+$/, 'must be a Slack channel ID (e.g. "C0123456789")')]),
+  expiresAfterHours: z.number().positive("must be more than 0"),
+});
+
+const directMessagesSchema = z.object({
+  enabled: z.boolean(),
+  confidentialLabelId: optionalUuid("label"),
+  linear: z.object({
+    teamId: optionalUuid("team"),
+    projectId: optionalUuid("project"),
+  }),
+});
+
+const reportTrackingSchema = z.object({
+  enabled: z.boolean(),
+  escalation: z.array(z.object({
+    reporters: z.number().int().min(2, "must be at least 2"),
+    priority: priorityLevel,
+  })),
+});
+
+const customerRequestsSchema = z.object({
+  enabled: z.boolean(),
+  createCustomers: z.boolean(),
+  ignoredDomains: z.array(z.string().trim().toLowerCase().min(1, "cannot be empty")),
+});
+
+const priorityRuleSchema = z.object({
+  affiliation: z.enum(["internal", "external"], {
+    errorMap: () => ({ message: 'must be "internal" or "external"' }),
+  }),
+  orgs: z.array(nonEmpty("org")).optional(),
+  atLeast: priorityLevel.optional(),
+  atMost: priorityLevel.optional(),
+}).strict()
+  .refine((rule) => rule.atLeast !== undefined || rule.atMost !== undefined, "set atLeast, atMost or both")
+  .refine((rule) => rule.atLeast === undefined || rule.atMost === undefined || rule.atLeast <= rule.atMost, {
+    message: "atLeast can't be less urgent than atMost (1 = Urgent, 4 = Low)",
+    path: ["atLeast"],
+  });
+
+const channelRouteSchema = z.object({
+  channelId: z.string().regex(/^[CG][A-Z0-9]+$/, 'must be a Slack channel ID (e.g. "C0123456789")'),
+  channelName: nonEmpty("channelName"),
+  linear: z.object({
+    teamId: linearUuid("team"),
+    projectId: linearUuid("project"),
+  }),
+  issueTemplate: issueTemplateSchema.partial().optional(),
+  triageRules: triageRulesSchema.partial().optional(),
+  productContext: z.string().optional(),
+});
+
+const triageConfigSchema = z.object({
+  productName: nonEmpty("productName"),
+  productShortName: nonEmpty("productShortName"),
+  productDescription: nonEmpty("productDescription"),
+  slackChannelName: nonEmpty("slackChannelName"),
+  linearOrganization: nonEmpty("linearOrganization"),
+  issueTemplate: issueTemplateSchema,
+  triageRules: triageRulesSchema,
+  productContext: z.string(),
+  internalEmailDomain: z.string(),
+  model: z.enum(["sonnet", "opus", "haiku"], {
+    errorMap: () => ({ message: 'must be one of "sonnet", "opus" or "haiku"' }),
+  }),
+  maxConcurrentRuns: z.number().int().min(1, "must be at least 1"),
+  commentSyncMarker: z.string(),
+  clarificationTimeoutHours: z.number().positive("must be more than 0"),
+  reactionTriggers: z.record(z.enum(["create_ticket", "urgent", "undo"], {
+    errorMap: () => ({ message: 'must be one of "create_ticket", "urgent" or "undo"' }),
+  })),
+  approval: approvalSchema,
+  directMessages: directMessagesSchema,
+  reportTracking: reportTrackingSchema,
+  customerRequests: customerRequestsSchema,
+  priorityRules: z.array(priorityRuleSchema),
+  channels: z.array(channelRouteSchema),
+}).strict();
+
+// DM tickets have to end up somewhere private
+const validConfigSchema = triageConfigSchema.superRefine((cfg, ctx) => {
+  const dm = cfg.directMessages;
+  if (dm.enabled && !dm.confidentialLabelId && !dm.linear.teamId) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["directMessages"],
+      message: "set confidentialLabelId or linear.teamId so tickets from DMs are kept private",
+    });
+  }
+});
+
+// The file may contain any subset of the config; nested objects are merged field by field
+// (reactionTriggers is a lookup table and replaces the default one as a whole)
+const configFileSchema = triageConfigSchema.extend({
+  issueTemplate: issueTemplateSchema.partial(),
+  triageRules: triageRulesSchema.partial(),
+  approval: approvalSchema.partial(),
+  directMessages: directMessagesSchema.partial(),
+  reportTracking: reportTrackingSchema.partial(),
+  customerRequests: customerRequestsSchema.partial(),
+}).partial().strict();
+
+function configFileError(path: string, details: string[]): Error {
+  return new Error(`Invalid config file ${path}:\n${details.map((d) => `  - ${d}`).join("\n")}`);
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+    return `${path}: ${issue.message}`;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+function readConfigFile(path: string): unknown {
+  const raw = readFileSync(path, "utf8");
+  const ext = extname(path).toLowerCase();
+  try {
+    if (ext === ".json") return JSON.parse(raw);
+    if (ext === ".yaml" || ext === ".yml") return parseYaml(raw) ?? {};
+  } catch (e) {
+    throw configFileError(path, [`could not parse file: ${e instanceof Error ? e.message : e}`]);
+  }
+  throw configFileError(path, [`unsupported extension "${ext}" (use .yaml, .yml or .json)`]);
+}
+
+/** Read and validate a config file, merged on top of `defaults`. Throws with every validation problem listed. */
+export function loadConfigFile(path: string, defaults: TriageConfig): TriageConfig {
+  const fileResult = configFileSchema.safeParse(readConfigFile(path));
+  if (!fileResult.success) {
+    throw configFileError(path, formatIssues(fileResult.error));
+  }
+
+  const file = fileResult.data;
+  const merged = {
+    ...defaults,
+    ...file,
+    issueTemplate: { ...defaults.issueTemplate, ...file.issueTemplate },
+    triageRules: { ...defaults.triageRules, ...file.triageRules },
+    approval: { ...defaults.approval, ...file.approval },
+    directMessages: { ...defaults.directMessages, ...file.directMessages },
+    reportTracking: { ...defaults.reportTracking, ...file.reportTracking },
+    customerRequests: { ...defaults.customerRequests, ...file.customerRequests },
+  };
+
+  const result = validConfigSchema.safeParse(merged);
+  if (!result.success) {
+    throw configFileError(path, formatIssues(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * Reload the config whenever the file changes. Invalid edits are logged and ignored, so the
+ * agent keeps running with the last good config. Returns a function that stops watching.
+ */
+export function watchConfigFile(
+  path: string,
+  defaults: TriageConfig,
+  onChange: (cfg: TriageConfig) => void
+): () => void {
+  const listener = (curr: { mtimeMs: number }, prev: { mtimeMs: number }) => {
+    if (curr.mtimeMs === prev.mtimeMs) return;
+    try {
+      onChange(loadConfigFile(path, defaults));
+      console.log(`[Config] Reloaded ${path}`);
+    } catch (error) {
+      console.error(`[Config] Keeping previous config:`, error instanceof Error ? error.message : error);
+    }
+  };
+  watchFile(path, { interval: 2000 }, listener);
+  return () => unwatchFile(path, listener);
+}
@@ -0,0 +1,225 @@
+/**
+ * customers.ts — Linear customer requests for reports from people outside the company.
+ *
+ * Linear keeps track of which customers asked for what: a customer (a company, matched by its
+ * email domains) has requests, each pointing at an issue and at where the request came from.
+ * When an external reporter's report is filed or linked, the bot finds their company among
+ * the Linear customers (by email domain, or by Slack Connect workspace), creates it when it
+ * isn't there yet, attaches the Slack message to the issue and adds a request that points at
+ * both. That keeps Linear's customer views in step with what is reported in Slack.
+ *
+ * The SDK has no customer methods yet, so everything here goes through raw GraphQL.
+ */
+
+import type { LinearClient } from "@linear/sdk";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The company an external reporter belongs to, as far as Slack tells us. */
+export interface ReporterOrg {
+  /** Shown as the customer name when one is created: the Slack Connect workspace name, or the email domain. */
+  name: string;
+  /** Email domain, e.g. "acme.com". Left out for webmail addresses, which don't identify a company. */
+  domain?: string;
+  /** Slack team ID of a Slack Connect workspace, stored on the customer as the external ID "slack:T…". */
+  slackTeamId?: string;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  /** True when the customer didn't exist and was created for this report. */
+  created: boolean;
+}
+
+/** The Slack message a request came from. */
+export interface RequestSource {
+  issueId: string;
+  /** Slack permalink of the message. */
+  url: string;
+  /** Attachment title, e.g. "Slack message from Alice Example". */
+  title: string;
+  /** Attachment subtitle, e.g. "#mobile-feedback". */
+  subtitle?: string;
+  /** The request as the customer put it; shown in Linear's customer views. */
+  body: string;
+}
+
+export interface CustomerRequest {
+  needId: string;
+  attachmentId: string;
+  /** False when the issue already had an attachment for the message, which undo then leaves in place. */
+  createdAttachment: boolean;
+}
+
+export interface CustomerRequests {
+  /** The customer for an org, created when missing and `create` is set. Null when there's nothing to match on or no match. */
+  resolveCustomer(org: ReporterOrg, options: { create: boolean }): Promise<Customer | null>;
+  /** Attach the Slack message to the issue and add it to the customer's requests. */
+  addRequest(customer: Customer, source: RequestSource): Promise<CustomerRequest>;
+  /** Take a request back out (undo), and the attachment it pointed at if adding the request created it. */
+  removeRequest(request: Pick<CustomerRequest, "needId" | "attachmentId"> & { createdAttachment?: boolean }): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// GraphQL
+// ---------------------------------------------------------------------------
+
+const FIND_CUSTOMER_QUERY = `
+  query FindCustomer($filter: CustomerFilter) {
+    customers(filter: $filter, first: 1) {
+      nodes { id name }
+    }
+  }
+`;
+
+const CREATE_CUSTOMER_MUTATION = `
+  mutation CreateCustomer($input: CustomerCreateInput!) {
+    customerCreate(input: $input) {
+      success
+      customer { id name }
+    }
+  }
+`;
+
+const FIND_ATTACHMENT_QUERY = `
+  query FindRequestAttachment($issueId: String!, $filter: AttachmentFilter) {
+    issue(id: $issueId) {
+      attachments(filter: $filter, first: 1) { nodes { id } }
+    }
+  }
+`;
+
+const CREATE_ATTACHMENT_MUTATION = `
+  mutation CreateRequestAttachment($input: AttachmentCreateInput!) {
+    attachmentCreate(input: $input) {
+      success
+      attachment { id }
+    }
+  }
+`;
+
+const CREATE_NEED_MUTATION = `
+  mutation CreateCustomerNeed($input: CustomerNeedCreateInput!) {
+    customerNeedCreate(input: $input) {
+      success
+      need { id }
+    }
+  }
+`;
+
+const DELETE_NEED_MUTATION = `
+  mutation DeleteCustomerNeed($id: String!) {
+    customerNeedDelete(id: $id) { success }
+  }
+`;
+
+const DELETE_ATTACHMENT_MUTATION = `
+  mutation DeleteRequestAttachment($id: String!) {
+    attachmentDelete(id: $id) { success }
+  }
+`;
+
+interface FindCustomerData { customers: { nodes: Array<{ id: string; name: string }> } }
+interface CreateCustomerData { customerCreate: { success: boolean; customer?: { id: string; name: string } | null } }
+interface FindAttachmentData { issue: { attachments: { nodes: Array<{ id: string }> } } }
+interface CreateAttachmentData { attachmentCreate: { success: boolean; attachment?: { id: string } | null } }
+interface CreateNeedData { customerNeedCreate: { success: boolean; need?: { id: string } | null } }
+
+// ---------------------------------------------------------------------------
+// Customer Requests
+// ---------------------------------------------------------------------------
+
+const slackExternalId = (teamId: string) => `slack:${teamId}`;
+
+export function createCustomerRequests(client: LinearClient): CustomerRequests {
+  // Customers found or created so far, by domain and by Slack team, so each company is looked up once
+  const known = new Map<string, { id: string; name: string }>();
+  const keysFor = (org: ReporterOrg) => [
+    ...(org.domain ? [`domain:${org.domain}`] : []),
+    ...(org.slackTeamId ? [slackExternalId(org.slackTeamId)] : []),
+  ];
+
+  const request = async <Data>(query: string, variables: Record<string, unknown>): Promise<Data> => {
+    const { data } = await client.client.rawRequest<Data, Record<string, unknown>>(query, variables);
+    if (!data) throw new Error("Linear returned no data");
+    return data;
+  };
+
+  async function findCustomer(org: ReporterOrg): Promise<{ id: string; name: string } | undefined> {
+    // Never by name: two companies can share a workspace name, and their requests would mix
+    const conditions = [
+      ...(org.domain ? [{ domains: { some: [{ eq: org.domain }] } }] : []),
+      ...(org.slackTeamId ? [{ externalIds: { some: [{ eq: slackExternalId(org.slackTeamId) }] } }] : []),
+    ];
+    const data = await request<FindCustomerData>(FIND_CUSTOMER_QUERY, { filter: { or: conditions } });
+    return data.customers.nodes[0];
+  }
+
+  return {
+    async resolveCustomer(org, { create }) {
+      const keys = keysFor(org);
+      if (keys.length === 0) return null;
+      const cached = keys.map((k) => known.get(k)).find(Boolean);
+      if (cached) return { ...cached, created: false };
+
+      let customer = await findCustomer(org);
+      let created = false;
+      if (!customer && create) {
+        const data = await request<CreateCustomerData>(CREATE_CUSTOMER_MUTATION, {
+          input: {
+            name: org.name,
+            ...(org.domain && { domains: [org.domain] }),
+            ...(org.slackTeamId && { externalIds: [slackExternalId(org.slackTeamId)] }),
+          },
+        });
+        customer = data.customerCreate.customer ?? undefined;
+        created = !!customer;
+      }
+      if (!customer) return null;
+      for (const key of keys) known.set(key, customer);
+      return { ...customer, created };
+    },
+
+    async addRequest(customer, source) {
+      // Linear keeps one attachment per URL on an issue, and it may back another customer's
+      // request or have been added by hand, so an existing one is reused and never deleted on undo
+      const existing = await request<FindAttachmentData>(FIND_ATTACHMENT_QUERY, {
+        issueId: source.issueId,
+        filter: { url: { eq: source.url } },
+      });
+      let attachmentId: string | undefined = existing.issue.attachments.nodes[0]?.id;
+      const createdAttachment = !attachmentId;
+      if (!attachmentId) {
+        const attachment = await request<CreateAttachmentData>(CREATE_ATTACHMENT_MUTATION, {
+          input: { issueId: source.issueId, url: source.url, title: source.title, ...(source.subtitle && { subtitle: source.subtitle }) },
+        });
+        attachmentId = attachment.attachmentCreate.attachment?.id;
+        if (!attachmentId) throw new Error("Linear did not create the Slack attachment");
+      }
+
+      try {
+        const need = await request<CreateNeedData>(CREATE_NEED_MUTATION, {
+          input: { customerId: customer.id, issueId: source.issueId, attachmentId, body: source.body },
+        });
+        const needId = need.customerNeedCreate.need?.id;
+        if (!needId) throw new Error(`Linear did not add the request to ${customer.name}`);
+        return { needId, attachmentId, createdAttachment };
+      } catch (error) {
+        // Nothing is logged for undo yet, so an attachment made for this request goes now
+        if (createdAttachment) {
+          await request(DELETE_ATTACHMENT_MUTATION, { id: attachmentId }).catch((e) =>
+            console.error(`[Customers] Could not remove attachment ${attachmentId} after the request failed:`, e));
+        }
+        throw error;
+      }
+    },
+
+    async removeRequest({ needId, attachmentId, createdAttachment }) {
+      await request(DELETE_NEED_MUTATION, { id: needId });
+      if (createdAttachment) await request(DELETE_ATTACHMENT_MUTATION, { id: attachmentId });
+    },
+  };
+}
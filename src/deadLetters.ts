@@ -0,0 +1,57 @@
+/**
+ * deadLetters.ts — Inspect and requeue queue items that failed for good.
+ *
+ * Usage: npm run dead-letters -- [list | replay <id|all> | drop <id|all>]
+ *
+ * Works on the SQLite database the agent uses (TRACKING_DB_PATH). Replayed items go back on
+ * the queue; a running agent picks them up within 30 seconds, otherwise on its next start.
+ */
+
+import "dotenv/config";
+import { existsSync } from "node:fs";
+import { createSqliteQueueStore, describeDeadLetter } from "./queueStore.js";
+
+function main(): void {
+  const [command = "list", target] = process.argv.slice(2);
+  const dbPath = process.env.TRACKING_DB_PATH ?? "./data/triage.db";
+
+  if (process.env.TRACKING_STORE === "memory") {
+    console.error("TRACKING_STORE=memory keeps the queue inside the running process - use the @mention command instead");
+    process.exit(1);
+  }
+  if (!existsSync(dbPath)) {
+    console.error(`No database at ${dbPath} (set TRACKING_DB_PATH)`);
+    process.exit(1);
+  }
+
+  const queue = createSqliteQueueStore(dbPath);
+  try {
+    const letters = queue.deadLetters();
+
+    if (command === "list") {
+      if (letters.length === 0) console.log("No dead letters.");
+      for (const letter of letters) console.log(describeDeadLetter(letter));
+      return;
+    }
+
+    if ((command !== "replay" && command !== "drop") || !target || !/^(\d+|all)$/.test(target)) {
+      console.error("Usage: npm run dead-letters -- [list | replay <id|all> | drop <id|all>]");
+      process.exitCode = 1;
+      return;
+    }
+
+    const ids = target === "all" ? letters.map((l) => l.id) : [Number(target)];
+    for (const id of ids) {
+      if (command === "replay") {
+        const job = queue.revive(id);
+        console.log(job ? `Requeued #${id} as job #${job.id}` : `No dead letter #${id}`);
+      } else {
+        console.log(queue.discard(id) ? `Dropped #${id}` : `No dead letter #${id}`);
+      }
+    }
+  } finally {
+    queue.close();
+  }
+}
+
+main();
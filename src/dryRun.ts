@@ -0,0 +1,70 @@
+/**
+ * dryRun.ts — Shadow mode that records decisions instead of writing to Slack or Linear.
+ *
+ * With DRY_RUN=true every write tool is replaced by a recording stub. Each intended write
+ * (and each reported outcome) is appended as one JSON line to the decision log, together
+ * with the Slack message that triggered it. Read tools stay live so duplicate searches
+ * behave exactly as they would in production.
+ */
+
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { AnyZodRawShape, InferShape, SdkMcpToolDefinition } from "@anthropic-ai/claude-agent-sdk";
+
+export function isDryRun(): boolean {
+  return process.env.DRY_RUN === "true" || process.env.DRY_RUN === "1";
+}
+
+function decisionLogPath(): string {
+  return process.env.DECISION_LOG_PATH ?? "./data/decisions.jsonl";
+}
+
+/** The Slack message an agent run is handling. */
+export interface DecisionMessage {
+  kind: string;
+  channel?: string;
+  userId?: string;
+  text?: string;
+  threadTs?: string;
+  messageTs?: string;
+}
+
+export interface DecisionEntry {
+  timestamp: string;
+  message: DecisionMessage | null;
+  /** Tool (or pipeline step) that would have run, e.g. "linear_create_issue". */
+  action: string;
+  payload: unknown;
+}
+
+export function recordDecision(message: DecisionMessage | null, action: string, payload: unknown): void {
+  const entry: DecisionEntry = { timestamp: new Date().toISOString(), message, action, payload };
+  const path = decisionLogPath();
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    appendFileSync(path, JSON.stringify(entry) + "\n");
+  } catch (e) {
+    console.error(`[Dry Run] Could not write decision log ${path}:`, e);
+  }
+  console.log(`[Dry Run] Recorded ${action}`);
+}
+
+/**
+ * Replace a write tool with a stub that has the same name and schema but only records the
+ * call. `fakeResult` supplies the JSON returned to the agent so it can carry on as if the
+ * write succeeded (e.g. a placeholder issue for linear_create_issue).
+ */
+export function recordingStub<Schema extends AnyZodRawShape>(
+  def: SdkMcpToolDefinition<Schema>,
+  getMessage: () => DecisionMessage | null,
+  fakeResult?: (args: InferShape<Schema>) => Record<string, unknown>
+): SdkMcpToolDefinition<Schema> {
+  return {
+    ...def,
+    handler: async (args) => {
+      recordDecision(getMessage(), def.name, args);
+      const result = fakeResult ? fakeResult(args) : { success: true };
+      return { content: [{ type: "text" as const, text: JSON.stringify({ ...result, dryRun: true }) }] };
+    },
+  };
+}
@@ -0,0 +1,379 @@
+/**
+ * eval.ts — Score triage decisions against a labeled golden set.
+ *
+ * Usage: npm run eval -- <dataset.yaml> [--config a.yaml [--config b.yaml]] [--channel C0123]
+ *                        [--out report.json] [--baseline report.json] [--min-accuracy 0.9] [--verbose]
+ *
+ * Each case is run through `triageMessage` (or `triageOrphanThreadReply` when it has thread
+ * context) in dry-run mode, so nothing is written anywhere. Searches go to an in-process fake
+ * Linear seeded with the dataset's `issues`, which keeps duplicate decisions reproducible.
+ * The report shows action accuracy, a confusion matrix and a diff for every failing case.
+ *
+ * Pass `--config` twice to compare two config files side by side, or save a run with `--out`
+ * and pass it as `--baseline` after changing a prompt in config.ts.
+ */
+
+import "dotenv/config";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, extname, resolve } from "node:path";
+import { LinearClient } from "@linear/sdk";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import type * as Agent from "./agent.js";
+import appConfig, { type ChannelRoute, type TriageConfig } from "./config.js";
+import { loadConfigFile } from "./configFile.js";
+import { createFakeLinearServer } from "./fakeLinearServer.js";
+import { createFakeSlack } from "./fakes.js";
+
+// Every write tool becomes a recording stub; must be set before agent.ts is loaded
+process.env.DRY_RUN = "true";
+process.env.DECISION_LOG_PATH ??= "./data/eval-decisions.jsonl";
+
+const EVAL_CHANNEL_ID = "C0EVAL";
+const EVAL_PROJECT_ID = "eval-project";
+
+// ---------------------------------------------------------------------------
+// Dataset
+// ---------------------------------------------------------------------------
+
+const ACTIONS = ["create", "duplicate", "skip", "defer"] as const;
+type EvalAction = typeof ACTIONS[number];
+type ActualAction = EvalAction | "error";
+
+const issueSeedSchema = z.object({
+  identifier: z.string().regex(/^[A-Z]+-\d+$/, 'must look like "FAKE-12"').optional(),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  priority: z.number().int().min(0).max(4).optional(),
+  state: z.string().optional(),
+}).strict();
+
+const caseSchema = z.object({
+  id: z.string().trim().min(1, "id is required"),
+  message: z.string(),
+  userId: z.string().default("U0EVAL"),
+  /** Earlier messages in the thread; makes this an orphan thread reply */
+  threadContext: z.union([z.string(), z.array(z.string())]).optional(),
+  /** Image files, relative to the dataset */
+  images: z.array(z.string()).default([]),
+  expected: z.object({
+    action: z.enum(ACTIONS),
+    priority: z.number().int().min(1).max(4).optional(),
+    duplicateOf: z.string().optional(),
+  }).strict(),
+}).strict().refine((c) => !(c.threadContext && c.expected.action === "defer"), {
+  message: "thread replies are never deferred (orphan triage creates, updates or skips)",
+  path: ["expected", "action"],
+});
+
+const datasetSchema = z.object({
+  /** Existing tickets the agent can find as duplicates */
+  issues: z.array(issueSeedSchema).default([]),
+  cases: z.array(caseSchema).min(1, "dataset has no cases"),
+}).strict();
+
+type EvalCase = z.infer<typeof caseSchema>;
+type Dataset = z.infer<typeof datasetSchema>;
+
+function loadDataset(path: string): Dataset {
+  const raw = readFileSync(path, "utf8");
+  const data = extname(path).toLowerCase() === ".json" ? JSON.parse(raw) : parseYaml(raw);
+  const result = datasetSchema.safeParse(data);
+  if (!result.success) {
+    const details = result.error.issues.map((i) => `  - ${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new Error(`Invalid dataset ${path}:\n${details.join("\n")}`);
+  }
+  const seen = new Set<string>();
+  for (const c of result.data.cases) {
+    if (seen.has(c.id)) throw new Error(`Invalid dataset ${path}: duplicate case id "${c.id}"`);
+    seen.add(c.id);
+  }
+  return result.data;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+// ---------------------------------------------------------------------------
+// Reports
+// ---------------------------------------------------------------------------
+
+interface CaseResult {
+  id: string;
+  expected: EvalCase["expected"];
+  actual: { action: ActualAction; priority?: number; ticket?: string };
+  pass: boolean;
+  diffs: string[];
+}
+
+interface Score {
+  correct: number;
+  total: number;
+}
+
+export interface VariantReport {
+  label: string;
+  action: Score;
+  priority: Score;
+  duplicateTarget: Score;
+  /** confusion[expected][actual] */
+  confusion: Record<EvalAction, Record<ActualAction, number>>;
+  cases: CaseResult[];
+}
+
+function scoreCase(c: EvalCase, actual: CaseResult["actual"]): CaseResult {
+  const diffs: string[] = [];
+  const { expected } = c;
+  if (actual.action !== expected.action) {
+    diffs.push(`action expected ${expected.action}, got ${actual.action}${actual.ticket ? ` (${actual.ticket})` : ""}`);
+  }
+  if (expected.priority !== undefined && actual.priority !== expected.priority) {
+    diffs.push(`priority expected ${expected.priority}, got ${actual.priority ?? "none"}`);
+  }
+  if (expected.duplicateOf && actual.ticket?.toUpperCase() !== expected.duplicateOf.toUpperCase()) {
+    diffs.push(`duplicate of expected ${expected.duplicateOf}, got ${actual.ticket ?? "none"}`);
+  }
+  return { id: c.id, expected, actual, pass: diffs.length === 0, diffs };
+}
+
+function summarize(label: string, cases: CaseResult[]): VariantReport {
+  const actual: ActualAction[] = [...ACTIONS, "error"];
+  const confusion = Object.fromEntries(
+    ACTIONS.map((e) => [e, Object.fromEntries(actual.map((a) => [a, 0]))])
+  ) as VariantReport["confusion"];
+  const score = (filter: (c: CaseResult) => boolean, ok: (c: CaseResult) => boolean): Score => {
+    const relevant = cases.filter(filter);
+    return { correct: relevant.filter(ok).length, total: relevant.length };
+  };
+
+  for (const c of cases) confusion[c.expected.action][c.actual.action]++;
+  return {
+    label,
+    action: score(() => true, (c) => c.actual.action === c.expected.action),
+    priority: score((c) => c.expected.priority !== undefined, (c) => c.actual.priority === c.expected.priority),
+    duplicateTarget: score(
+      (c) => !!c.expected.duplicateOf,
+      (c) => c.actual.ticket?.toUpperCase() === c.expected.duplicateOf!.toUpperCase()
+    ),
+    confusion,
+    cases,
+  };
+}
+
+const pct = (s: Score) => (s.total === 0 ? "n/a" : `${s.correct}/${s.total} (${((s.correct / s.total) * 100).toFixed(1)}%)`);
+
+function printReport(report: VariantReport): void {
+  const out: string[] = [];
+  out.push(`\n== ${report.label} (${report.cases.length} cases)`);
+  out.push(`Action accuracy:   ${pct(report.action)}`);
+  out.push(`Priority:          ${pct(report.priority)}`);
+  out.push(`Duplicate target:  ${pct(report.duplicateTarget)}`);
+  out.push(`Cases passing:     ${report.cases.filter((c) => c.pass).length}/${report.cases.length}`);
+
+  const columns: ActualAction[] = [...ACTIONS, "error"];
+  out.push("\nConfusion matrix (rows = expected, columns = actual):");
+  out.push(["".padEnd(11), ...columns.map((c) => c.padStart(10))].join(""));
+  for (const expected of ACTIONS) {
+    out.push([expected.padEnd(11), ...columns.map((a) => String(report.confusion[expected][a]).padStart(10))].join(""));
+  }
+
+  const failures = report.cases.filter((c) => !c.pass);
+  if (failures.length > 0) {
+    out.push("\nFailing cases:");
+    for (const c of failures) out.push(`  ${c.id}: ${c.diffs.join("; ")}`);
+  }
+  process.stdout.write(out.join("\n") + "\n");
+}
+
+function printComparison(base: VariantReport, other: VariantReport): void {
+  const out: string[] = [`\n== ${base.label} → ${other.label}`];
+  out.push(`Action accuracy: ${pct(base.action)} → ${pct(other.action)}`);
+  const baseCases = new Map(base.cases.map((c) => [c.id, c]));
+  const changed = other.cases.filter((c) => {
+    const before = baseCases.get(c.id);
+    return before && (before.pass !== c.pass || before.actual.action !== c.actual.action);
+  });
+  if (changed.length === 0) {
+    out.push("No case changed.");
+  }
+  for (const c of changed) {
+    const before = baseCases.get(c.id)!;
+    const mark = c.pass && !before.pass ? "fixed" : !c.pass && before.pass ? "REGRESSED" : "changed";
+    out.push(`  ${mark.padEnd(9)} ${c.id}: ${before.actual.action} → ${c.actual.action}${c.diffs.length > 0 ? ` (${c.diffs.join("; ")})` : ""}`);
+  }
+  process.stdout.write(out.join("\n") + "\n");
+}
+
+// ---------------------------------------------------------------------------
+// Running
+// ---------------------------------------------------------------------------
+
+interface Variant {
+  label: string;
+  config: TriageConfig;
+}
+
+async function runVariant(
+  agent: typeof Agent,
+  variant: Variant,
+  dataset: Dataset,
+  datasetDir: string,
+  channelId: string | undefined
+): Promise<VariantReport> {
+  Object.assign(appConfig, variant.config);
+
+  // Fresh fake Linear per variant so every run sees the same tickets
+  const fake = createFakeLinearServer({
+    issues: dataset.issues.map((issue) => ({ ...issue, projectId: EVAL_PROJECT_ID })),
+  });
+  const apiUrl = await fake.listen(0, "127.0.0.1");
+  const linear = new LinearClient({ apiKey: "eval", apiUrl });
+  const slack = createFakeSlack({ botUserId: "U0EVALBOT", onCall: () => {} });
+
+  // Evaluate a configured channel's overrides when asked to, but always against the fake
+  const configured = variant.config.channels.find((c) => c.channelId === channelId);
+  if (channelId && !configured) throw new Error(`Channel ${channelId} is not in the "${variant.label}" config`);
+  const route: ChannelRoute = {
+    ...(configured ?? { channelId: EVAL_CHANNEL_ID, channelName: variant.config.slackChannelName }),
+    linear: { teamId: fake.state.teams[0].id, projectId: EVAL_PROJECT_ID },
+  };
+  agent.setDependencies({ client: slack.client } as unknown as Parameters<typeof agent.setDependencies>[0], linear, [route]);
+
+  const results: CaseResult[] = [];
+  try {
+    for (const [i, c] of dataset.cases.entries()) {
+      process.stderr.write(`[${variant.label}] ${i + 1}/${dataset.cases.length} ${c.id} ... `);
+      const actual = await runCase(agent, c, route.channelId, datasetDir);
+      const result = scoreCase(c, actual);
+      results.push(result);
+      process.stderr.write(result.pass ? "pass\n" : `FAIL (${result.diffs.join("; ")})\n`);
+    }
+  } finally {
+    await fake.close();
+  }
+  return summarize(variant.label, results);
+}
+
+async function runCase(agent: typeof Agent, c: EvalCase, channel: string, datasetDir: string): Promise<CaseResult["actual"]> {
+  const threadTs = "1700000000.000100";
+  const images = c.images.map((file) => {
+    const path = resolve(datasetDir, file);
+    return {
+      url: path,
+      base64: readFileSync(path).toString("base64"),
+      contentType: IMAGE_TYPES[extname(path).toLowerCase()] ?? "image/png",
+    };
+  });
+
+  if (c.threadContext !== undefined) {
+    const messageTs = "1700000100.000100";
+    const result = await agent.triageOrphanThreadReply({
+      replyText: c.message,
+      userId: c.userId,
+      channel,
+      threadTs,
+      messageTs,
+      slackMessageUrl: `https://slack.com/archives/${channel}/p${messageTs.replace(".", "")}?thread_ts=${threadTs}&cid=${channel}`,
+      threadContext: Array.isArray(c.threadContext) ? c.threadContext.join("\n") : c.threadContext,
+      imageUrls: images.map((img) => img.url),
+    });
+    const action = ({ created: "create", updated: "duplicate", skipped: "skip", error: "error" } as const)[result.action];
+    return { action, priority: result.priority, ticket: result.ticketIdentifier };
+  }
+
+  const result = await agent.triageMessage({
+    messageText: c.message,
+    userId: c.userId,
+    channel,
+    threadTs,
+    slackMessageUrl: `https://slack.com/archives/${channel}/p${threadTs.replace(".", "")}`,
+    images,
+  });
+  const action = ({ created: "create", duplicate: "duplicate", skipped: "skip", deferred: "defer", needs_info: "create", drafted: "create", error: "error" } as const)[result.action];
+  return { action, priority: result.priority, ticket: result.ticketIdentifier };
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+function parseArgs(argv: string[]) {
+  const options = { dataset: "", configs: [] as string[], channel: undefined as string | undefined, out: "", baseline: "", minAccuracy: NaN, verbose: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--config") options.configs.push(argv[++i]);
+    else if (arg === "--channel") options.channel = argv[++i];
+    else if (arg === "--out") options.out = argv[++i];
+    else if (arg === "--baseline") options.baseline = argv[++i];
+    else if (arg === "--min-accuracy") options.minAccuracy = Number(argv[++i]);
+    else if (arg === "--verbose") options.verbose = true;
+    else if (!arg.startsWith("--") && !options.dataset) options.dataset = arg;
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.dataset) {
+    console.error("Usage: npm run eval -- <dataset.yaml> [--config a.yaml [--config b.yaml]] [--channel C0123] [--out report.json] [--baseline report.json] [--min-accuracy 0.9] [--verbose]");
+    process.exit(1);
+  }
+  if (!process.env.ANTHROPIC_API_KEY) {
+    console.error("Missing required environment variable: ANTHROPIC_API_KEY");
+    process.exit(1);
+  }
+
+  const dataset = loadDataset(options.dataset);
+  const defaults = structuredClone(appConfig);
+  const configPaths = options.configs.length > 0
+    ? options.configs
+    : process.env.TRIAGE_CONFIG_PATH && existsSync(process.env.TRIAGE_CONFIG_PATH) ? [process.env.TRIAGE_CONFIG_PATH] : [];
+  const variants: Variant[] = configPaths.length > 0
+    ? configPaths.map((path) => ({ label: path, config: loadConfigFile(path, defaults) }))
+    : [{ label: "config.ts", config: defaults }];
+
+  const baseline: VariantReport[] = options.baseline ? JSON.parse(readFileSync(options.baseline, "utf8")) : [];
+
+  const agent: typeof Agent = await import("./agent.js");
+
+  // The agent logs every turn; keep the report readable unless asked for it
+  const log = console.log;
+  if (!options.verbose) console.log = () => {};
+  const reports: VariantReport[] = [];
+  try {
+    for (const variant of variants) {
+      reports.push(await runVariant(agent, variant, dataset, dirname(resolve(options.dataset)), options.channel));
+    }
+  } finally {
+    console.log = log;
+  }
+
+  for (const report of reports) printReport(report);
+  const [base, ...others] = [...baseline.slice(-1).map((b) => ({ ...b, label: `baseline ${b.label}` })), ...reports];
+  for (const other of others) printComparison(base, other);
+
+  if (options.out) {
+    mkdirSync(dirname(resolve(options.out)), { recursive: true });
+    writeFileSync(options.out, JSON.stringify(reports, null, 2));
+    process.stdout.write(`\nReport written to ${options.out}\n`);
+  }
+
+  if (!Number.isNaN(options.minAccuracy)) {
+    const below = reports.filter((r) => r.action.total > 0 && r.action.correct / r.action.total < options.minAccuracy);
+    if (below.length > 0) {
+      console.error(`Action accuracy below ${options.minAccuracy} for: ${below.map((r) => r.label).join(", ")}`);
+      process.exit(1);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,1050 @@
+/**
+ * fakeLinearServer.ts — A local stand-in for the Linear GraphQL API.
+ *
+ * Implements the subset of the API the agent's tools use: issue create/update/archive/query,
+ * the issues filter, team workflow states and labels, users, comments, issue relations,
+ * customers with their requests and attachments, and file uploads (with a local PUT target),
+ * plus the deletes `undo` uses to reverse them. Point the app at it with LINEAR_API_URL and any
+ * LINEAR_API_KEY:
+ *
+ *   npm run fake-linear                     # http://localhost:4010/graphql, state in memory
+ *   FAKE_LINEAR_STATE=./data/linear.json npm run fake-linear
+ *
+ * Queries are executed with graphql-js against a trimmed-down schema. Fields the schema does
+ * not know (the SDK asks for many) are simply left out of the response, and input objects are
+ * accepted as opaque JSON so the SDK's variable types don't all have to be modelled.
+ */
+
+import { randomUUID } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import { dirname } from "node:path";
+import { pathToFileURL } from "node:url";
+import { config as loadEnv } from "dotenv";
+import { buildSchema, execute, parse, type GraphQLError } from "graphql";
+import appConfig from "./config.js";
+import { loadConfigFile } from "./configFile.js";
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+const schema = buildSchema(`
+  scalar DateTime
+  scalar JSON
+
+  # Input objects are taken as plain JSON; the resolvers read the fields they support
+  scalar IssueFilter
+  scalar IssueSortInput
+  scalar IssueCreateInput
+  scalar IssueUpdateInput
+  scalar IssueLabelFilter
+  scalar WorkflowStateFilter
+  scalar UserFilter
+  scalar CommentFilter
+  scalar CommentCreateInput
+  scalar IssueRelationCreateInput
+  scalar CustomerFilter
+  scalar CustomerCreateInput
+  scalar CustomerNeedCreateInput
+  scalar AttachmentCreateInput
+  scalar AttachmentFilter
+
+  enum PaginationOrderBy { createdAt updatedAt }
+
+  type PageInfo {
+    startCursor: String
+    endCursor: String
+    hasPreviousPage: Boolean!
+    hasNextPage: Boolean!
+  }
+
+  type Team {
+    id: ID!
+    key: String!
+    name: String!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    states(after: String, before: String, filter: WorkflowStateFilter, first: Int, last: Int, includeArchived: Boolean, orderBy: PaginationOrderBy): WorkflowStateConnection!
+    labels(after: String, before: String, filter: IssueLabelFilter, first: Int, last: Int, includeArchived: Boolean, orderBy: PaginationOrderBy): IssueLabelConnection!
+  }
+
+  type WorkflowState {
+    id: ID!
+    name: String!
+    type: String!
+    color: String!
+    position: Float!
+    team: Team!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+  type WorkflowStateConnection { nodes: [WorkflowState!]! pageInfo: PageInfo! }
+
+  type IssueLabel {
+    id: ID!
+    name: String!
+    color: String!
+    team: Team
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+  type IssueLabelConnection { nodes: [IssueLabel!]! pageInfo: PageInfo! }
+
+  type User {
+    id: ID!
+    name: String!
+    displayName: String!
+    email: String!
+    active: Boolean!
+    admin: Boolean!
+    guest: Boolean!
+    isMe: Boolean!
+    url: String!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+  type UserConnection { nodes: [User!]! pageInfo: PageInfo! }
+
+  type Project { id: ID! name: String! }
+
+  # Always empty, but the SDK's Issue and Comment models require the list
+  type Reaction { id: ID! emoji: String! }
+
+  type Issue {
+    id: ID!
+    identifier: String!
+    number: Float!
+    title: String!
+    description: String
+    priority: Float!
+    priorityLabel: String!
+    url: String!
+    labelIds: [String!]!
+    previousIdentifiers: [String!]!
+    reactions: [Reaction!]!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    archivedAt: DateTime
+    completedAt: DateTime
+    canceledAt: DateTime
+    team: Team!
+    state: WorkflowState!
+    project: Project
+    assignee: User
+    creator: User
+    labels(after: String, before: String, filter: IssueLabelFilter, first: Int, last: Int, includeArchived: Boolean, orderBy: PaginationOrderBy): IssueLabelConnection!
+    comments(after: String, before: String, filter: CommentFilter, first: Int, last: Int, includeArchived: Boolean, orderBy: PaginationOrderBy): CommentConnection!
+    relations(after: String, before: String, first: Int, last: Int, includeArchived: Boolean, orderBy: PaginationOrderBy): IssueRelationConnection!
+    inverseRelations(after: String, before: String, first: Int, last: Int, includeArchived: Boolean, orderBy: PaginationOrderBy): IssueRelationConnection!
+    attachments(after: String, before: String, filter: AttachmentFilter, first: Int, last: Int, includeArchived: Boolean, orderBy: PaginationOrderBy): AttachmentConnection!
+  }
+  type IssueConnection { nodes: [Issue!]! pageInfo: PageInfo! }
+
+  type Comment {
+    id: ID!
+    body: String!
+    url: String!
+    reactions: [Reaction!]!
+    issue: Issue
+    user: User
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+  type CommentConnection { nodes: [Comment!]! pageInfo: PageInfo! }
+
+  type IssueRelation {
+    id: ID!
+    type: String!
+    issue: Issue!
+    relatedIssue: Issue!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+  type IssueRelationConnection { nodes: [IssueRelation!]! pageInfo: PageInfo! }
+
+  type Customer {
+    id: ID!
+    name: String!
+    domains: [String!]!
+    externalIds: [String!]!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+  type CustomerConnection { nodes: [Customer!]! pageInfo: PageInfo! }
+
+  type Attachment {
+    id: ID!
+    title: String!
+    subtitle: String
+    url: String!
+    issue: Issue!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+  type AttachmentConnection { nodes: [Attachment!]! pageInfo: PageInfo! }
+
+  type CustomerNeed {
+    id: ID!
+    body: String
+    customer: Customer
+    issue: Issue
+    attachment: Attachment
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type IssuePayload { success: Boolean! lastSyncId: Float! issue: Issue }
+  type CommentPayload { success: Boolean! lastSyncId: Float! comment: Comment! }
+  type IssueRelationPayload { success: Boolean! lastSyncId: Float! issueRelation: IssueRelation! }
+  type IssueArchivePayload { success: Boolean! lastSyncId: Float! entity: Issue }
+  type CustomerPayload { success: Boolean! lastSyncId: Float! customer: Customer! }
+  type CustomerNeedPayload { success: Boolean! lastSyncId: Float! need: CustomerNeed! }
+  type AttachmentPayload { success: Boolean! lastSyncId: Float! attachment: Attachment! }
+  type DeletePayload { success: Boolean! lastSyncId: Float! entityId: String! }
+
+  type UploadFileHeader { key: String! value: String! }
+  type UploadFile {
+    assetUrl: String!
+    uploadUrl: String!
+    contentType: String!
+    filename: String!
+    size: Int!
+    headers: [UploadFileHeader!]!
+    metaData: JSON
+  }
+  type UploadPayload { success: Boolean! lastSyncId: Float! uploadFile: UploadFile }
+
+  type Query {
+    viewer: User!
+    issue(id: String!): Issue!
+    issues(after: String, before: String, filter: IssueFilter, first: Int, last: Int, includeArchived: Boolean, orderBy: PaginationOrderBy, sort: [IssueSortInput!]): IssueConnection!
+    team(id: String!): Team!
+    workflowState(id: String!): WorkflowState!
+    issueLabel(id: String!): IssueLabel!
+    user(id: String!): User!
+    users(after: String, before: String, filter: UserFilter, first: Int, last: Int, includeArchived: Boolean, includeDisabled: Boolean, orderBy: PaginationOrderBy): UserConnection!
+    comment(id: String, hash: String, issueId: String): Comment!
+    customers(after: String, before: String, filter: CustomerFilter, first: Int, last: Int, includeArchived: Boolean, orderBy: PaginationOrderBy): CustomerConnection!
+  }
+
+  type Mutation {
+    issueCreate(input: IssueCreateInput!): IssuePayload!
+    issueUpdate(id: String!, input: IssueUpdateInput!): IssuePayload!
+    issueArchive(id: String!, trash: Boolean): IssueArchivePayload!
+    issueAddLabel(id: String!, labelId: String!): IssuePayload!
+    issueRemoveLabel(id: String!, labelId: String!): IssuePayload!
+    commentCreate(input: CommentCreateInput!): CommentPayload!
+    commentDelete(id: String!): DeletePayload!
+    issueRelationCreate(input: IssueRelationCreateInput!, overrideCreatedAt: DateTime): IssueRelationPayload!
+    issueRelationDelete(id: String!): DeletePayload!
+    customerCreate(input: CustomerCreateInput!): CustomerPayload!
+    customerNeedCreate(input: CustomerNeedCreateInput!): CustomerNeedPayload!
+    customerNeedDelete(id: String!): DeletePayload!
+    attachmentCreate(input: AttachmentCreateInput!): AttachmentPayload!
+    attachmentDelete(id: String!): DeletePayload!
+    fileUpload(contentType: String!, filename: String!, size: Int!, makePublic: Boolean, metaData: JSON): UploadPayload!
+  }
+`);
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+interface TeamRecord { id: string; key: string; name: string; createdAt: string }
+interface StateRecord { id: string; teamId: string; name: string; type: string; color: string; position: number; createdAt: string }
+interface LabelRecord { id: string; teamId: string; name: string; color: string; createdAt: string }
+interface UserRecord { id: string; name: string; email: string; createdAt: string }
+
+interface IssueRecord {
+  id: string;
+  teamId: string;
+  number: number;
+  identifier: string;
+  title: string;
+  description: string;
+  priority: number;
+  stateId: string;
+  labelIds: string[];
+  projectId?: string;
+  assigneeId?: string;
+  creatorId: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  canceledAt?: string;
+  archivedAt?: string;
+}
+
+interface CommentRecord { id: string; issueId: string; userId: string; body: string; createdAt: string }
+interface RelationRecord { id: string; issueId: string; relatedIssueId: string; type: string; createdAt: string }
+interface CustomerRecord { id: string; name: string; domains: string[]; externalIds: string[]; createdAt: string }
+interface AttachmentRecord { id: string; issueId: string; title: string; subtitle?: string; url: string; createdAt: string }
+interface CustomerNeedRecord { id: string; customerId: string; issueId?: string; attachmentId?: string; body?: string; createdAt: string }
+
+export interface FakeLinearState {
+  teams: TeamRecord[];
+  states: StateRecord[];
+  labels: LabelRecord[];
+  users: UserRecord[];
+  viewerId: string;
+  issues: IssueRecord[];
+  comments: CommentRecord[];
+  relations: RelationRecord[];
+  customers: CustomerRecord[];
+  customerNeeds: CustomerNeedRecord[];
+  attachments: AttachmentRecord[];
+  lastSyncId: number;
+}
+
+export interface FakeTeamSeed {
+  id?: string;
+  key: string;
+  name?: string;
+}
+
+/** An existing issue to start with, e.g. a known ticket the agent should find as a duplicate. */
+export interface FakeIssueSeed {
+  /** e.g. "FAKE-12"; the team is taken from the prefix. Numbered automatically when omitted. */
+  identifier?: string;
+  title: string;
+  description?: string;
+  priority?: number;
+  /** Workflow state name (default "Triage"). */
+  state?: string;
+  projectId?: string;
+}
+
+const DEFAULT_STATES = [
+  { name: "Triage", type: "triage", color: "#FC7840" },
+  { name: "Backlog", type: "backlog", color: "#bec2c8" },
+  { name: "Todo", type: "unstarted", color: "#e2e2e2" },
+  { name: "In Progress", type: "started", color: "#f2c94c" },
+  { name: "Done", type: "completed", color: "#5e6ad2" },
+  { name: "Canceled", type: "canceled", color: "#95a2b3" },
+];
+
+const DEFAULT_LABELS = [
+  { name: "Bug", color: "#eb5757" },
+  { name: "Feature", color: "#bb87fc" },
+  { name: "Improvement", color: "#4ea7fc" },
+];
+
+const PRIORITY_LABELS = ["No priority", "Urgent", "High", "Medium", "Low"];
+
+function seedTeam(state: FakeLinearState, seed: FakeTeamSeed): void {
+  const now = new Date().toISOString();
+  const team: TeamRecord = { id: seed.id ?? randomUUID(), key: seed.key, name: seed.name ?? seed.key, createdAt: now };
+  state.teams.push(team);
+  DEFAULT_STATES.forEach((s, position) => state.states.push({ id: randomUUID(), teamId: team.id, position, createdAt: now, ...s }));
+  DEFAULT_LABELS.forEach((l) => state.labels.push({ id: randomUUID(), teamId: team.id, createdAt: now, ...l }));
+}
+
+function seedIssue(state: FakeLinearState, seed: FakeIssueSeed): void {
+  const [key, number] = seed.identifier?.split("-") ?? [];
+  const team = state.teams.find((t) => t.key === key) ?? state.teams[0];
+  const issueNumber = number ? Number(number) : nextIssueNumber(state, team.id);
+  const workflowState = state.states.find((s) => s.teamId === team.id && s.name.toLowerCase() === (seed.state ?? "triage").toLowerCase());
+  if (!workflowState) throw new Error(`Unknown workflow state "${seed.state}" for seeded issue ${seed.identifier ?? seed.title}`);
+  const now = new Date().toISOString();
+  state.issues.push({
+    id: randomUUID(),
+    teamId: team.id,
+    number: issueNumber,
+    identifier: `${team.key}-${issueNumber}`,
+    title: seed.title,
+    description: seed.description ?? "",
+    priority: seed.priority ?? 0,
+    stateId: workflowState.id,
+    labelIds: [],
+    projectId: seed.projectId,
+    creatorId: state.viewerId,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: workflowState.type === "completed" ? now : undefined,
+    canceledAt: workflowState.type === "canceled" ? now : undefined,
+  });
+}
+
+function nextIssueNumber(state: FakeLinearState, teamId: string): number {
+  return Math.max(0, ...state.issues.filter((i) => i.teamId === teamId).map((i) => i.number)) + 1;
+}
+
+export function createInitialState(teams: FakeTeamSeed[], issues: FakeIssueSeed[] = []): FakeLinearState {
+  const now = new Date().toISOString();
+  const viewer: UserRecord = { id: randomUUID(), name: "Triage Bot", email: "triage-bot@example.com", createdAt: now };
+  const state: FakeLinearState = {
+    teams: [],
+    states: [],
+    labels: [],
+    users: [
+      viewer,
+      { id: randomUUID(), name: "Alice Example", email: "alice@example.com", createdAt: now },
+      { id: randomUUID(), name: "Bob Example", email: "bob@example.com", createdAt: now },
+    ],
+    viewerId: viewer.id,
+    issues: [],
+    comments: [],
+    relations: [],
+    customers: [],
+    customerNeeds: [],
+    attachments: [],
+    lastSyncId: 0,
+  };
+  for (const team of teams.length > 0 ? teams : [{ key: "FAKE" }]) seedTeam(state, team);
+  for (const issue of issues) seedIssue(state, issue);
+  return state;
+}
+
+// ---------------------------------------------------------------------------
+// Filtering and pagination
+// ---------------------------------------------------------------------------
+
+type Filter = Record<string, unknown>;
+
+const COMPARATORS = new Set([
+  "eq", "eqIgnoreCase", "neq", "in", "nin", "null", "gt", "gte", "lt", "lte",
+  "contains", "containsIgnoreCase", "notContains", "notContainsIgnoreCase", "startsWith", "endsWith",
+]);
+
+function compare(value: unknown, comparator: Filter): boolean {
+  return Object.entries(comparator).every(([op, expected]) => {
+    const str = typeof value === "string" ? value : String(value ?? "");
+    const lower = str.toLowerCase();
+    switch (op) {
+      case "eq": return value === expected;
+      case "eqIgnoreCase": return lower === String(expected).toLowerCase();
+      case "neq": return value !== expected;
+      case "in": return (expected as unknown[]).includes(value);
+      case "nin": return !(expected as unknown[]).includes(value);
+      case "null": return (value === null || value === undefined) === expected;
+      case "gt": return value !== undefined && (value as number | string) > (expected as number | string);
+      case "gte": return value !== undefined && (value as number | string) >= (expected as number | string);
+      case "lt": return value !== undefined && (value as number | string) < (expected as number | string);
+      case "lte": return value !== undefined && (value as number | string) <= (expected as number | string);
+      case "contains": return str.includes(expected as string);
+      case "containsIgnoreCase": return lower.includes(String(expected).toLowerCase());
+      case "notContains": return !str.includes(expected as string);
+      case "notContainsIgnoreCase": return !lower.includes(String(expected).toLowerCase());
+      case "startsWith": return str.startsWith(expected as string);
+      case "endsWith": return str.endsWith(expected as string);
+      default: return true;
+    }
+  });
+}
+
+/**
+ * Evaluate a Linear-style filter (`{ title: { containsIgnoreCase }, or: [...], state: { type: { in } } }`)
+ * against a plain object. Relations are nested objects; to-many relations are arrays matched
+ * with `some`/`every` (a bare nested filter on an array means `some`).
+ */
+export function matchesFilter(value: Record<string, unknown> | null | undefined, filter: Filter | undefined): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, cond]) => {
+    if (cond === undefined || cond === null) return true;
+    if (key === "and") return (cond as Filter[]).every((f) => matchesFilter(value, f));
+    if (key === "or") return (cond as Filter[]).some((f) => matchesFilter(value, f));
+    const c = cond as Filter;
+    const field = value?.[key];
+    const keys = Object.keys(c);
+    if (keys.length > 0 && keys.every((k) => COMPARATORS.has(k))) return compare(field, c);
+    if (Array.isArray(field)) {
+      // String arrays (e.g. a customer's domains) take a list of item comparators
+      if (Array.isArray(c.some)) return field.some((item) => (c.some as Filter[]).some((comparator) => compare(item, comparator)));
+      if (Array.isArray(c.every)) return field.every((item) => (c.every as Filter[]).some((comparator) => compare(item, comparator)));
+      if (c.every) return field.every((item) => matchesFilter(item, c.every as Filter));
+      if (c.some) return field.some((item) => matchesFilter(item, c.some as Filter));
+      return field.some((item) => matchesFilter(item, c));
+    }
+    if (field === null || field === undefined) return "null" in c ? c.null === true : false;
+    return matchesFilter(field as Record<string, unknown>, c);
+  });
+}
+
+interface PageArgs {
+  first?: number;
+  after?: string;
+  last?: number;
+  before?: string;
+}
+
+function connection<T extends { id: string }>(items: T[], args: PageArgs = {}) {
+  let start = 0;
+  let end = items.length;
+  if (args.after) start = items.findIndex((i) => i.id === args.after) + 1;
+  if (args.before) {
+    const index = items.findIndex((i) => i.id === args.before);
+    if (index >= 0) end = index;
+  }
+  if (args.first !== undefined) end = Math.min(end, start + args.first);
+  else if (args.last !== undefined) start = Math.max(start, end - args.last);
+  else end = Math.min(end, start + 50);
+
+  const nodes = items.slice(start, end);
+  return {
+    nodes,
+    pageInfo: {
+      startCursor: nodes[0]?.id ?? null,
+      endCursor: nodes[nodes.length - 1]?.id ?? null,
+      hasPreviousPage: start > 0,
+      hasNextPage: end < items.length,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+export interface FakeLinearServerOptions {
+  /** JSON file to load state from and save it to after every mutation. Memory only when unset. */
+  statePath?: string;
+  /** Teams to create when starting without saved state. */
+  teams?: FakeTeamSeed[];
+  /** Issues to create when starting without saved state. */
+  issues?: FakeIssueSeed[];
+}
+
+export interface FakeLinearServer {
+  server: Server;
+  state: FakeLinearState;
+  /** Start listening; resolves with the GraphQL endpoint URL. */
+  listen(port: number, host?: string): Promise<string>;
+  close(): Promise<void>;
+}
+
+function notFound(entity: string, id: string): Error {
+  return new Error(`Entity not found: ${entity} - Could not find referenced ${entity} (${id}).`);
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+export function createFakeLinearServer(options: FakeLinearServerOptions = {}): FakeLinearServer {
+  const { statePath } = options;
+  const state: FakeLinearState = statePath && existsSync(statePath)
+    ? JSON.parse(readFileSync(statePath, "utf8"))
+    : createInitialState(options.teams ?? [], options.issues);
+  // State saved before customers were supported
+  state.customers ??= [];
+  state.customerNeeds ??= [];
+  state.attachments ??= [];
+  const uploads = new Map<string, { contentType: string; body: Buffer }>();
+  let baseUrl = "http://localhost";
+
+  function save(): void {
+    state.lastSyncId++;
+    if (!statePath) return;
+    mkdirSync(dirname(statePath), { recursive: true });
+    writeFileSync(statePath, JSON.stringify(state, null, 2));
+  }
+
+  // --- Lookups ---
+
+  const findTeam = (id: string) => state.teams.find((t) => t.id === id || t.key === id) ?? null;
+  const findUser = (id?: string) => (id ? state.users.find((u) => u.id === id) ?? null : null);
+  const findIssue = (id: string) => state.issues.find((i) => i.id === id || i.identifier === id) ?? null;
+
+  function requireIssue(id: string): IssueRecord {
+    const issue = findIssue(id);
+    if (!issue) throw notFound("Issue", id);
+    return issue;
+  }
+
+  // --- Views (GraphQL objects; function fields resolve lazily with their arguments) ---
+
+  function teamView(team: TeamRecord): Record<string, unknown> {
+    return {
+      ...team,
+      updatedAt: team.createdAt,
+      states: (args: PageArgs & { filter?: Filter }) =>
+        connection(state.states.filter((s) => s.teamId === team.id && matchesFilter({ ...s }, args.filter)).map(stateView), args),
+      labels: (args: PageArgs & { filter?: Filter }) =>
+        connection(state.labels.filter((l) => l.teamId === team.id && matchesFilter({ ...l }, args.filter)).map(labelView), args),
+    };
+  }
+
+  function stateView(s: StateRecord): Record<string, unknown> & { id: string } {
+    return { ...s, updatedAt: s.createdAt, team: () => teamView(findTeam(s.teamId)!) };
+  }
+
+  function labelView(l: LabelRecord): Record<string, unknown> & { id: string } {
+    return { ...l, updatedAt: l.createdAt, team: () => teamView(findTeam(l.teamId)!) };
+  }
+
+  function userView(u: UserRecord): Record<string, unknown> & { id: string } {
+    return {
+      ...u,
+      displayName: u.name.split(" ")[0].toLowerCase(),
+      active: true,
+      admin: false,
+      guest: false,
+      isMe: u.id === state.viewerId,
+      url: `https://linear.app/${appConfig.linearOrganization}/profiles/${u.id}`,
+      updatedAt: u.createdAt,
+    };
+  }
+
+  function issueUrl(issue: IssueRecord): string {
+    return `https://linear.app/${appConfig.linearOrganization}/issue/${issue.identifier}`;
+  }
+
+  function issueView(issue: IssueRecord): Record<string, unknown> & { id: string } {
+    const labels = () => state.labels.filter((l) => issue.labelIds.includes(l.id));
+    return {
+      ...issue,
+      url: issueUrl(issue),
+      previousIdentifiers: [],
+      reactions: [],
+      priorityLabel: PRIORITY_LABELS[issue.priority] ?? "No priority",
+      team: () => teamView(findTeam(issue.teamId)!),
+      state: () => stateView(state.states.find((s) => s.id === issue.stateId)!),
+      project: issue.projectId ? { id: issue.projectId, name: "Project" } : null,
+      assignee: () => {
+        const user = findUser(issue.assigneeId);
+        return user ? userView(user) : null;
+      },
+      creator: () => {
+        const user = findUser(issue.creatorId);
+        return user ? userView(user) : null;
+      },
+      labels: (args: PageArgs & { filter?: Filter }) =>
+        connection(labels().filter((l) => matchesFilter({ ...l }, args.filter)).map(labelView), args),
+      comments: (args: PageArgs) =>
+        connection(state.comments.filter((c) => c.issueId === issue.id).map(commentView), args),
+      relations: (args: PageArgs) =>
+        connection(state.relations.filter((r) => r.issueId === issue.id).map(relationView), args),
+      inverseRelations: (args: PageArgs) =>
+        connection(state.relations.filter((r) => r.relatedIssueId === issue.id).map(relationView), args),
+      attachments: (args: PageArgs & { filter?: Filter }) =>
+        connection(state.attachments.filter((a) => a.issueId === issue.id && matchesFilter({ ...a }, args.filter)).map(attachmentView), args),
+    };
+  }
+
+  function relationView(r: RelationRecord): Record<string, unknown> & { id: string } {
+    return {
+      ...r,
+      updatedAt: r.createdAt,
+      issue: () => issueView(requireIssue(r.issueId)),
+      relatedIssue: () => issueView(requireIssue(r.relatedIssueId)),
+    };
+  }
+
+  function commentView(c: CommentRecord): Record<string, unknown> & { id: string } {
+    const issue = findIssue(c.issueId);
+    return {
+      ...c,
+      updatedAt: c.createdAt,
+      url: issue ? `${issueUrl(issue)}#comment-${c.id.slice(0, 8)}` : "",
+      reactions: [],
+      issue: () => (issue ? issueView(issue) : null),
+      user: () => {
+        const user = findUser(c.userId);
+        return user ? userView(user) : null;
+      },
+    };
+  }
+
+  function customerView(c: CustomerRecord): Record<string, unknown> & { id: string } {
+    return { ...c, updatedAt: c.createdAt };
+  }
+
+  function attachmentView(a: AttachmentRecord): Record<string, unknown> & { id: string } {
+    return { ...a, updatedAt: a.createdAt, issue: () => issueView(requireIssue(a.issueId)) };
+  }
+
+  // Plain object the issues filter is evaluated against
+  function filterable(issue: IssueRecord): Record<string, unknown> {
+    const s = state.states.find((st) => st.id === issue.stateId);
+    const team = findTeam(issue.teamId);
+    const assignee = findUser(issue.assigneeId);
+    return {
+      ...issue,
+      state: s ? { id: s.id, name: s.name, type: s.type } : null,
+      team: team ? { id: team.id, key: team.key, name: team.name } : null,
+      project: issue.projectId ? { id: issue.projectId } : null,
+      assignee: assignee ? { id: assignee.id, name: assignee.name, email: assignee.email } : null,
+      labels: state.labels.filter((l) => issue.labelIds.includes(l.id)).map((l) => ({ id: l.id, name: l.name })),
+    };
+  }
+
+  // Keep completedAt/canceledAt in step with the workflow state type
+  function applyState(issue: IssueRecord, stateId: string): void {
+    const s = state.states.find((st) => st.id === stateId);
+    if (!s || s.teamId !== issue.teamId) throw notFound("WorkflowState", stateId);
+    const now = new Date().toISOString();
+    issue.stateId = s.id;
+    issue.completedAt = s.type === "completed" ? now : undefined;
+    issue.canceledAt = s.type === "canceled" ? now : undefined;
+  }
+
+  // --- Root resolvers ---
+
+  const root = {
+    viewer: () => userView(findUser(state.viewerId)!),
+
+    issue: ({ id }: { id: string }) => issueView(requireIssue(id)),
+
+    issues: (args: PageArgs & { filter?: Filter; includeArchived?: boolean; orderBy?: "createdAt" | "updatedAt" }) => {
+      const orderBy = args.orderBy ?? "createdAt";
+      const issues = state.issues
+        .filter((i) => (args.includeArchived || !i.archivedAt) && matchesFilter(filterable(i), args.filter))
+        .sort((a, b) => b[orderBy].localeCompare(a[orderBy]));
+      return connection(issues.map(issueView), args);
+    },
+
+    team: ({ id }: { id: string }) => {
+      const team = findTeam(id);
+      if (!team) throw notFound("Team", id);
+      return teamView(team);
+    },
+
+    workflowState: ({ id }: { id: string }) => {
+      const s = state.states.find((st) => st.id === id);
+      if (!s) throw notFound("WorkflowState", id);
+      return stateView(s);
+    },
+
+    issueLabel: ({ id }: { id: string }) => {
+      const l = state.labels.find((lb) => lb.id === id);
+      if (!l) throw notFound("IssueLabel", id);
+      return labelView(l);
+    },
+
+    user: ({ id }: { id: string }) => {
+      const user = findUser(id);
+      if (!user) throw notFound("User", id);
+      return userView(user);
+    },
+
+    users: (args: PageArgs & { filter?: Filter }) =>
+      connection(state.users.filter((u) => matchesFilter({ ...u }, args.filter)).map(userView), args),
+
+    comment: ({ id }: { id?: string }) => {
+      const c = state.comments.find((cm) => cm.id === id);
+      if (!c) throw notFound("Comment", id ?? "");
+      return commentView(c);
+    },
+
+    customers: (args: PageArgs & { filter?: Filter }) =>
+      connection(state.customers.filter((c) => matchesFilter({ ...c }, args.filter)).map(customerView), args),
+
+    issueCreate: ({ input }: { input: Partial<IssueRecord> & { teamId: string; title: string } }) => {
+      const team = findTeam(input.teamId);
+      if (!team) throw notFound("Team", input.teamId);
+      const now = new Date().toISOString();
+      const number = nextIssueNumber(state, team.id);
+      const issue: IssueRecord = {
+        id: randomUUID(),
+        teamId: team.id,
+        number,
+        identifier: `${team.key}-${number}`,
+        title: input.title,
+        description: input.description ?? "",
+        priority: input.priority ?? 0,
+        stateId: "",
+        labelIds: input.labelIds ?? [],
+        projectId: input.projectId,
+        assigneeId: input.assigneeId,
+        creatorId: state.viewerId,
+        createdAt: now,
+        updatedAt: now,
+      };
+      applyState(issue, input.stateId || state.states.find((s) => s.teamId === team.id && s.type === "triage")!.id);
+      state.issues.push(issue);
+      save();
+      return { success: true, lastSyncId: state.lastSyncId, issue: issueView(issue) };
+    },
+
+    issueUpdate: ({ id, input }: { id: string; input: Partial<IssueRecord> }) => {
+      const issue = requireIssue(id);
+      const { stateId, ...rest } = input;
+      for (const key of ["title", "description", "priority", "labelIds", "projectId", "assigneeId"] as const) {
+        if (rest[key] !== undefined) Object.assign(issue, { [key]: rest[key] });
+      }
+      if (stateId) applyState(issue, stateId);
+      issue.updatedAt = new Date().toISOString();
+      save();
+      return { success: true, lastSyncId: state.lastSyncId, issue: issueView(issue) };
+    },
+
+    issueArchive: ({ id }: { id: string }) => {
+      const issue = requireIssue(id);
+      issue.archivedAt = new Date().toISOString();
+      save();
+      return { success: true, lastSyncId: state.lastSyncId, entity: issueView(issue) };
+    },
+
+    issueAddLabel: ({ id, labelId }: { id: string; labelId: string }) => {
+      const issue = requireIssue(id);
+      const label = state.labels.find((l) => l.id === labelId && l.teamId === issue.teamId);
+      if (!label) throw notFound("IssueLabel", labelId);
+      if (!issue.labelIds.includes(label.id)) issue.labelIds.push(label.id);
+      issue.updatedAt = new Date().toISOString();
+      save();
+      return { success: true, lastSyncId: state.lastSyncId, issue: issueView(issue) };
+    },
+
+    issueRemoveLabel: ({ id, labelId }: { id: string; labelId: string }) => {
+      const issue = requireIssue(id);
+      issue.labelIds = issue.labelIds.filter((l) => l !== labelId);
+      issue.updatedAt = new Date().toISOString();
+      save();
+      return { success: true, lastSyncId: state.lastSyncId, issue: issueView(issue) };
+    },
+
+    commentCreate: ({ input }: { input: { id?: string; issueId: string; body: string } }) => {
+      const issue = requireIssue(input.issueId);
+      const comment: CommentRecord = {
+        id: input.id ?? randomUUID(),
+        issueId: issue.id,
+        userId: state.viewerId,
+        body: input.body,
+        createdAt: new Date().toISOString(),
+      };
+      state.comments.push(comment);
+      issue.updatedAt = comment.createdAt;
+      save();
+      return { success: true, lastSyncId: state.lastSyncId, comment: commentView(comment) };
+    },
+
+    commentDelete: ({ id }: { id: string }) => {
+      const index = state.comments.findIndex((c) => c.id === id);
+      if (index < 0) throw notFound("Comment", id);
+      state.comments.splice(index, 1);
+      save();
+      return { success: true, lastSyncId: state.lastSyncId, entityId: id };
+    },
+
+    issueRelationCreate: ({ input }: { input: { id?: string; issueId: string; relatedIssueId: string; type: string } }) => {
+      const issue = requireIssue(input.issueId);
+      const related = requireIssue(input.relatedIssueId);
+      const relation: RelationRecord = {
+        id: input.id ?? randomUUID(),
+        issueId: issue.id,
+        relatedIssueId: related.id,
+        type: input.type,
+        createdAt: new Date().toISOString(),
+      };
+      state.relations.push(relation);
+      save();
+      return {
+        success: true,
+        lastSyncId: state.lastSyncId,
+        issueRelation: { ...relation, updatedAt: relation.createdAt, issue: issueView(issue), relatedIssue: issueView(related) },
+      };
+    },
+
+    issueRelationDelete: ({ id }: { id: string }) => {
+      const index = state.relations.findIndex((r) => r.id === id);
+      if (index < 0) throw notFound("IssueRelation", id);
+      state.relations.splice(index, 1);
+      save();
+      return { success: true, lastSyncId: state.lastSyncId, entityId: id };
+    },
+
+    customerCreate: ({ input }: { input: { id?: string; name: string; domains?: string[]; externalIds?: string[] } }) => {
+      const customer: CustomerRecord = {
+        id: input.id ?? randomUUID(),
+        name: input.name,
+        domains: input.domains ?? [],
+        externalIds: input.externalIds ?? [],
+        createdAt: new Date().toISOString(),
+      };
+      state.customers.push(customer);
+      save();
+      return { success: true, lastSyncId: state.lastSyncId, customer: customerView(customer) };
+    },
+
+    customerNeedCreate: ({ input }: { input: { id?: string; customerId: string; issueId?: string; attachmentId?: string; body?: string } }) => {
+      const customer = state.customers.find((c) => c.id === input.customerId);
+      if (!customer) throw notFound("Customer", input.customerId);
+      const attachment = input.attachmentId ? state.attachments.find((a) => a.id === input.attachmentId) : undefined;
+      if (input.attachmentId && !attachment) throw notFound("Attachment", input.attachmentId);
+      const issueId = input.issueId ? requireIssue(input.issueId).id : attachment?.issueId;
+      const need: CustomerNeedRecord = {
+        id: input.id ?? randomUUID(),
+        customerId: customer.id,
+        issueId,
+        attachmentId: attachment?.id,
+        body: input.body,
+        createdAt: new Date().toISOString(),
+      };
+      state.customerNeeds.push(need);
+      save();
+      return {
+        success: true,
+        lastSyncId: state.lastSyncId,
+        need: {
+          ...need,
+          updatedAt: need.createdAt,
+          customer: customerView(customer),
+          issue: () => (issueId ? issueView(requireIssue(issueId)) : null),
+          attachment: attachment ? attachmentView(attachment) : null,
+        },
+      };
+    },
+
+    customerNeedDelete: ({ id }: { id: string }) => {
+      const index = state.customerNeeds.findIndex((n) => n.id === id);
+      if (index < 0) throw notFound("CustomerNeed", id);
+      state.customerNeeds.splice(index, 1);
+      save();
+      return { success: true, lastSyncId: state.lastSyncId, entityId: id };
+    },
+
+    // Like Linear, one attachment per URL on an issue: attaching the same URL again updates it
+    attachmentCreate: ({ input }: { input: { id?: string; issueId: string; title: string; subtitle?: string; url: string } }) => {
+      const issue = requireIssue(input.issueId);
+      let attachment = state.attachments.find((a) => a.issueId === issue.id && a.url === input.url);
+      if (attachment) {
+        Object.assign(attachment, { title: input.title, subtitle: input.subtitle });
+      } else {
+        attachment = {
+          id: input.id ?? randomUUID(),
+          issueId: issue.id,
+          title: input.title,
+          subtitle: input.subtitle,
+          url: input.url,
+          createdAt: new Date().toISOString(),
+        };
+        state.attachments.push(attachment);
+      }
+      save();
+      return { success: true, lastSyncId: state.lastSyncId, attachment: attachmentView(attachment) };
+    },
+
+    attachmentDelete: ({ id }: { id: string }) => {
+      const index = state.attachments.findIndex((a) => a.id === id);
+      if (index < 0) throw notFound("Attachment", id);
+      state.attachments.splice(index, 1);
+      save();
+      return { success: true, lastSyncId: state.lastSyncId, entityId: id };
+    },
+
+    fileUpload: ({ contentType, filename, size, metaData }: { contentType: string; filename: string; size: number; metaData?: unknown }) => {
+      const key = `${randomUUID()}/${encodeURIComponent(filename)}`;
+      const url = `${baseUrl}/uploads/${key}`;
+      return {
+        success: true,
+        lastSyncId: state.lastSyncId,
+        uploadFile: {
+          assetUrl: url,
+          uploadUrl: url,
+          contentType,
+          filename,
+          size,
+          headers: [{ key: "x-fake-linear-upload", value: "1" }],
+          metaData: metaData ?? null,
+        },
+      };
+    },
+  };
+
+  // --- HTTP ---
+
+  const server = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", baseUrl);
+
+      if (url.pathname.startsWith("/uploads/")) {
+        const key = url.pathname.slice("/uploads/".length);
+        if (req.method === "PUT") {
+          uploads.set(key, { contentType: req.headers["content-type"] ?? "application/octet-stream", body: await readBody(req) });
+          res.writeHead(200).end();
+          return;
+        }
+        const upload = uploads.get(key);
+        if (req.method === "GET" && upload) {
+          res.writeHead(200, { "Content-Type": upload.contentType }).end(upload.body);
+          return;
+        }
+        res.writeHead(404).end();
+        return;
+      }
+
+      if (req.method !== "POST" || url.pathname !== "/graphql") {
+        res.writeHead(404, { "Content-Type": "application/json" }).end(JSON.stringify({ errors: [{ message: "Not found" }] }));
+        return;
+      }
+
+      const { query, variables, operationName } = JSON.parse((await readBody(req)).toString("utf8"));
+      const result = await execute({
+        schema,
+        document: parse(query),
+        rootValue: root,
+        variableValues: variables,
+        operationName,
+      });
+      const errors = result.errors?.map((e: GraphQLError) => ({ message: e.message, path: e.path }));
+      if (errors) console.log(`[Fake Linear] ${operationName ?? "query"} failed: ${errors.map((e) => e.message).join("; ")}`);
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ data: result.data ?? null, errors }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.writeHead(400, { "Content-Type": "application/json" }).end(JSON.stringify({ errors: [{ message }] }));
+    }
+  });
+
+  return {
+    server,
+    state,
+    listen(port, host = "localhost") {
+      return new Promise((resolve) => {
+        server.listen(port, host, () => {
+          const address = server.address();
+          const actualPort = typeof address === "object" && address ? address.port : port;
+          baseUrl = `http://${host}:${actualPort}`;
+          resolve(`${baseUrl}/graphql`);
+        });
+      });
+    },
+    close() {
+      return new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// CLI
+// ---------------------------------------------------------------------------
+
+async function main(): Promise<void> {
+  loadEnv();
+  const port = Number(process.env.FAKE_LINEAR_PORT ?? "4010");
+  const configFilePath = process.env.TRIAGE_CONFIG_PATH;
+  if (configFilePath && existsSync(configFilePath)) {
+    Object.assign(appConfig, loadConfigFile(configFilePath, structuredClone(appConfig)));
+  }
+
+  // Seed the teams the app is configured for, so LINEAR_TEAM_ID / channel routes resolve
+  const teamIds = [...new Set([
+    ...(process.env.LINEAR_TEAM_ID ? [process.env.LINEAR_TEAM_ID] : []),
+    ...appConfig.channels.map((c) => c.linear.teamId),
+  ])];
+  const teams = teamIds.map((id, i) => ({ id, key: i === 0 ? "FAKE" : `FAKE${String.fromCharCode(65 + i)}` }));
+
+  const fake = createFakeLinearServer({ statePath: process.env.FAKE_LINEAR_STATE, teams });
+  const endpoint = await fake.listen(port);
+  console.log(`Fake Linear API listening on ${endpoint}`);
+  console.log(`State: ${process.env.FAKE_LINEAR_STATE ?? "in memory"}`);
+  for (const team of fake.state.teams) {
+    console.log(`Team ${team.key}: ${team.id}`);
+  }
+  console.log(`Set LINEAR_API_URL=${endpoint} (any LINEAR_API_KEY works)`);
+
+  const shutdown = () => {
+    fake.close().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,387 @@
+/**
+ * fakes.ts — In-process stand-ins for the Slack Web API and the Linear client.
+ *
+ * Used by the replay harness so recorded Slack events can run through the pipeline and the
+ * agent tools without a workspace or a Linear account. Both fakes keep their state in memory
+ * and report every call through `onCall`, which is how the harness prints tool invocations.
+ */
+
+import type { LinearClient } from "@linear/sdk";
+import appConfig from "./config.js";
+import { matchesFilter } from "./fakeLinearServer.js";
+import type { SlackApiMessage, SlackClient } from "./pipeline.js";
+
+export interface FakeCall {
+  service: "slack" | "linear";
+  method: string;
+  args: unknown;
+}
+
+type OnCall = (call: FakeCall) => void;
+
+// ---------------------------------------------------------------------------
+// Slack
+// ---------------------------------------------------------------------------
+
+type StoredMessage = SlackApiMessage & { channel: string; reactions: Array<{ name: string }> };
+
+export interface FakeSlack {
+  /** Web API subset used by the pipeline and the agent tools. */
+  client: SlackClient & {
+    chat: { postMessage(args: { channel: string; text: string; thread_ts?: string; blocks?: unknown[] }): Promise<{ ok: boolean; ts: string }> };
+    users: { info(args: { user: string }): Promise<{ user?: { id: string; name: string; real_name: string; profile: { email: string } } }> };
+  };
+  /** Stands in for posting to an interaction's response_url (ephemeral replies). */
+  respond(responseUrl: string, text: string): Promise<void>;
+  /** Apply a recorded event to the fake workspace (post, edit or delete a message). */
+  applyEvent(event: Record<string, unknown>): void;
+}
+
+/** `isMember` decides which channels the bot is in (all of them by default); others can't be read. */
+export function createFakeSlack(options: { botUserId: string; onCall: OnCall; isMember?(channel: string): boolean }): FakeSlack {
+  const messages: StoredMessage[] = [];
+  let seq = 0;
+
+  const find = (channel: string, ts: string) => messages.find((m) => m.channel === channel && m.ts === ts);
+  const record = (method: string, args: unknown) => options.onCall({ service: "slack", method, args });
+  const isMember = (channel: string) => options.isMember?.(channel) ?? true;
+
+  const client: FakeSlack["client"] = {
+    conversations: {
+      async info({ channel }) {
+        return { channel: { is_member: isMember(channel) } };
+      },
+      async replies({ channel, ts, limit }) {
+        if (!isMember(channel)) throw new Error("not_in_channel");
+        const thread = messages.filter((m) => m.channel === channel && (m.ts === ts || m.thread_ts === ts));
+        return { messages: thread.slice(0, limit ?? thread.length) };
+      },
+      async history({ channel, limit }) {
+        // Newest first, top-level messages only (like the real API)
+        const top = messages.filter((m) => m.channel === channel && (!m.thread_ts || m.thread_ts === m.ts));
+        return { messages: top.reverse().slice(0, limit ?? top.length), response_metadata: {} };
+      },
+    },
+    reactions: {
+      async add({ channel, timestamp, name }) {
+        record("reactions.add", { channel, timestamp, name });
+        const msg = find(channel, timestamp);
+        if (!msg) throw new Error("message_not_found");
+        if (msg.reactions.some((r) => r.name === name)) throw new Error("already_reacted");
+        msg.reactions.push({ name });
+        return { ok: true };
+      },
+      async remove({ channel, timestamp, name }) {
+        record("reactions.remove", { channel, timestamp, name });
+        const msg = find(channel, timestamp);
+        if (!msg) throw new Error("message_not_found");
+        const index = msg.reactions.findIndex((r) => r.name === name);
+        if (index < 0) throw new Error("no_reaction");
+        msg.reactions.splice(index, 1);
+        return { ok: true };
+      },
+    },
+    chat: {
+      async postMessage({ channel, text, thread_ts }) {
+        record("chat.postMessage", { channel, thread_ts, text });
+        if (!isMember(channel)) throw new Error("not_in_channel");
+        const ts = `9000000000.${String(++seq).padStart(6, "0")}`;
+        messages.push({ channel, ts, thread_ts, text, user: options.botUserId, bot_id: "BREPLAY", reactions: [] });
+        const parent = thread_ts ? find(channel, thread_ts) : undefined;
+        if (parent) {
+          parent.reply_users = [...new Set([...(parent.reply_users ?? []), options.botUserId])];
+        }
+        return { ok: true, ts };
+      },
+      async update({ channel, ts, text }) {
+        record("chat.update", { channel, ts, text });
+        const msg = find(channel, ts);
+        if (!msg) throw new Error("message_not_found");
+        msg.text = text;
+        return { ok: true };
+      },
+    },
+    views: {
+      async open({ trigger_id, view }) {
+        record("views.open", { trigger_id, callback_id: view.callback_id, private_metadata: view.private_metadata });
+        return { ok: true };
+      },
+    },
+    users: {
+      async info({ user }) {
+        record("users.info", { user });
+        return { user: { id: user, name: user.toLowerCase(), real_name: `User ${user}`, profile: { email: `${user.toLowerCase()}@example.com` } } };
+      },
+    },
+  };
+
+  function applyEvent(event: Record<string, unknown>): void {
+    const channel = event.channel as string;
+    if (event.subtype === "message_changed") {
+      const edited = event.message as { ts: string; text?: string };
+      const msg = find(channel, edited.ts);
+      if (msg) msg.text = edited.text;
+    } else if (event.subtype === "message_deleted") {
+      const index = messages.findIndex((m) => m.channel === channel && m.ts === event.deleted_ts);
+      if (index >= 0) messages.splice(index, 1);
+    } else if (!find(channel, event.ts as string)) {
+      const { channel: _channel, ...rest } = event;
+      messages.push({ ...(rest as SlackApiMessage), channel, reactions: [] });
+    }
+  }
+
+  async function respond(responseUrl: string, text: string): Promise<void> {
+    record("response_url", { responseUrl, text });
+  }
+
+  return { client, respond, applyEvent };
+}
+
+// ---------------------------------------------------------------------------
+// Linear
+// ---------------------------------------------------------------------------
+
+interface FakeIssueRecord {
+  id: string;
+  identifier: string;
+  title: string;
+  description: string;
+  priority: number;
+  stateId: string;
+  labelIds: string[];
+  assigneeId?: string;
+  projectId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const STATES = [
+  { id: "state-triage", name: "Triage", type: "triage" },
+  { id: "state-todo", name: "Todo", type: "unstarted" },
+  { id: "state-in-progress", name: "In Progress", type: "started" },
+  { id: "state-done", name: "Done", type: "completed" },
+  { id: "state-canceled", name: "Canceled", type: "canceled" },
+];
+
+const LABELS = [
+  { id: "label-bug", name: "Bug" },
+  { id: "label-feature", name: "Feature" },
+  { id: "label-improvement", name: "Improvement" },
+];
+
+const USERS = [
+  { id: "user-alice", name: "Alice Example", email: "alice@example.com" },
+  { id: "user-bob", name: "Bob Example", email: "bob@example.com" },
+];
+
+type TextFilter = { containsIgnoreCase?: string };
+type IssueFilter = {
+  project?: { id?: { eq?: string } };
+  or?: Array<{ title?: TextFilter; description?: TextFilter }>;
+};
+
+/**
+ * A LinearClient look-alike covering the calls the agent tools make. Issues get identifiers
+ * like `FAKE-1`; teams have the usual workflow states and a few labels.
+ */
+export function createFakeLinear(options: { onCall: OnCall; teamKey?: string }): LinearClient {
+  const teamKey = options.teamKey ?? "FAKE";
+  const issues: FakeIssueRecord[] = [];
+  const customers: Array<{ id: string; name: string; domains: string[]; externalIds: string[] }> = [];
+  const attachments: Array<{ id: string; issueId: string; url: string }> = [];
+  let commentCount = 0;
+  let customerObjectCount = 0;
+  const record = (method: string, args: unknown) => options.onCall({ service: "linear", method, args });
+
+  const team = {
+    id: "team-replay",
+    key: teamKey,
+    states: async () => ({ nodes: STATES }),
+    labels: async () => ({ nodes: LABELS }),
+  };
+
+  function lookup(idOrIdentifier: string): FakeIssueRecord {
+    const issue = issues.find((i) => i.id === idOrIdentifier || i.identifier === idOrIdentifier);
+    if (!issue) throw new Error(`Entity not found: Issue ${idOrIdentifier}`);
+    return issue;
+  }
+
+  // Shape an issue record like an SDK Issue model (lazy relations are promises)
+  function view(issue: FakeIssueRecord) {
+    return {
+      ...issue,
+      url: `https://linear.app/${appConfig.linearOrganization}/issue/${issue.identifier}`,
+      get state() { return Promise.resolve(STATES.find((s) => s.id === issue.stateId)); },
+      get team() { return Promise.resolve(team); },
+      get assignee() { return Promise.resolve(USERS.find((u) => u.id === issue.assigneeId)); },
+      labels: async () => ({ nodes: LABELS.filter((l) => issue.labelIds.includes(l.id)) }),
+    };
+  }
+
+  function matches(issue: FakeIssueRecord, filter: IssueFilter = {}): boolean {
+    const projectId = filter.project?.id?.eq;
+    if (projectId && issue.projectId !== projectId) return false;
+    if (!filter.or) return true;
+    return filter.or.some((cond) => {
+      const [field, text] = cond.title ? ["title", cond.title] as const : ["description", cond.description] as const;
+      const needle = text?.containsIgnoreCase?.toLowerCase();
+      return !!needle && issue[field].toLowerCase().includes(needle);
+    });
+  }
+
+  // An issue as a plain object, the shape raw GraphQL filters and selections expect
+  function plain(issue: FakeIssueRecord) {
+    return {
+      ...issue,
+      url: `https://linear.app/${appConfig.linearOrganization}/issue/${issue.identifier}`,
+      state: STATES.find((s) => s.id === issue.stateId),
+      team: { id: team.id, key: team.key },
+      project: issue.projectId ? { id: issue.projectId, name: "Project" } : null,
+      assignee: USERS.find((u) => u.id === issue.assigneeId) ?? null,
+      labels: LABELS.filter((l) => issue.labelIds.includes(l.id)),
+      archivedAt: null,
+    };
+  }
+
+  // Raw GraphQL the agent sends, answered by operation name (one page holds every match)
+  const rawQueries: Record<string, (variables: Record<string, unknown>) => unknown> = {
+    IssueIndexPage: ({ filter }) => ({
+      issues: {
+        nodes: issues.map(plain).filter((i) => matchesFilter(i, filter as Record<string, unknown>)),
+        pageInfo: { hasNextPage: false, endCursor: null },
+      },
+    }),
+    SearchIssues: ({ filter, first }) => ({
+      issues: {
+        nodes: issues.map(plain)
+          .filter((i) => matchesFilter(i, filter as Record<string, unknown>))
+          .slice(0, (first as number | undefined) ?? 50)
+          .map((i) => ({ ...i, labels: { nodes: i.labels }, inverseRelations: { nodes: [] } })),
+        pageInfo: { hasNextPage: false, endCursor: null },
+      },
+    }),
+    FindCustomer: ({ filter }) => ({
+      customers: { nodes: customers.filter((c) => matchesFilter(c, filter as Record<string, unknown>)).slice(0, 1) },
+    }),
+    CreateCustomer: ({ input }) => {
+      const { name, domains = [], externalIds = [] } = input as { name: string; domains?: string[]; externalIds?: string[] };
+      const customer = { id: `customer-${++customerObjectCount}`, name, domains, externalIds };
+      customers.push(customer);
+      return { customerCreate: { success: true, customer } };
+    },
+    FindRequestAttachment: ({ issueId, filter }) => ({
+      issue: { attachments: { nodes: attachments.filter((a) => a.issueId === issueId && matchesFilter(a, filter as Record<string, unknown>)).slice(0, 1) } },
+    }),
+    CreateRequestAttachment: ({ input }) => {
+      const { issueId, url } = input as { issueId: string; url: string };
+      const attachment = { id: `attachment-${++customerObjectCount}`, issueId, url };
+      attachments.push(attachment);
+      return { attachmentCreate: { success: true, attachment: { id: attachment.id } } };
+    },
+    CreateCustomerNeed: () => ({ customerNeedCreate: { success: true, need: { id: `need-${++customerObjectCount}` } } }),
+    DeleteCustomerNeed: () => ({ customerNeedDelete: { success: true } }),
+    DeleteRequestAttachment: ({ id }) => {
+      const index = attachments.findIndex((a) => a.id === id);
+      if (index >= 0) attachments.splice(index, 1);
+      return { attachmentDelete: { success: true } };
+    },
+  };
+
+  const client = {
+    client: {
+      async rawRequest(query: string, variables: Record<string, unknown> = {}) {
+        const operation = /(?:query|mutation)\s+(\w+)/.exec(query)?.[1] ?? "";
+        record(`graphql ${operation}`, variables);
+        const resolve = rawQueries[operation];
+        if (!resolve) throw new Error(`Fake Linear has no raw query ${operation}`);
+        return { status: 200, data: resolve(variables) };
+      },
+    },
+    async issues(args: { filter?: IssueFilter; first?: number } = {}) {
+      record("issues", args);
+      const found = issues.filter((i) => matches(i, args.filter)).slice(0, args.first ?? 50);
+      return { nodes: found.map(view) };
+    },
+    async issue(id: string) {
+      record("issue", { id });
+      return view(lookup(id));
+    },
+    async createIssue(input: Partial<FakeIssueRecord> & { title: string; teamId: string }) {
+      record("createIssue", input);
+      const number = issues.length + 1;
+      const issue: FakeIssueRecord = {
+        id: `issue-${number}`,
+        identifier: `${teamKey}-${number}`,
+        title: input.title,
+        description: input.description ?? "",
+        priority: input.priority ?? 0,
+        stateId: input.stateId || "state-triage",
+        labelIds: input.labelIds ?? [],
+        projectId: input.projectId,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      issues.push(issue);
+      return { success: true, issue: Promise.resolve(view(issue)) };
+    },
+    async updateIssue(id: string, input: Partial<FakeIssueRecord>) {
+      record("updateIssue", { id, ...input });
+      Object.assign(lookup(id), input, { updatedAt: new Date().toISOString() });
+      return { success: true };
+    },
+    async archiveIssue(id: string) {
+      record("archiveIssue", { id });
+      lookup(id);
+      return { success: true };
+    },
+    async issueAddLabel(id: string, labelId: string) {
+      record("issueAddLabel", { id, labelId });
+      const issue = lookup(id);
+      if (!issue.labelIds.includes(labelId)) issue.labelIds.push(labelId);
+      return { success: true };
+    },
+    async issueRemoveLabel(id: string, labelId: string) {
+      record("issueRemoveLabel", { id, labelId });
+      const issue = lookup(id);
+      issue.labelIds = issue.labelIds.filter((l) => l !== labelId);
+      return { success: true };
+    },
+    async createComment(input: { id?: string; issueId: string; body: string }) {
+      record("createComment", input);
+      const issue = lookup(input.issueId);
+      return { success: true, comment: Promise.resolve({ id: input.id ?? `comment-${++commentCount}`, body: input.body, issue: Promise.resolve(view(issue)) }) };
+    },
+    async deleteComment(id: string) {
+      record("deleteComment", { id });
+      return { success: true, entityId: id };
+    },
+    async createIssueRelation(input: { id?: string; issueId: string; relatedIssueId: string; type: string }) {
+      record("createIssueRelation", input);
+      return { success: true };
+    },
+    async deleteIssueRelation(id: string) {
+      record("deleteIssueRelation", { id });
+      return { success: true, entityId: id };
+    },
+    async users() {
+      record("users", {});
+      return { nodes: USERS };
+    },
+    async fileUpload(contentType: string, filename: string, size: number) {
+      record("fileUpload", { contentType, filename, size });
+      return {
+        success: true,
+        uploadFile: {
+          uploadUrl: `http://127.0.0.1:9/replay-upload/${filename}`,
+          assetUrl: `https://uploads.linear.app/replay/${filename}`,
+          headers: [],
+        },
+      };
+    },
+    get viewer() {
+      return Promise.resolve({ id: "user-replay", name: "Replay Bot" });
+    },
+  };
+
+  return client as unknown as LinearClient;
+}
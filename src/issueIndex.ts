@@ -0,0 +1,368 @@
+/**
+ * issueIndex.ts — A local similarity index over the issues of a Linear project (or team).
+ *
+ * Backs `linear_find_similar_issues`, which finds duplicates that keyword search misses
+ * because they're worded differently ("can't log in" vs. "auth fails"). Issues are ranked by
+ * TF-IDF cosine similarity over their title and description, after folding common phrasings
+ * into one term. This needs no network beyond Linear itself.
+ *
+ * With SIMILARITY_EMBEDDINGS_URL set to a local OpenAI-compatible embeddings endpoint (Ollama,
+ * llama.cpp's server, LM Studio), issues are also embedded and ranked by embedding similarity;
+ * TF-IDF remains the fallback whenever the endpoint can't be reached.
+ *
+ * The first refresh loads the most recently updated issues; later refreshes only ask Linear
+ * for issues updated since the newest one already indexed.
+ */
+
+import type { LinearClient } from "@linear/sdk";
+
+// Issues loaded by the first refresh (most recently updated first)
+const MAX_INDEXED_ISSUES = 5000;
+const PAGE_SIZE = 100;
+const EMBED_BATCH_SIZE = 32;
+// Characters of title + description sent to the embedding model
+const EMBED_MAX_CHARS = 2000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The fields of a Linear issue the index keeps. */
+export interface IndexedIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description: string;
+  url: string;
+  /** Workflow state name, e.g. "In Progress". */
+  state: string;
+  /** Workflow state type: triage, backlog, unstarted, started, completed or canceled. */
+  stateType: string;
+  updatedAt: string;
+  /** Set when the issue was archived or deleted; the index drops it. */
+  archivedAt?: string | null;
+}
+
+export interface SimilarIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  url: string;
+  state: string;
+  /** Cosine similarity between 0 and 1. */
+  score: number;
+}
+
+/** Loads issues updated after the given time, or the most recent ones when it's undefined. */
+export type FetchIssues = (updatedAfter: string | undefined) => Promise<IndexedIssue[]>;
+
+/** Turns texts into embedding vectors, one per text. */
+export type Embed = (texts: string[]) => Promise<number[][]>;
+
+export interface IssueIndex {
+  /** Pull changes from Linear. Calls within `refreshIntervalMs` of the last one do nothing. */
+  refresh(): Promise<void>;
+  /** Indexed issues ranked by similarity to `text`, best first. */
+  findSimilar(text: string, options?: { limit?: number; minScore?: number }): Promise<{ issues: SimilarIssue[]; method: "embeddings" | "tf-idf" }>;
+  readonly size: number;
+}
+
+// ---------------------------------------------------------------------------
+// Text Processing
+// ---------------------------------------------------------------------------
+
+// Phrasings folded into one term before tokenizing, so paraphrases share vocabulary
+const PHRASES: Array<[RegExp, string]> = [
+  [/\b(?:log|logg|sign)(?:s|ed|ing)?[\s-]?(?:in|on)\b/g, " login "],
+  [/\b(?:log|logg|sign)(?:s|ed|ing)?[\s-]?out\b/g, " logout "],
+  [/\b(?:can'?t|cannot|unable to|won'?t|doesn'?t|does not|isn'?t|not)\b/g, " not "],
+];
+
+// Words with the same meaning in bug reports, mapped to one canonical term (after stemming)
+const SYNONYMS: Record<string, string> = {
+  signin: "login",
+  logon: "login",
+  auth: "login",
+  authentic: "login",
+  authenticat: "login",
+  sso: "login",
+  signout: "logout",
+  pwd: "password",
+  passwd: "password",
+  freez: "crash",
+  hang: "crash",
+  lag: "slow",
+  lagg: "slow",
+  latency: "slow",
+  sluggish: "slow",
+  fail: "error",
+  failur: "error",
+  broken: "error",
+  err: "error",
+  remov: "delet",
+  eras: "delet",
+  download: "export",
+  attach: "upload",
+  attachment: "upload",
+};
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "been", "but", "by", "for", "from", "has", "have", "i", "if", "in",
+  "into", "is", "it", "its", "me", "my", "of", "on", "or", "our", "so", "that", "the", "their", "then", "there",
+  "this", "to", "was", "we", "were", "when", "which", "with", "you", "your", "just", "also", "any", "some",
+  "get", "got", "still", "again", "very", "really", "please", "thanks", "hi", "hey",
+]);
+
+// Crude suffix stripping: enough to match "exports"/"exporting"/"exported"
+function stem(word: string): string {
+  for (const suffix of ["ations", "ation", "ing", "ed", "es", "s", "e"]) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) return word.slice(0, -suffix.length);
+  }
+  return word;
+}
+
+export function tokenize(text: string): string[] {
+  let normalized = text.toLowerCase().replace(/’/g, "'");
+  for (const [pattern, replacement] of PHRASES) normalized = normalized.replace(pattern, replacement);
+  return normalized
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map((word) => {
+      const stemmed = stem(word);
+      return SYNONYMS[stemmed] ?? SYNONYMS[word] ?? stemmed;
+    });
+}
+
+// The title counts twice: it's the issue's summary
+function issueTokens(issue: Pick<IndexedIssue, "title" | "description">): string[] {
+  const title = tokenize(issue.title);
+  return [...title, ...title, ...tokenize(issue.description)];
+}
+
+function termCounts(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+  return counts;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function embeddingText(issue: Pick<IndexedIssue, "title" | "description">): string {
+  return `${issue.title}\n\n${issue.description}`.slice(0, EMBED_MAX_CHARS);
+}
+
+// ---------------------------------------------------------------------------
+// Index
+// ---------------------------------------------------------------------------
+
+interface Entry {
+  issue: IndexedIssue;
+  terms: Map<string, number>;
+  vector?: number[];
+}
+
+export function createIssueIndex(
+  fetchIssues: FetchIssues,
+  options: { embed?: Embed; refreshIntervalMs?: number; log?: (message: string) => void } = {}
+): IssueIndex {
+  const entries = new Map<string, Entry>();
+  // Number of indexed issues each term appears in
+  const documentFrequency = new Map<string, number>();
+  const refreshIntervalMs = options.refreshIntervalMs ?? 60_000;
+  const log = options.log ?? ((message: string) => console.log(`[IssueIndex] ${message}`));
+
+  let newestUpdate: string | undefined;
+  let lastRefresh = 0;
+  let refreshing: Promise<void> | null = null;
+  // Switched off after a failed embedding call until the next refresh tries again
+  let embeddingsWork = !!options.embed;
+
+  function remove(id: string): void {
+    const entry = entries.get(id);
+    if (!entry) return;
+    for (const term of entry.terms.keys()) {
+      const df = (documentFrequency.get(term) ?? 1) - 1;
+      if (df > 0) documentFrequency.set(term, df);
+      else documentFrequency.delete(term);
+    }
+    entries.delete(id);
+  }
+
+  function add(issue: IndexedIssue): Entry {
+    const entry: Entry = { issue, terms: termCounts(issueTokens(issue)) };
+    for (const term of entry.terms.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    entries.set(issue.id, entry);
+    return entry;
+  }
+
+  async function embedEntries(pending: Entry[]): Promise<void> {
+    if (!options.embed) return;
+    embeddingsWork = true;
+    try {
+      for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+        const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+        const vectors = await options.embed(batch.map((e) => embeddingText(e.issue)));
+        batch.forEach((entry, j) => { entry.vector = vectors[j]; });
+      }
+    } catch (error) {
+      embeddingsWork = false;
+      log(`Embedding failed, ranking with TF-IDF: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async function pull(): Promise<void> {
+    const changed = await fetchIssues(newestUpdate);
+    const pending: Entry[] = [];
+    for (const issue of changed) {
+      remove(issue.id);
+      if (!issue.archivedAt) pending.push(add(issue));
+      if (!newestUpdate || issue.updatedAt > newestUpdate) newestUpdate = issue.updatedAt;
+    }
+    // Issues a failed call left without a vector are retried with the changed ones
+    await embedEntries([...entries.values()].filter((e) => !e.vector));
+    lastRefresh = Date.now();
+    if (changed.length > 0) log(`Indexed ${changed.length} changed issue(s), ${entries.size} in total`);
+  }
+
+  function refresh(): Promise<void> {
+    if (refreshing) return refreshing;
+    if (Date.now() - lastRefresh < refreshIntervalMs) return Promise.resolve();
+    refreshing = pull().finally(() => { refreshing = null; });
+    return refreshing;
+  }
+
+  function rankByTfIdf(text: string): Array<{ entry: Entry; score: number }> {
+    const n = entries.size;
+    const idf = (term: string) => Math.log((n + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1;
+    const weight = (count: number, term: string) => (1 + Math.log(count)) * idf(term);
+
+    const query = termCounts(tokenize(text));
+    const queryWeights = new Map([...query].map(([term, count]) => [term, weight(count, term)]));
+    const queryNorm = Math.sqrt([...queryWeights.values()].reduce((sum, w) => sum + w * w, 0));
+    if (queryNorm === 0) return [];
+
+    return [...entries.values()].map((entry) => {
+      let dot = 0;
+      let norm = 0;
+      for (const [term, count] of entry.terms) {
+        const w = weight(count, term);
+        norm += w * w;
+        const q = queryWeights.get(term);
+        if (q) dot += q * w;
+      }
+      return { entry, score: dot === 0 ? 0 : dot / (Math.sqrt(norm) * queryNorm) };
+    });
+  }
+
+  async function rankByEmbeddings(text: string): Promise<Array<{ entry: Entry; score: number }> | null> {
+    if (!options.embed || !embeddingsWork) return null;
+    const all = [...entries.values()];
+    if (all.some((e) => !e.vector)) return null;
+    try {
+      const [query] = await options.embed([text.slice(0, EMBED_MAX_CHARS)]);
+      return all.map((entry) => ({ entry, score: cosine(query, entry.vector!) }));
+    } catch (error) {
+      log(`Embedding the query failed, ranking with TF-IDF: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  return {
+    refresh,
+    async findSimilar(text, { limit = 5, minScore } = {}) {
+      const byEmbeddings = await rankByEmbeddings(text);
+      const method = byEmbeddings ? "embeddings" as const : "tf-idf" as const;
+      // Embedding similarities of unrelated texts are rarely near zero, so their cut-off is higher
+      const threshold = minScore ?? (byEmbeddings ? 0.5 : 0.1);
+      const issues = (byEmbeddings ?? rankByTfIdf(text))
+        .filter((r) => r.score >= threshold)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ entry: { issue }, score }) => ({
+          id: issue.id,
+          identifier: issue.identifier,
+          title: issue.title,
+          url: issue.url,
+          state: issue.state,
+          score: Math.round(score * 100) / 100,
+        }));
+      return { issues, method };
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Sources
+// ---------------------------------------------------------------------------
+
+const ISSUE_INDEX_QUERY = `
+  query IssueIndexPage($filter: IssueFilter, $first: Int, $after: String) {
+    issues(filter: $filter, first: $first, after: $after, includeArchived: true, orderBy: updatedAt) {
+      nodes { id identifier title description url updatedAt archivedAt state { name type } }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+interface IssueIndexPage {
+  issues: {
+    nodes: Array<Omit<IndexedIssue, "state" | "stateType" | "description"> & { description?: string | null; state?: { name: string; type: string } | null }>;
+    pageInfo: { hasNextPage: boolean; endCursor?: string | null };
+  };
+}
+
+/**
+ * Issues of one project, or of a whole team when `projectId` is empty. One GraphQL query per
+ * page of 100, with the workflow state included, instead of a request per issue.
+ */
+export function linearIssueSource(client: LinearClient, scope: { teamId: string; projectId: string }): FetchIssues {
+  return async (updatedAfter) => {
+    const filter = {
+      ...(scope.projectId ? { project: { id: { eq: scope.projectId } } } : { team: { id: { eq: scope.teamId } } }),
+      ...(updatedAfter && { updatedAt: { gt: updatedAfter } }),
+    };
+    const issues: IndexedIssue[] = [];
+    let after: string | undefined;
+    do {
+      const { data } = await client.client.rawRequest<IssueIndexPage, Record<string, unknown>>(ISSUE_INDEX_QUERY, { filter, first: PAGE_SIZE, after });
+      if (!data) break;
+      issues.push(...data.issues.nodes.map(({ description, state, ...issue }) => ({
+        ...issue,
+        description: description ?? "",
+        state: state?.name ?? "Unknown",
+        stateType: state?.type ?? "",
+      })));
+      after = data.issues.pageInfo.hasNextPage ? data.issues.pageInfo.endCursor ?? undefined : undefined;
+    } while (after && issues.length < MAX_INDEXED_ISSUES);
+    return issues;
+  };
+}
+
+/** Embeddings from an OpenAI-compatible `/v1/embeddings` endpoint, e.g. a local Ollama. */
+export function embeddingClient(url: string, model: string): Embed {
+  return async (texts) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, input: texts }),
+      signal: AbortSignal.timeout(30_000),
+    });
+    if (!response.ok) throw new Error(`${url} returned ${response.status}`);
+    const body = (await response.json()) as { data?: Array<{ embedding: number[]; index?: number }> };
+    if (!body.data || body.data.length !== texts.length) throw new Error(`${url} returned no embeddings`);
+    return [...body.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).map((d) => d.embedding);
+  };
+}
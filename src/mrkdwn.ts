@@ -0,0 +1,48 @@
+/**
+ * mrkdwn.ts — Convert Linear's Markdown to Slack's mrkdwn.
+ *
+ * Slack only understands a small subset of formatting with its own syntax (`*bold*`,
+ * `_italic_`, `~strike~`, `<url|text>`), and treats `&`, `<` and `>` as control characters.
+ * Code spans and fenced blocks are passed through untouched apart from that escaping.
+ */
+
+// Stand-in for bold markers while single-asterisk italics are converted
+const BOLD = "\u0001";
+
+function escape(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function convertInline(text: string): string {
+  return escape(text)
+    // Images and links
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_, alt: string, url: string) => (alt ? `<${url}|${alt}>` : `<${url}>`))
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, "<$2|$1>")
+    // Block-level: headings become bold lines, list bullets become "•", quotes keep Slack's ">"
+    .replace(/^#{1,6}\s+(.+?)\s*#*$/gm, (_, heading: string) => `${BOLD}${heading.replace(/\*\*|__/g, "")}${BOLD}`)
+    .replace(/^(\s*)[-*+]\s+\[[ ]\]\s+/gm, "$1☐ ")
+    .replace(/^(\s*)[-*+]\s+\[[xX]\]\s+/gm, "$1☑ ")
+    .replace(/^(\s*)[-*+]\s+/gm, "$1• ")
+    .replace(/^&gt;\s?/gm, "> ")
+    // Emphasis
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a: string | undefined, b: string | undefined) => `${BOLD}${a ?? b}${BOLD}`)
+    .replace(/(?<![*\w])\*(?!\s)(.+?)(?<!\s)\*(?![*\w])/g, "_$1_")
+    .replace(/~~(.+?)~~/g, "~$1~")
+    .replaceAll(BOLD, "*");
+}
+
+/** Convert a Markdown string (as written in Linear) to Slack mrkdwn. */
+export function markdownToMrkdwn(markdown: string): string {
+  // Odd segments are fenced code blocks, which keep their content but lose the language tag
+  return markdown
+    .split(/(```[\s\S]*?```)/g)
+    .map((segment, i) => {
+      if (i % 2 === 1) return escape(segment.replace(/^```[\w+-]*\n/, "```\n"));
+      // Odd pieces are inline code spans
+      return segment
+        .split(/(`[^`\n]+`)/g)
+        .map((piece, j) => (j % 2 === 1 ? escape(piece) : convertInline(piece)))
+        .join("");
+    })
+    .join("");
+}
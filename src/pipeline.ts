@@ -0,0 +1,2188 @@
+/**
+ * pipeline.ts — Routing and handling of Slack message events.
+ *
+ * Decides what each incoming Slack event is (new message, thread reply, @mention command,
+ * edit, delete, trigger reaction, button click), queues it, and runs the matching agent function. The Bolt app in index.ts
+ * and the offline replay harness in replay.ts drive events through the same code.
+ */
+
+import type * as Agent from "./agent.js";
+import type { TriageImage, TriageResult } from "./agent.js";
+import type { KnownBlock, ModalView } from "@slack/bolt";
+import {
+  DRAFT_ACTIONS,
+  DRAFT_EDIT_VIEW,
+  draftEditView,
+  draftResolvedBlocks,
+  draftReviewBlocks,
+  parseActionValue,
+  parseDraftEdits,
+  PRIORITY_NAMES,
+  TRIAGE_ACTIONS,
+  type DraftEdits,
+  type TriageActionId,
+} from "./blocks.js";
+import appConfig, { isDirectMessageChannel, type ReactionAction } from "./config.js";
+import type { IssueDraft, ThreadTicketInfo, TrackingStore } from "./store.js";
+import { isDryRun, recordDecision, type DecisionMessage } from "./dryRun.js";
+import { createScheduler } from "./scheduler.js";
+import { describeDeadLetter, type QueuedJob, type QueueStore } from "./queueStore.js";
+import { DEFAULT_RETRY_POLICY, isAbortError, isTransientError, retryDelayMs, type RetryPolicy } from "./retry.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A message as returned by conversations.replies / conversations.history. */
+export interface SlackApiMessage {
+  text?: string;
+  user?: string;
+  ts?: string;
+  thread_ts?: string;
+  bot_id?: string;
+  subtype?: string;
+  reply_users?: string[];
+  reactions?: Array<{ name?: string }>;
+  files?: unknown[];
+  attachments?: unknown[];
+}
+
+/** The subset of the Slack Web API the pipeline uses (satisfied by Bolt's app.client). */
+export interface SlackClient {
+  conversations: {
+    info(args: { channel: string }): Promise<{ channel?: { is_member?: boolean } }>;
+    replies(args: { channel: string; ts: string; limit?: number }): Promise<{ messages?: SlackApiMessage[] }>;
+    history(args: { channel: string; oldest?: string; limit?: number; cursor?: string }): Promise<{
+      messages?: SlackApiMessage[];
+      response_metadata?: { next_cursor?: string };
+    }>;
+  };
+  reactions: {
+    add(args: { channel: string; timestamp: string; name: string }): Promise<unknown>;
+    remove(args: { channel: string; timestamp: string; name: string }): Promise<unknown>;
+  };
+  chat: {
+    postMessage(args: { channel: string; text: string; thread_ts?: string }): Promise<unknown>;
+    update(args: { channel: string; ts: string; text: string; blocks?: KnownBlock[] }): Promise<unknown>;
+  };
+  views: {
+    open(args: { trigger_id: string; view: ModalView }): Promise<unknown>;
+  };
+}
+
+/** Agent functions the pipeline calls (agent.ts in production, fakes in the replay harness). */
+export type AgentHandlers = Pick<
+  typeof Agent,
+  | "triageMessage"
+  | "handleThreadReply"
+  | "triageOrphanThreadReply"
+  | "handleDeferredFollowup"
+  | "handleInfoFollowup"
+  | "handleDirectCommand"
+  | "handleMessageEdit"
+  | "handleMessageDelete"
+  | "uploadImageToLinearCdn"
+  | "setIssuePriority"
+  | "assignIssueToSlackUser"
+  | "undoLastOperations"
+  | "createIssueFromDraft"
+>;
+
+export type QueuedMessage = {
+  type: "new" | "thread_reply" | "orphan_thread" | "deferred_followup" | "info_followup" | "direct_command" | "message_edited" | "message_deleted" | "reaction" | "undo" | "block_action" | "draft";
+  data: Record<string, unknown>;
+};
+
+export interface PipelineDeps {
+  client: SlackClient;
+  store: TrackingStore;
+  agent: AgentHandlers;
+  botUserId: string;
+  isMonitoredChannel(channel: string): boolean;
+  /** Durable copy of the queue and the dead-letter list. */
+  queue: QueueStore;
+  retryPolicy?: RetryPolicy;
+  /** Slack user IDs allowed to run admin commands (dead-letter inspection and replay). */
+  adminUserIds?: string[];
+  /** Called whenever an event is queued (used by the replay harness to report routing). */
+  onEnqueue?(item: QueuedMessage): void;
+  /** Sends an ephemeral reply to a shortcut's or slash command's response_url (defaults to an HTTP POST). */
+  respond?(responseUrl: string, text: string): Promise<void>;
+}
+
+/** callback_id of the "Send to Linear" message shortcut (see slack-app-manifest.yaml). */
+export const SEND_TO_LINEAR_SHORTCUT = "send_to_linear";
+
+/** Slash command that triages the message a link points to. */
+export const TRIAGE_COMMAND = "/triage";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Parse a Slack message URL to extract channel ID and thread timestamp
+function parseSlackUrl(url: string): { channelId: string; messageTs: string; threadTs?: string } | null {
+  try {
+    const match = url.match(/\/archives\/([A-Z0-9]+)\/p(\d+)/i);
+    if (!match) return null;
+
+    const channelId = match[1];
+    const rawTs = match[2];
+    const messageTs = rawTs.length > 6
+      ? `${rawTs.slice(0, -6)}.${rawTs.slice(-6)}`
+      : rawTs;
+
+    const urlObj = new URL(url);
+    const threadTs = urlObj.searchParams.get("thread_ts") || undefined;
+
+    return { channelId, messageTs, threadTs };
+  } catch {
+    return null;
+  }
+}
+
+// Fetch thread messages from a channel (for forwarded message context)
+async function fetchThreadContext(
+  client: SlackClient,
+  channelId: string,
+  threadTs: string,
+  limit = 30
+): Promise<{ messages: string[]; success: boolean; error?: string }> {
+  try {
+    const result = await client.conversations.replies({
+      channel: channelId,
+      ts: threadTs,
+      limit,
+    });
+
+    if (!result.messages || result.messages.length === 0) {
+      return { messages: [], success: true };
+    }
+
+    const messages = result.messages.map((m) => {
+      const isBot = !!(m as { bot_id?: string }).bot_id;
+      const user = isBot ? "Bot" : (m as { user?: string }).user || "Unknown";
+      return `[${user}]: ${m.text || "(no text)"}`;
+    });
+
+    return { messages, success: true };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : "Unknown error";
+    console.log(`Could not fetch thread context from ${channelId}: ${errorMsg}`);
+    return { messages: [], success: false, error: errorMsg };
+  }
+}
+
+// Reply privately to whoever used a shortcut or slash command (response URLs work in any
+// channel, even ones the bot isn't in)
+async function postToResponseUrl(responseUrl: string, text: string): Promise<void> {
+  const res = await fetch(responseUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ response_type: "ephemeral", replace_original: false, text }),
+  });
+  if (!res.ok) throw new Error(`response_url returned ${res.status}`);
+}
+
+// What the requester of a shortcut or /triage is told once the message has been triaged
+function requestOutcomeText(result: TriageResult, messageUrl: string): string {
+  const ticket = result.ticketUrl ? `<${result.ticketUrl}|${result.ticketIdentifier}>` : result.ticketIdentifier;
+  const message = `<${messageUrl}|that message>`;
+  switch (result.action) {
+    case "created": return `Created ${ticket} from ${message}.`;
+    case "duplicate": return `${message} is already tracked in ${ticket}; I added it there.`;
+    case "drafted": return `Drafted a ticket from ${message} for the team to review.`;
+    case "needs_info": return `I asked for more details in ${message}'s thread; the ticket follows once they answer.`;
+    case "deferred": return `I left ${message} for the team to answer.`;
+    case "skipped": return `Nothing to file for ${message}.`;
+    default: return `Couldn't triage ${message}: ${result.message.substring(0, 200)}`;
+  }
+}
+
+// Extract Linear ticket info from thread messages (look for bot messages with ticket links)
+function extractTicketFromThread(messages: Array<{ text?: string; bot_id?: string }>): {
+  ticketId?: string;
+  ticketIdentifier?: string;
+  ticketUrl?: string;
+} | null {
+  // Build regex dynamically from config's Linear organization
+  const linearOrgPattern = appConfig.linearOrganization.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const urlRegex = new RegExp(`https:\\/\\/linear\\.app\\/${linearOrgPattern}\\/issue\\/([A-Z]+-\\d+)(?:\\/[^\\s|>)]+)?`);
+
+  for (const msg of messages) {
+    if (!msg.text) continue;
+
+    const urlMatch = msg.text.match(urlRegex);
+    if (urlMatch) {
+      const ticketIdentifier = urlMatch[1];
+      const ticketUrl = urlMatch[0].replace(/[|>]+$/, '');
+      return {
+        ticketIdentifier,
+        ticketUrl,
+      };
+    }
+  }
+  return null;
+}
+
+// Ordering key for a queued event: its thread (the message itself for top-level messages),
+// so edits, deletes and replies never overtake the event that created the thread. A "new"
+// job for a thread reply (triage on request) runs in that thread.
+function threadKey(item: QueuedMessage): string {
+  const { data } = item;
+  const root = item.type === "new"
+    ? data.threadTs ?? data.ts
+    : item.type === "message_edited" || item.type === "message_deleted" || item.type === "reaction"
+      ? data.threadTs ?? data.messageTs
+      : data.threadTs;
+  return `${data.channel}:${root}`;
+}
+
+// Check if a message has the robot_face reaction (from history response data)
+function hasRobotReaction(msg: { reactions?: Array<{ name: string }> }): boolean {
+  return (msg.reactions || []).some((r) => r.name === "robot_face");
+}
+
+// Runs that tie a thread (or message) to a ticket; undoing one also drops that mapping
+const MAPPING_RUNS = ["triage", "orphan_thread", "deferred_followup", "info_followup"];
+
+// Ends the undo reply when a thread's mapping is dropped, so rebuildThreadMapping doesn't
+// restore it from the bot's earlier "created" reply
+const UNTRACKED_NOTE = "No longer tracking";
+
+// "@bot undo" (with nothing else after the mention)
+function isUndoCommand(text?: string): boolean {
+  return /^undo[.!]?$/i.test((text ?? "").replace(/<@[A-Z0-9]+>/g, "").trim());
+}
+
+// Check if a message should be processed (filters out bots, thread replies, system messages)
+function isProcessableMessage(msg: {
+  text?: string;
+  bot_id?: string;
+  subtype?: string;
+  thread_ts?: string;
+  ts?: string;
+  files?: unknown[];
+  attachments?: unknown[];
+}): boolean {
+  if (msg.bot_id || msg.subtype === "bot_message") return false;
+  if (msg.thread_ts && msg.thread_ts !== msg.ts) return false;
+
+  const hasContent = msg.text || (msg.files && msg.files.length > 0) || (msg.attachments && (msg.attachments as unknown[]).length > 0);
+  if (!hasContent) return false;
+
+  const skipSubtypes = ["channel_join", "channel_leave", "channel_topic", "channel_purpose"];
+  if (msg.subtype && skipSubtypes.includes(msg.subtype)) return false;
+  if (msg.subtype && msg.subtype !== "file_share") return false;
+
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Pipeline
+// ---------------------------------------------------------------------------
+
+export function createPipeline(deps: PipelineDeps) {
+  const { client, store, agent, botUserId } = deps;
+  const respond = deps.respond ?? postToResponseUrl;
+
+  // Monitored channels, plus DMs to the bot when direct-message intake is on
+  const isWatchedChannel = (channel: string) =>
+    deps.isMonitoredChannel(channel) || (appConfig.directMessages.enabled && isDirectMessageChannel(channel));
+
+  const retryPolicy = deps.retryPolicy ?? DEFAULT_RETRY_POLICY;
+
+  // Independent threads run in parallel (up to maxConcurrentRuns); events in one thread run in order.
+  // Every job is also kept in deps.queue until it has been handled, so nothing is lost on restart.
+  const scheduler = createScheduler<QueuedJob>({
+    keyOf: threadKey,
+    run: processJob,
+    concurrency: () => appConfig.maxConcurrentRuns,
+    notBefore: (job) => job.notBefore,
+  });
+  const scheduledIds = new Set<number>();
+  // Threads whose clarification wait has run out and that are queued to be filed
+  const timeoutsQueued = new Set<string>();
+  let stopping = false;
+
+  function schedule(job: QueuedJob): void {
+    scheduledIds.add(job.id);
+    scheduler.push(job);
+  }
+
+  function enqueue(item: QueuedMessage): void {
+    const job = deps.queue.add(item);
+    // While shutting down, events are only persisted; they run on the next start
+    if (!stopping) schedule(job);
+    deps.onEnqueue?.(item);
+  }
+
+  // Stop starting jobs and wait up to `timeoutMs` for the running ones. Resolves true once
+  // they have all finished, false on timeout. Unfinished jobs stay in deps.queue.
+  async function stop(timeoutMs: number): Promise<boolean> {
+    stopping = true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<false>((resolve) => { timer = setTimeout(() => resolve(false), timeoutMs); });
+    try {
+      return await Promise.race([scheduler.stop().then(() => true as const), timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Schedule persisted jobs this process doesn't know about yet: leftovers from before a
+  // restart, or dead letters revived from the CLI. Returns how many were picked up; they
+  // start with the next processQueue().
+  function resumePersisted(): number {
+    if (stopping) return 0;
+    const jobs = deps.queue.pending().filter((job) => !scheduledIds.has(job.id));
+    for (const job of jobs) schedule(job);
+    return jobs.length;
+  }
+
+  // Transient failures are retried with exponential backoff; anything else, or a job out of
+  // attempts, goes to the dead-letter list
+  async function processJob(job: QueuedJob): Promise<void> {
+    try {
+      await processItem(job);
+      deps.queue.complete(job.id);
+      scheduledIds.delete(job.id);
+    } catch (error) {
+      const attempts = job.attempts + 1;
+      const lastError = error instanceof Error ? error.message : String(error);
+      if (stopping && (isAbortError(error) || isTransientError(error))) {
+        // Aborted by shutdown before writing anything (runs that wrote finish with their partial
+        // result instead); run it again on the next start. Other errors would only fail again.
+        console.log(`[Queue] ${job.type} job #${job.id} interrupted by shutdown - kept for the next start`);
+        scheduledIds.delete(job.id);
+      } else if (isTransientError(error) && attempts < retryPolicy.maxAttempts) {
+        const delay = retryDelayMs(retryPolicy, attempts, error);
+        console.warn(`[Queue] ${job.type} job #${job.id} failed (attempt ${attempts}/${retryPolicy.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${lastError}`);
+        const notBefore = Date.now() + delay;
+        deps.queue.reschedule(job.id, attempts, notBefore, lastError);
+        scheduler.requeue({ ...job, attempts, notBefore, lastError });
+      } else {
+        console.error(`[Queue] ${job.type} job #${job.id} failed after ${attempts} attempt(s) - moved to dead letters:`, error);
+        deps.queue.bury(job.id, attempts, lastError);
+        scheduledIds.delete(job.id);
+      }
+    }
+  }
+
+  // Start queued items; resolves once nothing is queued or running
+  function processQueue(): Promise<void> {
+    return scheduler.drain();
+  }
+
+  async function processItem(item: QueuedMessage): Promise<void> {
+    if (item.type === "new") {
+      await processNewMessage(item.data);
+    } else if (item.type === "thread_reply") {
+      await processThreadReplyHandler(item.data);
+    } else if (item.type === "orphan_thread") {
+      await processOrphanThreadHandler(item.data);
+    } else if (item.type === "deferred_followup") {
+      await processDeferredFollowupHandler(item.data);
+    } else if (item.type === "info_followup") {
+      await processInfoFollowupHandler(item.data);
+    } else if (item.type === "direct_command") {
+      await processDirectCommandHandler(item.data);
+    } else if (item.type === "message_edited") {
+      await processEditedMessageHandler(item.data);
+    } else if (item.type === "message_deleted") {
+      await processDeletedMessageHandler(item.data);
+    } else if (item.type === "reaction") {
+      await processReactionHandler(item.data);
+    } else if (item.type === "undo") {
+      await processUndoHandler(item.data);
+    } else if (item.type === "block_action") {
+      await processBlockActionHandler(item.data);
+    } else if (item.type === "draft") {
+      await processDraftHandler(item.data);
+    }
+  }
+
+  // Reply in a thread, or record the reply in dry-run mode
+  async function postReply(message: DecisionMessage, channel: string, threadTs: string, text: string): Promise<void> {
+    if (isDryRun()) {
+      recordDecision(message, "slack_reply_in_thread", { channel, threadTs, text });
+    } else {
+      await client.chat.postMessage({ channel, thread_ts: threadTs, text });
+    }
+  }
+
+  // Rebuild a thread's ticket mapping from the bot's own replies when the store has no entry
+  // (expired, or tracked before the store existed). Returns null if no ticket link is found.
+  async function rebuildThreadMapping(
+    channel: string,
+    threadTs: string
+  ): Promise<ThreadTicketInfo | null> {
+    try {
+      const result = await client.conversations.replies({
+        channel,
+        ts: threadTs,
+        limit: 50,
+      });
+      const messages = (result.messages || []) as Array<{ text?: string; bot_id?: string; user?: string; ts?: string }>;
+      const botReplies = messages.filter((m) => m.bot_id);
+      const ticket = extractTicketFromThread(botReplies);
+      if (!ticket?.ticketIdentifier) return null;
+      if (botReplies.some((m) => m.text?.includes(`${UNTRACKED_NOTE} ${ticket.ticketIdentifier} `))) return null;
+
+      const parent = messages.find((m) => m.ts === threadTs);
+      const ticketReply = botReplies.find((m) => m.text?.includes(ticket.ticketIdentifier!));
+      const isDuplicate = !!ticketReply?.text?.toLowerCase().includes("existing ticket");
+
+      const info: ThreadTicketInfo = {
+        ticketId: ticket.ticketIdentifier,
+        ticketIdentifier: ticket.ticketIdentifier,
+        createdAt: Date.now(),
+        isDuplicate,
+        isDeferred: false,
+        originalReporterId: parent?.user,
+        channel,
+      };
+      store.setThread(threadTs, info);
+      if (!store.getMessage(threadTs)) {
+        store.setMessage(threadTs, {
+          ticketId: ticket.ticketIdentifier,
+          ticketIdentifier: ticket.ticketIdentifier,
+          ticketUrl: ticket.ticketUrl,
+          createdAt: Date.now(),
+          wasTriaged: true,
+          action: isDuplicate ? "duplicate" : "created",
+        });
+      }
+      console.log(`[Store] Rebuilt mapping for thread ${threadTs} from bot reply (ticket: ${ticket.ticketIdentifier})`);
+      return info;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : "Unknown error";
+      console.log(`[Store] Could not rebuild mapping for thread ${threadTs}: ${errorMsg}`);
+      return null;
+    }
+  }
+
+  // Recover missed messages from downtime (stateless - uses robot_face emoji as marker)
+  async function recoverMissedMessages(channelId: string): Promise<void> {
+    console.log(`Checking for missed messages in ${channelId}...`);
+
+    const sevenDaysAgo = (Date.now() / 1000) - (7 * 24 * 60 * 60);
+    const missedMessages: Array<{
+      text?: string;
+      user?: string;
+      ts?: string;
+      channel?: string;
+      files?: unknown[];
+      attachments?: unknown[];
+    }> = [];
+    let cursor: string | undefined;
+    let foundLastProcessed = false;
+
+    outer: do {
+      const result = await client.conversations.history({
+        channel: channelId,
+        oldest: sevenDaysAgo.toString(),
+        limit: 100,
+        cursor,
+      });
+
+      for (const msg of result.messages || []) {
+        const hasEmoji = hasRobotReaction(msg as { reactions?: Array<{ name: string }> });
+        const hasBotReply = ((msg as { reply_users?: string[] }).reply_users || []).includes(botUserId);
+
+        if (hasEmoji && hasBotReply) {
+          // Reliable watermark — emoji AND bot reply means fully processed
+          foundLastProcessed = true;
+          break outer;
+        }
+
+        if (!isProcessableMessage(msg as Parameters<typeof isProcessableMessage>[0])) continue;
+
+        // Messages with emoji but no bot reply were partially processed (crash after emoji, before reply)
+        // Include them for reprocessing
+        missedMessages.push(msg as typeof missedMessages[0]);
+      }
+
+      cursor = result.response_metadata?.next_cursor;
+      if (cursor) await new Promise((r) => setTimeout(r, 200));
+    } while (cursor);
+
+    if (!foundLastProcessed && missedMessages.length > 0) {
+      console.log("First run detected - skipping historical recovery to avoid flooding");
+      return;
+    }
+
+    if (missedMessages.length === 0) {
+      console.log("No missed messages to recover");
+      return;
+    }
+
+    // Messages whose job survived the restart are resumed from the queue instead
+    const queuedTs = new Set(deps.queue.pending().filter((job) => job.type === "new").map((job) => job.data.ts));
+    missedMessages.reverse();
+    for (const msg of missedMessages) {
+      if (queuedTs.has(msg.ts)) continue;
+      enqueue({
+        type: "new",
+        data: {
+          text: msg.text,
+          user: msg.user,
+          ts: msg.ts,
+          channel: msg.channel || channelId,
+          files: msg.files,
+          attachments: msg.attachments,
+        },
+      });
+    }
+
+    console.log(`Recovered ${missedMessages.length} missed messages - queued for processing`);
+  }
+
+  // Handler for processing new messages (called from queue)
+  async function processNewMessage(data: Record<string, unknown>): Promise<void> {
+    const msg = data as {
+      text: string;
+      user: string;
+      ts: string;
+      channel: string;
+      /** Thread the message is a reply in (set when a reaction asks for a ticket for a reply). */
+      threadTs?: string;
+      /** User who asked for a ticket with a reaction. */
+      forcedBy?: string;
+      /** User who asked for triage with the shortcut or /triage, told the outcome at `responseUrl`. */
+      requestedBy?: string;
+      responseUrl?: string;
+      /** False when the bot isn't in the message's channel and can't reply there. */
+      replyInThread?: boolean;
+      files?: Array<{
+        id: string;
+        name: string;
+        mimetype: string;
+        url_private: string;
+        permalink: string;
+      }>;
+      attachments?: Array<{
+        text?: string;
+        author_name?: string;
+        author_id?: string;
+        from_url?: string;
+        footer?: string;
+        ts?: string;
+      }>;
+    };
+
+    // No reaction in a channel the bot isn't in
+    if (msg.replyInThread !== false) {
+      if (isDryRun()) {
+        recordDecision(
+          { kind: "triage", channel: msg.channel, userId: msg.user, text: msg.text, threadTs: msg.ts, messageTs: msg.ts },
+          "slack_add_reaction",
+          { channel: msg.channel, timestamp: msg.ts, name: "robot_face" }
+        );
+      } else {
+        client.reactions.add({
+          channel: msg.channel,
+          timestamp: msg.ts,
+          name: "robot_face",
+        }).catch((e) => {
+          if (!e.message?.includes("already_reacted")) {
+            console.log("Could not add reaction:", e.message);
+          }
+        });
+      }
+    }
+
+    const threadTs = msg.threadTs ?? msg.ts;
+    const slackMessageUrl = threadTs === msg.ts
+      ? `https://slack.com/archives/${msg.channel}/p${msg.ts.replace(".", "")}`
+      : `https://slack.com/archives/${msg.channel}/p${msg.ts.replace(".", "")}?thread_ts=${threadTs}&cid=${msg.channel}`;
+
+    let forwardedMessage: {
+      text: string;
+      originalAuthorId?: string;
+      originalAuthorName?: string;
+      sourceUrl?: string;
+      threadContext?: string[];
+      threadContextError?: string;
+    } | undefined;
+
+    if (msg.attachments && msg.attachments.length > 0) {
+      const firstAttachment = msg.attachments[0];
+      if (firstAttachment.text) {
+        forwardedMessage = {
+          text: firstAttachment.text,
+          originalAuthorId: firstAttachment.author_id,
+          originalAuthorName: firstAttachment.author_name,
+          sourceUrl: firstAttachment.from_url,
+        };
+        console.log(`Detected forwarded message from ${firstAttachment.author_name || firstAttachment.author_id || "unknown"}`);
+
+        if (firstAttachment.from_url) {
+          const parsed = parseSlackUrl(firstAttachment.from_url);
+          if (parsed) {
+            const threadTs = parsed.threadTs || parsed.messageTs;
+            console.log(`Attempting to fetch thread context from channel ${parsed.channelId}, thread ${threadTs}`);
+
+            const threadResult = await fetchThreadContext(client, parsed.channelId, threadTs);
+            if (threadResult.success && threadResult.messages.length > 0) {
+              forwardedMessage.threadContext = threadResult.messages;
+              console.log(`Fetched ${threadResult.messages.length} messages from source thread`);
+            } else if (!threadResult.success) {
+              forwardedMessage.threadContextError = threadResult.error;
+              console.log(`Could not fetch thread context: ${threadResult.error}`);
+            }
+          }
+        }
+      }
+    }
+
+    const images: TriageImage[] = [];
+    if (msg.files && msg.files.length > 0) {
+      for (const file of msg.files) {
+        if (file.mimetype?.startsWith("image/")) {
+          console.log(`Uploading image to Linear CDN: ${file.name}`);
+          const result = await agent.uploadImageToLinearCdn(
+            file.url_private,
+            file.name,
+            file.mimetype
+          );
+          if (result) {
+            images.push({
+              url: result.url,
+              base64: result.buffer.toString("base64"),
+              contentType: result.contentType,
+            });
+          }
+        }
+      }
+    }
+
+    // Requested triage gets the whole thread, like a forwarded message
+    let threadContext: string[] | undefined;
+    if (msg.requestedBy) {
+      const threadResult = await fetchThreadContext(client, msg.channel, threadTs);
+      if (threadResult.messages.length > 1) threadContext = threadResult.messages;
+    }
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`Processing message from ${msg.user}: ${msg.text ? msg.text.substring(0, 100) : "(no text - forwarded message)"}`);
+    console.log(`Link: ${slackMessageUrl}`);
+    if (forwardedMessage) {
+      console.log(`Forwarded message from: ${forwardedMessage.originalAuthorName || forwardedMessage.originalAuthorId || "unknown"}`);
+      console.log(`Forwarded content: ${forwardedMessage.text.substring(0, 100)}`);
+      if (forwardedMessage.threadContext) {
+        console.log(`Thread context: ${forwardedMessage.threadContext.length} messages from source thread`);
+      } else if (forwardedMessage.threadContextError) {
+        console.log(`Thread context unavailable: ${forwardedMessage.threadContextError}`);
+      }
+    }
+    if (images.length > 0) {
+      console.log(`Images uploaded to Linear CDN (with vision): ${images.length}`);
+    }
+    console.log("=".repeat(60));
+
+    const result = await agent.triageMessage({
+      messageText: msg.text,
+      userId: msg.user,
+      channel: msg.channel,
+      threadTs,
+      messageTs: msg.ts,
+      slackMessageUrl,
+      images,
+      forcedBy: msg.forcedBy,
+      requestedBy: msg.requestedBy,
+      threadContext,
+      replyInThread: msg.replyInThread,
+      forwardedMessage,
+    });
+
+    console.log(`\nTriage result: ${result.action}`);
+    if (result.ticketIdentifier) {
+      console.log(`Ticket: ${result.ticketIdentifier} - ${result.ticketUrl}`);
+    }
+    console.log(`Message: ${result.message.substring(0, 200)}`);
+
+    // A reply in a thread that already tracks a ticket keeps the thread on that ticket
+    const existingThread = threadTs !== msg.ts ? store.getThread(threadTs) : undefined;
+    const ownsThread = !existingThread || existingThread.isDeferred || existingThread.isAwaitingInfo;
+
+    if (msg.replyInThread === false) {
+      // Follow-ups and status updates would have nowhere to go
+      console.log(`Not tracking thread ${threadTs}: the bot isn't in ${msg.channel}`);
+    } else if (!ownsThread) {
+      console.log(`Thread ${threadTs} stays on ticket ${existingThread!.ticketIdentifier}`);
+    } else if ((result.action === "created" || result.action === "duplicate") && (result.ticketId || result.ticketIdentifier)) {
+      store.setThread(threadTs, {
+        ticketId: result.ticketId || result.ticketIdentifier!,
+        ticketIdentifier: result.ticketIdentifier || result.ticketId!,
+        createdAt: Date.now(),
+        isDuplicate: result.action === "duplicate",
+        isDeferred: false,
+        originalReporterId: msg.user,
+        channel: msg.channel,
+      });
+      console.log(`Tracking thread ${threadTs} for ticket ${result.ticketIdentifier || result.ticketId} (${result.action}, isDuplicate: ${result.action === "duplicate"}, reporter: ${msg.user})`);
+    } else if (result.action === "deferred" && !existingThread) {
+      store.setThread(threadTs, {
+        ticketId: "",
+        ticketIdentifier: "",
+        createdAt: Date.now(),
+        isDuplicate: false,
+        isDeferred: true,
+        originalContext: msg.text,
+        originalReporterId: msg.user,
+        channel: msg.channel,
+      });
+      console.log(`Tracking DEFERRED thread ${threadTs} for later follow-up`);
+    } else if (result.action === "needs_info" && !existingThread) {
+      store.setThread(threadTs, {
+        ticketId: "",
+        ticketIdentifier: "",
+        createdAt: Date.now(),
+        isDuplicate: false,
+        isDeferred: false,
+        isAwaitingInfo: true,
+        originalContext: msg.text,
+        originalReporterId: msg.user,
+        channel: msg.channel,
+      });
+      console.log(`Waiting for ${msg.user} to answer the questions in thread ${threadTs}`);
+    }
+
+    store.setMessage(msg.ts, {
+      ticketId: result.ticketId || "",
+      ticketIdentifier: result.ticketIdentifier || "",
+      ticketUrl: result.ticketUrl,
+      createdAt: Date.now(),
+      wasTriaged: result.action === "created" || result.action === "duplicate",
+      action: result.action,
+    });
+    store.cleanup();
+
+    if (msg.responseUrl) {
+      await respondToRequester(
+        { kind: "triage", channel: msg.channel, userId: msg.requestedBy ?? msg.user, text: msg.text, threadTs, messageTs: msg.ts },
+        msg.responseUrl,
+        requestOutcomeText(result, slackMessageUrl)
+      );
+    }
+  }
+
+  // Handler for processing thread replies (called from queue)
+  async function processThreadReplyHandler(data: Record<string, unknown>): Promise<void> {
+    const { replyText, userId, channel, threadTs, messageTs, ticketId, ticketIdentifier, isDuplicate, isSameReporter, files } = data as {
+      replyText: string;
+      userId: string;
+      channel: string;
+      threadTs: string;
+      messageTs: string;
+      ticketId: string;
+      ticketIdentifier: string;
+      isDuplicate: boolean;
+      isSameReporter: boolean;
+      files?: Array<{
+        id: string;
+        name: string;
+        mimetype: string;
+        url_private: string;
+        permalink: string;
+      }>;
+    };
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`Processing thread reply (cached ticket: ${ticketIdentifier}, isDuplicate: ${isDuplicate}, sameReporter: ${isSameReporter})`);
+    console.log(`From: ${userId}`);
+    console.log(`Reply: ${replyText?.substring(0, 100) || "(no text)"}`);
+    console.log("=".repeat(60));
+
+    const imageUrls: string[] = [];
+    if (files && files.length > 0) {
+      for (const file of files) {
+        if (file.mimetype?.startsWith("image/")) {
+          console.log(`Uploading thread reply image to Linear CDN: ${file.name}`);
+          const result = await agent.uploadImageToLinearCdn(
+            file.url_private,
+            file.name,
+            file.mimetype
+          );
+          if (result) {
+            imageUrls.push(result.url);
+          }
+        }
+      }
+      if (imageUrls.length > 0) {
+        console.log(`Uploaded ${imageUrls.length} images from thread reply`);
+      }
+    }
+
+    const threadResult = await client.conversations.replies({
+      channel,
+      ts: threadTs,
+      limit: 20,
+    });
+
+    const extractedTicket = extractTicketFromThread(
+      (threadResult.messages || []) as Array<{ text?: string; bot_id?: string }>
+    );
+
+    const effectiveTicketId = extractedTicket?.ticketIdentifier || ticketId;
+    const effectiveTicketIdentifier = extractedTicket?.ticketIdentifier || ticketIdentifier;
+
+    if (extractedTicket && extractedTicket.ticketIdentifier !== ticketIdentifier) {
+      console.log(`[Thread] Found ticket in thread (${extractedTicket.ticketIdentifier}) differs from cached (${ticketIdentifier}) - using thread ticket`);
+    }
+    console.log(`[Thread] Using ticket: ${effectiveTicketIdentifier}`);
+
+    const threadContext = (threadResult.messages || [])
+      .map((m) => {
+        const isBot = !!(m as { bot_id?: string }).bot_id;
+        return `[${isBot ? "Bot" : "User"}]: ${m.text || "(no text)"}`;
+      })
+      .join("\n");
+
+    await agent.handleThreadReply({
+      replyText: replyText || "",
+      userId,
+      channel,
+      threadTs,
+      messageTs,
+      ticketId: effectiveTicketId,
+      ticketIdentifier: effectiveTicketIdentifier,
+      threadContext,
+      isDuplicate,
+      isSameReporter,
+      imageUrls,
+    });
+  }
+
+  // Handler for orphan thread replies (no tracked ticket - let agent decide)
+  async function processOrphanThreadHandler(data: Record<string, unknown>): Promise<void> {
+    const { replyText, userId, channel, threadTs, messageTs, files } = data as {
+      replyText: string;
+      userId: string;
+      channel: string;
+      threadTs: string;
+      messageTs: string;
+      files?: Array<{
+        id: string;
+        name: string;
+        mimetype: string;
+        url_private: string;
+        permalink: string;
+      }>;
+    };
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`Processing orphan thread reply (no tracked ticket)`);
+    console.log(`From: ${userId}`);
+    console.log(`Reply: ${replyText?.substring(0, 100) || "(no text)"}`);
+    console.log("=".repeat(60));
+
+    const rebuilt = await rebuildThreadMapping(channel, threadTs);
+    if (rebuilt && !rebuilt.isDeferred) {
+      await processThreadReplyHandler({
+        ...data,
+        ticketId: rebuilt.ticketId,
+        ticketIdentifier: rebuilt.ticketIdentifier,
+        isDuplicate: rebuilt.isDuplicate,
+        isSameReporter: rebuilt.originalReporterId === userId,
+      });
+      return;
+    }
+
+    const imageUrls: string[] = [];
+    if (files && files.length > 0) {
+      for (const file of files) {
+        if (file.mimetype?.startsWith("image/")) {
+          console.log(`Uploading orphan thread image to Linear CDN: ${file.name}`);
+          const result = await agent.uploadImageToLinearCdn(
+            file.url_private,
+            file.name,
+            file.mimetype
+          );
+          if (result) {
+            imageUrls.push(result.url);
+          }
+        }
+      }
+      if (imageUrls.length > 0) {
+        console.log(`Uploaded ${imageUrls.length} images from orphan thread`);
+      }
+    }
+
+    const threadResult = await client.conversations.replies({
+      channel,
+      ts: threadTs,
+      limit: 20,
+    });
+
+    const threadContext = (threadResult.messages || [])
+      .map((m) => {
+        const isBot = !!(m as { bot_id?: string }).bot_id;
+        return `[${isBot ? "Bot" : "User"}]: ${m.text || "(no text)"}`;
+      })
+      .join("\n");
+
+    const slackMessageUrl = `https://slack.com/archives/${channel}/p${messageTs.replace(".", "")}?thread_ts=${threadTs}&cid=${channel}`;
+
+    const result = await agent.triageOrphanThreadReply({
+      replyText: replyText || "",
+      userId,
+      channel,
+      threadTs,
+      messageTs,
+      slackMessageUrl,
+      threadContext,
+      imageUrls,
+    });
+
+    console.log(`\nOrphan thread triage result: ${result.action}`);
+    if (result.ticketIdentifier) {
+      console.log(`Ticket: ${result.ticketIdentifier}`);
+    }
+
+    if ((result.action === "created" || result.action === "updated") && result.ticketId) {
+      store.setThread(threadTs, {
+        ticketId: result.ticketId,
+        ticketIdentifier: result.ticketIdentifier || result.ticketId,
+        createdAt: Date.now(),
+        isDuplicate: result.action === "updated",
+        isDeferred: false,
+        originalReporterId: userId,
+        channel,
+      });
+      console.log(`Now tracking thread ${threadTs} for ticket ${result.ticketIdentifier}`);
+    }
+  }
+
+  // Handler for deferred thread follow-ups
+  async function processDeferredFollowupHandler(data: Record<string, unknown>): Promise<void> {
+    const { replyText, userId, channel, threadTs, messageTs, files, originalContext } = data as {
+      replyText: string;
+      userId: string;
+      channel: string;
+      threadTs: string;
+      messageTs: string;
+      files?: Array<{
+        id: string;
+        name: string;
+        mimetype: string;
+        url_private: string;
+        permalink: string;
+      }>;
+      originalContext?: string;
+    };
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`Processing deferred thread follow-up`);
+    console.log(`From: ${userId}`);
+    console.log(`Reply: ${replyText?.substring(0, 100) || "(no text)"}`);
+    console.log("=".repeat(60));
+
+    const imageUrls: string[] = [];
+    if (files && files.length > 0) {
+      for (const file of files) {
+        if (file.mimetype?.startsWith("image/")) {
+          const result = await agent.uploadImageToLinearCdn(
+            file.url_private,
+            file.name,
+            file.mimetype
+          );
+          if (result) {
+            imageUrls.push(result.url);
+          }
+        }
+      }
+    }
+
+    const threadResult = await client.conversations.replies({
+      channel,
+      ts: threadTs,
+      limit: 30,
+    });
+
+    const threadContext = (threadResult.messages || [])
+      .map((m) => {
+        const isBot = !!(m as { bot_id?: string }).bot_id;
+        return `[${isBot ? "Bot" : "User"}]: ${m.text || "(no text)"}`;
+      })
+      .join("\n");
+
+    const result = await agent.handleDeferredFollowup({
+      replyText: replyText || "",
+      userId,
+      channel,
+      threadTs,
+      messageTs,
+      threadContext,
+      originalContext,
+      imageUrls,
+    });
+
+    console.log(`\nDeferred follow-up result: ${result.action}`);
+
+    if (result.action === "created" && result.ticketId) {
+      const existing = store.getThread(threadTs);
+      if (existing) {
+        store.setThread(threadTs, {
+          ...existing,
+          ticketId: result.ticketId,
+          ticketIdentifier: result.ticketIdentifier || result.ticketId,
+          isDeferred: false,
+        });
+        console.log(`Thread ${threadTs} upgraded from DEFERRED to TRACKED (ticket: ${result.ticketIdentifier})`);
+      }
+    }
+  }
+
+  // Handler for a reporter's answer to the bot's clarifying questions, or for the wait timing out
+  async function processInfoFollowupHandler(data: Record<string, unknown>): Promise<void> {
+    const { reason, replyText, userId, channel, threadTs, messageTs, files } = data as {
+      reason: "answered" | "timeout";
+      replyText?: string;
+      userId: string;
+      channel: string;
+      threadTs: string;
+      messageTs?: string;
+      files?: Array<{
+        id: string;
+        name: string;
+        mimetype: string;
+        url_private: string;
+        permalink: string;
+      }>;
+    };
+
+    const thread = store.getThread(threadTs);
+    if (!thread?.isAwaitingInfo) {
+      // Already filed (e.g. the reporter answered twice); a later answer is a normal reply
+      if (reason === "answered" && thread && !thread.isDeferred) {
+        await processThreadReplyHandler({
+          ...data,
+          ticketId: thread.ticketId,
+          ticketIdentifier: thread.ticketIdentifier,
+          isDuplicate: thread.isDuplicate,
+          isSameReporter: thread.originalReporterId === userId,
+        });
+      } else {
+        console.log(`[Info] Thread ${threadTs} is no longer waiting for details - skipping`);
+      }
+      return;
+    }
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(reason === "timeout" ? `[Info] No answer in thread ${threadTs} - filing with what we have` : `[Info] ${userId} answered in thread ${threadTs}`);
+    if (replyText) console.log(`Reply: ${replyText.substring(0, 100)}`);
+    console.log("=".repeat(60));
+
+    const imageUrls: string[] = [];
+    for (const file of files ?? []) {
+      if (file.mimetype?.startsWith("image/")) {
+        const result = await agent.uploadImageToLinearCdn(file.url_private, file.name, file.mimetype);
+        if (result) imageUrls.push(result.url);
+      }
+    }
+
+    const threadResult = await client.conversations.replies({
+      channel,
+      ts: threadTs,
+      limit: 30,
+    });
+
+    const threadContext = (threadResult.messages || [])
+      .map((m) => {
+        const isBot = !!(m as { bot_id?: string }).bot_id;
+        return `[${isBot ? "Bot" : "User"}]: ${m.text || "(no text)"}`;
+      })
+      .join("\n");
+
+    const result = await agent.handleInfoFollowup({
+      replyText,
+      userId: thread.originalReporterId ?? userId,
+      channel,
+      threadTs,
+      originalContext: thread.originalContext,
+      threadContext,
+      timedOut: reason === "timeout",
+      imageUrls,
+    });
+
+    console.log(`\nInfo follow-up result: ${result.action}${result.ticketIdentifier ? ` (${result.ticketIdentifier})` : ""}`);
+
+    if ((result.action === "created" || result.action === "duplicate") && (result.ticketId || result.ticketIdentifier)) {
+      store.setThread(threadTs, {
+        ...thread,
+        ticketId: result.ticketId || result.ticketIdentifier!,
+        ticketIdentifier: result.ticketIdentifier || result.ticketId!,
+        createdAt: Date.now(),
+        isDuplicate: result.action === "duplicate",
+        isAwaitingInfo: false,
+      });
+      store.setMessage(threadTs, {
+        ticketId: result.ticketId || "",
+        ticketIdentifier: result.ticketIdentifier || "",
+        ticketUrl: result.ticketUrl,
+        createdAt: Date.now(),
+        wasTriaged: true,
+        action: result.action,
+      });
+      console.log(`Thread ${threadTs} now tracks ${result.ticketIdentifier || result.ticketId} (was waiting for details)`);
+    } else if (result.action === "drafted") {
+      // The review decides from here, like a draft from triage (see processDraftHandler)
+      store.deleteThread(threadTs);
+      const message = store.getMessage(threadTs);
+      if (message) store.setMessage(threadTs, { ...message, action: "drafted" });
+    } else {
+      // The thread keeps waiting, so another answer or replaying the dead letter files it
+      throw new Error(`Could not file the report in thread ${threadTs}: ${result.message.substring(0, 200)}`);
+    }
+  }
+
+  // File reports whose reporter hasn't answered within clarificationTimeoutHours. Safe to call
+  // repeatedly: a thread already queued isn't queued again while it's still waiting.
+  function timeOutInfoRequests(): number {
+    for (const threadTs of timeoutsQueued) {
+      if (!store.getThread(threadTs)?.isAwaitingInfo) timeoutsQueued.delete(threadTs);
+    }
+    const askedBefore = Date.now() - appConfig.clarificationTimeoutHours * 60 * 60 * 1000;
+    let queued = 0;
+    for (const { threadTs, info } of store.threadsAwaitingInfo(askedBefore)) {
+      if (timeoutsQueued.has(threadTs) || !info.channel) continue;
+      timeoutsQueued.add(threadTs);
+      enqueue({
+        type: "info_followup",
+        data: { reason: "timeout", userId: info.originalReporterId ?? "", channel: info.channel, threadTs },
+      });
+      queued++;
+    }
+    if (queued > 0) processQueue();
+    return queued;
+  }
+
+  // Handler for direct commands (@mention)
+  async function processDirectCommandHandler(data: Record<string, unknown>): Promise<void> {
+    const { commandText, userId, channel, threadTs, messageTs, ticketContext, files } = data as {
+      commandText: string;
+      userId: string;
+      channel: string;
+      threadTs: string;
+      messageTs: string;
+      ticketContext: string | null;
+      files?: Array<{
+        id: string;
+        name: string;
+        mimetype: string;
+        url_private: string;
+        permalink: string;
+      }>;
+    };
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`Processing direct command (@mention)`);
+    console.log(`From: ${userId}`);
+    console.log(`Command: ${commandText?.substring(0, 100) || "(no text)"}`);
+    console.log(`Ticket context: ${ticketContext || "none"}`);
+    console.log("=".repeat(60));
+
+    const imageUrls: string[] = [];
+    if (files && files.length > 0) {
+      for (const file of files) {
+        if (file.mimetype?.startsWith("image/")) {
+          const result = await agent.uploadImageToLinearCdn(
+            file.url_private,
+            file.name,
+            file.mimetype
+          );
+          if (result) {
+            imageUrls.push(result.url);
+          }
+        }
+      }
+    }
+
+    let threadContext = "";
+    if (threadTs && threadTs !== messageTs) {
+      const threadResult = await client.conversations.replies({
+        channel,
+        ts: threadTs,
+        limit: 30,
+      });
+      threadContext = (threadResult.messages || [])
+        .map((m) => {
+          const isBot = !!(m as { bot_id?: string }).bot_id;
+          return `[${isBot ? "Bot" : "User"}]: ${m.text || "(no text)"}`;
+        })
+        .join("\n");
+    }
+
+    const result = await agent.handleDirectCommand({
+      commandText: commandText || "",
+      userId,
+      channel,
+      threadTs,
+      messageTs,
+      ticketContext,
+      threadContext,
+      imageUrls,
+    });
+
+    console.log(`\nDirect command result: ${result.action}`);
+    if (result.message) {
+      console.log(`Response: ${result.message.substring(0, 200)}`);
+    }
+  }
+
+  // Handler for processing edited messages (called from queue)
+  async function processEditedMessageHandler(data: Record<string, unknown>): Promise<void> {
+    const { messageTs, newText, previousText, userId, channel, threadTs } = data as {
+      messageTs: string;
+      newText: string;
+      previousText: string;
+      userId: string;
+      channel: string;
+      threadTs?: string;
+    };
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`[Edit Handler] Processing edit for message ${messageTs}`);
+    console.log(`From: ${userId}`);
+    console.log(`Previous: ${previousText.substring(0, 100)}`);
+    console.log(`New: ${newText.substring(0, 100)}`);
+    console.log("=".repeat(60));
+
+    if (!store.getMessage(messageTs)) {
+      await rebuildThreadMapping(channel, messageTs);
+    }
+    const ticketInfo = store.getMessage(messageTs);
+
+    if (!ticketInfo) {
+      console.log(`[Edit] Message not tracked (expired or never triaged) - skipping`);
+      return;
+    }
+
+    if (!ticketInfo.wasTriaged) {
+      console.log(`[Edit] Message was skipped/deferred originally - not re-triaging`);
+      return;
+    }
+
+    const normalizedOld = previousText.trim().replace(/\s+/g, " ");
+    const normalizedNew = newText.trim().replace(/\s+/g, " ");
+    if (normalizedOld === normalizedNew) {
+      console.log(`[Edit] No meaningful text change (whitespace only) - skipping`);
+      return;
+    }
+
+    console.log(`[Edit] Message tracked: ticketId=${ticketInfo.ticketId}, action=${ticketInfo.action}`);
+
+    await agent.handleMessageEdit({
+      channel,
+      messageTs,
+      threadTs,
+      ticketId: ticketInfo.ticketId,
+      ticketIdentifier: ticketInfo.ticketIdentifier,
+      originalText: previousText,
+      editedText: newText,
+      userId,
+      action: ticketInfo.action,
+    });
+  }
+
+  // Handler for processing deleted messages (called from queue)
+  async function processDeletedMessageHandler(data: Record<string, unknown>): Promise<void> {
+    const { messageTs, channel, threadTs } = data as {
+      messageTs: string;
+      channel: string;
+      threadTs?: string;
+    };
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`[Delete Handler] Processing deletion for message ${messageTs}`);
+    console.log("=".repeat(60));
+
+    if (!store.getMessage(messageTs)) {
+      await rebuildThreadMapping(channel, messageTs);
+    }
+    const ticketInfo = store.getMessage(messageTs);
+
+    if (!ticketInfo) {
+      console.log(`[Delete] Message not tracked (expired or never triaged) - skipping`);
+      return;
+    }
+
+    if (!ticketInfo.wasTriaged) {
+      console.log(`[Delete] Message was skipped/deferred originally - no ticket to update`);
+      return;
+    }
+
+    console.log(`[Delete] Message was linked to ticket ${ticketInfo.ticketIdentifier}`);
+
+    await agent.handleMessageDelete({
+      channel,
+      ticketId: ticketInfo.ticketId,
+      ticketIdentifier: ticketInfo.ticketIdentifier,
+      messageTs,
+      action: ticketInfo.action,
+    });
+
+    store.deleteMessage(messageTs);
+    if (threadTs) {
+      store.deleteThread(threadTs);
+    }
+    console.log(`[Delete] Cleaned up tracking for message ${messageTs}`);
+  }
+
+  // Handler for trigger reactions (see reactionTriggers in config.ts). Reactions on the bot's
+  // own replies act on the message the bot was replying to.
+  async function processReactionHandler(data: Record<string, unknown>): Promise<void> {
+    const { action, reaction, userId, channel, messageTs: reactedTs } = data as {
+      action: ReactionAction;
+      reaction: string;
+      userId: string;
+      channel: string;
+      messageTs: string;
+    };
+
+    const result = await client.conversations.replies({ channel, ts: reactedTs });
+    const reacted = result.messages?.find((m) => m.ts === reactedTs);
+    if (!reacted) {
+      console.log(`[Reaction] Message ${reactedTs} not found - skipping :${reaction}:`);
+      return;
+    }
+    const threadTs = reacted.thread_ts ?? reactedTs;
+    const isBotReply = !!reacted.bot_id || reacted.user === botUserId;
+    const target = isBotReply ? result.messages?.find((m) => m.ts === threadTs) : reacted;
+    if (!target?.ts || target.bot_id) {
+      console.log(`[Reaction] :${reaction}: on a bot message outside a thread - skipping`);
+      return;
+    }
+    const messageTs = target.ts;
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`[Reaction] :${reaction}: (${action}) from ${userId} on message ${messageTs}`);
+    console.log("=".repeat(60));
+
+    const decision = { kind: "reaction", channel, userId, text: target.text, threadTs, messageTs };
+    if (messageTs === threadTs && !store.getMessage(messageTs)) {
+      await rebuildThreadMapping(channel, messageTs);
+    }
+    const messageInfo = store.getMessage(messageTs);
+    const tracked = messageInfo?.wasTriaged && messageInfo.ticketId ? messageInfo : undefined;
+
+    if (action === "create_ticket") {
+      if (tracked) {
+        await postReply(decision, channel, threadTs, `This message is already tracked in ${tracked.ticketUrl ? `<${tracked.ticketUrl}|${tracked.ticketIdentifier}>` : tracked.ticketIdentifier}.`);
+        return;
+      }
+      await forceTicket(target, channel, threadTs, userId);
+      return;
+    }
+
+    if (action === "urgent") {
+      // The message's own ticket, else the ticket its thread tracks
+      const thread = store.getThread(threadTs);
+      const ticketId = tracked?.ticketId ?? (thread && !thread.isDeferred ? thread.ticketId : "");
+      const issue = ticketId ? await agent.setIssuePriority({ trigger: "reaction", channel, userId, threadTs, messageTs, ticketId, priority: 1 }) : null;
+      await postReply(decision, channel, threadTs, issue
+        ? `<${issue.url}|${issue.identifier}> is now *Urgent* (requested by <@${userId}>).`
+        : "There's no ticket for this message to escalate.");
+      return;
+    }
+
+    // undo: only what the bot did while handling this message
+    await undoLastChange(decision, channel, threadTs, userId, { messageTs });
+  }
+
+  // Triage a message with a ticket required (a :ticket: reaction, or a wrong duplicate replaced)
+  async function forceTicket(target: SlackApiMessage, channel: string, threadTs: string, userId: string): Promise<void> {
+    await processNewMessage({
+      text: target.text ?? "",
+      user: target.user,
+      ts: target.ts,
+      channel,
+      threadTs,
+      forcedBy: userId,
+      files: target.files,
+      attachments: target.attachments,
+    });
+  }
+
+  // Handler for the buttons on triage replies (see blocks.ts)
+  async function processBlockActionHandler(data: Record<string, unknown>): Promise<void> {
+    const { actionId, userId, channel, threadTs, messageTs, ticketId, priority } = data as {
+      actionId: TriageActionId;
+      userId: string;
+      channel: string;
+      threadTs: string;
+      messageTs: string;
+      ticketId: string;
+      priority?: number;
+    };
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`[Button] ${actionId} from ${userId} on message ${messageTs} (ticket ${ticketId})`);
+    console.log("=".repeat(60));
+
+    const decision = { kind: "button", channel, userId, threadTs, messageTs };
+    const trigger = { trigger: "button" as const, channel, userId, threadTs, messageTs, ticketId };
+
+    // Takes back the triage decision itself, whatever was changed on the ticket since
+    if (actionId === TRIAGE_ACTIONS.dismiss) {
+      await undoLastChange(decision, channel, threadTs, userId, { messageTs, runKind: "triage" });
+      return;
+    }
+
+    if (actionId === TRIAGE_ACTIONS.createNew) {
+      const result = await client.conversations.replies({ channel, ts: threadTs });
+      const target = result.messages?.find((m) => m.ts === messageTs);
+      if (!target) {
+        await postReply(decision, channel, threadTs, "I can't find the original message anymore, so I can't create a ticket for it.");
+        return;
+      }
+      // Retract the duplicate link first, so the message is no longer tracked on the old ticket
+      await undoLastChange(decision, channel, threadTs, userId, { messageTs, runKind: "triage" });
+      await forceTicket(target, channel, threadTs, userId);
+      return;
+    }
+
+    if (actionId === TRIAGE_ACTIONS.priority && priority) {
+      const issue = await agent.setIssuePriority({ ...trigger, priority });
+      await postReply(decision, channel, threadTs, issue
+        ? `<${issue.url}|${issue.identifier}> is now *${PRIORITY_NAMES[priority]}* (set by <@${userId}>).`
+        : `Ticket ${ticketId} no longer exists.`);
+      return;
+    }
+
+    if (actionId === TRIAGE_ACTIONS.assignMe) {
+      const assigned = await agent.assignIssueToSlackUser(trigger);
+      await postReply(decision, channel, threadTs, assigned.message);
+    }
+  }
+
+  // Handler for decisions on ticket drafts (approval mode): Approve, Reject, or the edit modal's Save
+  async function processDraftHandler(data: Record<string, unknown>): Promise<void> {
+    const { decision: verdict, draftId, userId, edits } = data as {
+      decision: "approve" | "reject" | "edit";
+      draftId: string;
+      userId: string;
+      edits?: Partial<DraftEdits>;
+    };
+
+    const draft = store.getDraft(draftId);
+    if (!draft) {
+      console.log(`[Draft] ${draftId} was already decided or has expired - skipping ${verdict}`);
+      return;
+    }
+    if (draft.expiresAt <= Date.now()) {
+      await expireDraft(draft);
+      return;
+    }
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`[Draft] ${verdict} from ${userId} on draft ${draftId} ("${draft.title}")`);
+    console.log("=".repeat(60));
+
+    const decision = { kind: "draft", channel: draft.channel, userId, threadTs: draft.threadTs, messageTs: draft.messageTs };
+
+    if (verdict === "edit") {
+      const edited = { ...draft, ...edits };
+      store.saveDraft(edited);
+      await updateReviewMessage(decision, edited);
+      return;
+    }
+
+    if (verdict === "reject") {
+      store.deleteDraft(draft.id);
+      await updateReviewMessage(decision, draft, `Rejected by <@${userId}>`);
+      await postReply(decision, draft.channel, draft.threadTs, `<@${userId}> reviewed this report and decided not to create a ticket for it.`);
+      store.setMessage(draft.messageTs, { ticketId: "", ticketIdentifier: "", createdAt: Date.now(), wasTriaged: false, action: "skipped" });
+      return;
+    }
+
+    const issue = await agent.createIssueFromDraft(draft, userId);
+    if (!issue) throw new Error(`Linear did not return the issue for draft ${draft.id}`);
+    store.deleteDraft(draft.id);
+    const link = `<${issue.url}|${issue.identifier}>`;
+
+    // Track the ticket like a directly created one (see processNewMessage)
+    const thread = store.getThread(draft.threadTs);
+    if (!thread || thread.isDeferred) {
+      store.setThread(draft.threadTs, {
+        ...thread,
+        ticketId: issue.id,
+        ticketIdentifier: issue.identifier,
+        createdAt: Date.now(),
+        isDuplicate: false,
+        isDeferred: false,
+        originalReporterId: thread?.originalReporterId ?? draft.reporterId,
+        channel: draft.channel,
+      });
+    }
+    store.setMessage(draft.messageTs, {
+      ticketId: issue.id,
+      ticketIdentifier: issue.identifier,
+      ticketUrl: issue.url,
+      createdAt: Date.now(),
+      wasTriaged: true,
+      action: "created",
+    });
+
+    await updateReviewMessage(decision, draft, `Approved by <@${userId}> - created ${link}`);
+    await postReply(decision, draft.channel, draft.threadTs, `Created ${link} for this report (approved by <@${userId}>).`);
+  }
+
+  // Refresh a draft's review message; once the draft is decided, `outcome` replaces the buttons
+  async function updateReviewMessage(decision: DecisionMessage, draft: IssueDraft, outcome?: string): Promise<void> {
+    if (!draft.review) return;
+    const { channel, ts } = draft.review;
+    const text = outcome ? `Ticket draft "${draft.title}": ${outcome}` : `Ticket draft for review: ${draft.title}`;
+    const blocks = outcome ? draftResolvedBlocks(draft, outcome) : draftReviewBlocks(draft);
+    if (isDryRun()) {
+      recordDecision(decision, "slack_update_message", { channel, ts, text });
+      return;
+    }
+    await client.chat.update({ channel, ts, text, blocks }).catch((e) => {
+      console.log(`[Draft] Could not update the review message for ${draft.id}: ${e.message}`);
+    });
+  }
+
+  async function expireDraft(draft: IssueDraft): Promise<void> {
+    store.deleteDraft(draft.id);
+    console.log(`[Draft] ${draft.id} ("${draft.title}") expired without a decision`);
+    const decision = { kind: "draft", channel: draft.channel, threadTs: draft.threadTs, messageTs: draft.messageTs };
+    await updateReviewMessage(decision, draft, "Expired - no ticket was created");
+    await postReply(decision, draft.channel, draft.threadTs, "Nobody reviewed the ticket draft for this report in time, so no ticket was created.");
+  }
+
+  // Drop drafts nobody decided on in time (called periodically from index.ts). Returns how many expired.
+  async function expireDrafts(): Promise<number> {
+    const expired = store.expiredDrafts(Date.now());
+    for (const draft of expired) {
+      try {
+        await expireDraft(draft);
+      } catch (error) {
+        console.error(`[Draft] Error expiring draft ${draft.id}:`, error);
+      }
+    }
+    return expired.length;
+  }
+
+  // Handler for "@bot undo" (called from queue)
+  async function processUndoHandler(data: Record<string, unknown>): Promise<void> {
+    const { channel, threadTs, userId, messageTs } = data as {
+      channel: string;
+      threadTs: string;
+      userId: string;
+      messageTs: string;
+    };
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`[Undo] ${userId} asked to undo the last change in thread ${threadTs}`);
+    console.log("=".repeat(60));
+
+    await undoLastChange({ kind: "undo", channel, userId, threadTs, messageTs }, channel, threadTs, userId);
+  }
+
+  // Reverse the bot's last set of Linear changes in a thread (see agent.undoLastOperations) and
+  // reply with what was undone. If that set came from the run that tied the thread or message
+  // to a ticket, the mapping is dropped too, so the next message there is triaged afresh.
+  async function undoLastChange(
+    decision: DecisionMessage,
+    channel: string,
+    threadTs: string,
+    userId: string,
+    filter: { messageTs?: string; runKind?: string } = {}
+  ): Promise<void> {
+    const result = await agent.undoLastOperations({ channel, threadTs, userId, ...filter });
+    let reply = result.message;
+
+    if (result.undone && result.runKind && MAPPING_RUNS.includes(result.runKind)) {
+      const touched = (ticket?: string) => !!ticket && result.issues.some((i) => i.id === ticket || i.identifier === ticket);
+      const message = result.messageTs ? store.getMessage(result.messageTs) : undefined;
+      if (message && (touched(message.ticketId) || touched(message.ticketIdentifier))) {
+        store.deleteMessage(result.messageTs!);
+      }
+      const thread = store.getThread(threadTs);
+      if (thread && (touched(thread.ticketId) || touched(thread.ticketIdentifier))) {
+        store.deleteThread(threadTs);
+        reply += `\n${UNTRACKED_NOTE} ${thread.ticketIdentifier} in this thread.`;
+        console.log(`[Undo] Stopped tracking thread ${threadTs} (was ${thread.ticketIdentifier})`);
+      }
+    }
+
+    await postReply(decision, channel, threadTs, reply);
+  }
+
+  // Admin commands are answered here rather than by the agent:
+  //   @bot dead letters                 - list items that failed for good
+  //   @bot replay dead letter <id|all>  - put them back on the queue
+  //   @bot drop dead letter <id|all>    - discard them
+  async function handleAdminCommand(msg: { text?: string; user: string; channel: string; ts: string; thread_ts?: string }): Promise<boolean> {
+    const command = (msg.text ?? "").replace(/<@[A-Z0-9]+>/g, "").trim();
+    const match = command.match(/^(?:(replay|retry|drop|discard)\s+)?dead[- ]?letters?(?:\s+(#?\d+|all))?$/i);
+    if (!match) return false;
+
+    const verb = match[1]?.toLowerCase();
+    const target = match[2]?.replace("#", "").toLowerCase();
+    const letters = deps.queue.deadLetters();
+    let text: string;
+
+    if (!deps.adminUserIds?.includes(msg.user)) {
+      text = "Only admins can manage dead letters (see ADMIN_USER_IDS).";
+    } else if (!verb) {
+      text = letters.length === 0
+        ? "No dead letters."
+        : `${letters.length} dead letter(s):\n${letters.map((l) => `• ${describeDeadLetter(l)}`).join("\n")}`;
+    } else if (!target) {
+      text = `Which one? Use \`${verb} dead letter <id>\` or \`${verb} dead letters all\`.`;
+    } else {
+      const ids = target === "all" ? letters.map((l) => l.id) : [Number(target)];
+      const done: number[] = [];
+      for (const id of ids) {
+        if (verb === "replay" || verb === "retry") {
+          const job = deps.queue.revive(id);
+          if (job) {
+            schedule(job);
+            done.push(id);
+          }
+        } else if (deps.queue.discard(id)) {
+          done.push(id);
+        }
+      }
+      const action = verb === "replay" || verb === "retry" ? "Requeued" : "Dropped";
+      text = done.length > 0
+        ? `${action} ${done.map((id) => `#${id}`).join(", ")}.`
+        : `No dead letter ${target === "all" ? "to handle" : `#${target}`}.`;
+      if (done.length > 0 && action === "Requeued") processQueue();
+    }
+
+    console.log(`[Admin] ${msg.user}: "${command}" → ${text.split("\n")[0]}`);
+    const threadTs = msg.thread_ts || msg.ts;
+    await postReply(
+      { kind: "admin_command", channel: msg.channel, userId: msg.user, text: msg.text, threadTs, messageTs: msg.ts },
+      msg.channel,
+      threadTs,
+      text
+    );
+    return true;
+  }
+
+  // Route a Slack message (app.message) to the right queue type
+  async function handleMessage(message: unknown): Promise<void> {
+    try {
+      const msg = message as {
+        text?: string;
+        user?: string;
+        ts?: string;
+        channel?: string;
+        thread_ts?: string;
+        bot_id?: string;
+        subtype?: string;
+        files?: Array<{
+          id: string;
+          name: string;
+          mimetype: string;
+          url_private: string;
+          permalink: string;
+        }>;
+        attachments?: Array<{
+          text?: string;
+          author_name?: string;
+          author_id?: string;
+          from_url?: string;
+          footer?: string;
+          ts?: string;
+        }>;
+      };
+
+      const hasContent = msg.text || (msg.attachments && msg.attachments.length > 0) || (msg.files && msg.files.length > 0);
+      if (!hasContent || !msg.user || !msg.ts || !msg.channel) return;
+      if (!isWatchedChannel(msg.channel)) return;
+      if (msg.bot_id) return;
+      if (msg.subtype && msg.subtype !== "file_share") return;
+
+      const isBotMentioned = msg.text?.includes(`<@${botUserId}>`);
+
+      if (isBotMentioned) {
+        if (await handleAdminCommand({ ...msg, user: msg.user, channel: msg.channel, ts: msg.ts })) return;
+
+        if (isUndoCommand(msg.text)) {
+          console.log(`Bot @mentioned with undo - queuing undo for thread ${msg.thread_ts || msg.ts}`);
+          enqueue({
+            type: "undo",
+            data: { channel: msg.channel, threadTs: msg.thread_ts || msg.ts, userId: msg.user, messageTs: msg.ts },
+          });
+          processQueue();
+          return;
+        }
+
+        const ticketInfo = msg.thread_ts ? store.getThread(msg.thread_ts) : null;
+
+        console.log(`Bot @mentioned - queuing direct command (queue size: ${scheduler.pending + 1})`);
+        enqueue({
+          type: "direct_command",
+          data: {
+            commandText: msg.text,
+            userId: msg.user,
+            channel: msg.channel,
+            threadTs: msg.thread_ts || msg.ts,
+            messageTs: msg.ts,
+            ticketContext: ticketInfo?.ticketIdentifier || null,
+            files: msg.files,
+          },
+        });
+        processQueue();
+        return;
+      }
+
+      if (msg.thread_ts && msg.thread_ts !== msg.ts) {
+        const ticketInfo = store.getThread(msg.thread_ts);
+
+        if (ticketInfo?.isAwaitingInfo) {
+          if (ticketInfo.originalReporterId === msg.user) {
+            console.log(`Queuing the reporter's answer in thread ${msg.thread_ts} (queue size: ${scheduler.pending + 1})`);
+            enqueue({
+              type: "info_followup",
+              data: {
+                reason: "answered",
+                replyText: msg.text,
+                userId: msg.user,
+                channel: msg.channel,
+                threadTs: msg.thread_ts,
+                messageTs: msg.ts,
+                files: msg.files,
+              },
+            });
+          } else {
+            console.log(`Ignoring reply from ${msg.user} - thread ${msg.thread_ts} is waiting for the reporter's answer`);
+          }
+        } else if (ticketInfo) {
+          if (ticketInfo.isDeferred) {
+            console.log(`Queuing deferred thread reply for smart handling (queue size: ${scheduler.pending + 1})`);
+            enqueue({
+              type: "deferred_followup",
+              data: {
+                replyText: msg.text,
+                userId: msg.user,
+                channel: msg.channel,
+                threadTs: msg.thread_ts,
+                messageTs: msg.ts,
+                files: msg.files,
+                originalContext: ticketInfo.originalContext,
+              },
+            });
+          } else {
+            const isSameReporter = ticketInfo.originalReporterId === msg.user;
+            console.log(`Queuing thread reply for ticket ${ticketInfo.ticketIdentifier} (isDuplicate: ${ticketInfo.isDuplicate}, sameReporter: ${isSameReporter}, queue size: ${scheduler.pending + 1})`);
+            enqueue({
+              type: "thread_reply",
+              data: {
+                replyText: msg.text,
+                userId: msg.user,
+                channel: msg.channel,
+                threadTs: msg.thread_ts,
+                messageTs: msg.ts,
+                ticketId: ticketInfo.ticketId,
+                ticketIdentifier: ticketInfo.ticketIdentifier,
+                isDuplicate: ticketInfo.isDuplicate,
+                isSameReporter,
+                files: msg.files,
+              },
+            });
+          }
+        } else {
+          console.log(`Queuing orphan thread reply for triage (queue size: ${scheduler.pending + 1})`);
+          enqueue({
+            type: "orphan_thread",
+            data: {
+              replyText: msg.text,
+              userId: msg.user,
+              channel: msg.channel,
+              threadTs: msg.thread_ts,
+              messageTs: msg.ts,
+              files: msg.files,
+            },
+          });
+        }
+        processQueue();
+        return;
+      }
+
+      if (store.hasProcessed(msg.ts)) {
+        console.log("Skipping already processed message");
+        return;
+      }
+
+      store.markProcessed(msg.ts);
+
+      enqueue({
+        type: "new",
+        data: {
+          text: msg.text,
+          user: msg.user,
+          ts: msg.ts,
+          channel: msg.channel,
+          files: msg.files,
+          attachments: msg.attachments,
+        },
+      });
+      processQueue();
+
+    } catch (error) {
+      console.error("Error queuing message:", error);
+    }
+  }
+
+  // Queue edits of monitored messages (message_changed events)
+  async function handleMessageChanged(event: unknown): Promise<void> {
+    try {
+      const msg = event as {
+        subtype?: string;
+        channel?: string;
+        message?: {
+          ts?: string;
+          text?: string;
+          user?: string;
+          bot_id?: string;
+        };
+        previous_message?: {
+          ts?: string;
+          text?: string;
+          thread_ts?: string;
+        };
+      };
+
+      if (msg.subtype !== "message_changed") return;
+      if (!msg.message || !msg.previous_message) return;
+      if (!msg.message.user || !msg.message.ts) return;
+      if (!msg.channel || !isWatchedChannel(msg.channel)) return;
+      if (msg.message.bot_id) return;
+
+      console.log(`[Edit Event] Detected edit for message ${msg.message.ts}`);
+      enqueue({
+        type: "message_edited",
+        data: {
+          messageTs: msg.message.ts,
+          newText: msg.message.text || "",
+          previousText: msg.previous_message.text || "",
+          userId: msg.message.user,
+          channel: msg.channel,
+          threadTs: msg.previous_message.thread_ts,
+        },
+      });
+      processQueue();
+    } catch (error) {
+      console.error("Error queuing message edit:", error);
+    }
+  }
+
+  // Queue deletions of monitored messages (message_deleted events)
+  async function handleMessageDeleted(event: unknown): Promise<void> {
+    try {
+      const msg = event as {
+        subtype?: string;
+        channel?: string;
+        deleted_ts?: string;
+        previous_message?: {
+          ts?: string;
+          thread_ts?: string;
+        };
+      };
+
+      if (msg.subtype !== "message_deleted") return;
+      if (!msg.deleted_ts || !msg.channel) return;
+      if (!isWatchedChannel(msg.channel)) return;
+
+      console.log(`[Delete Event] Detected deletion of message ${msg.deleted_ts}`);
+      enqueue({
+        type: "message_deleted",
+        data: {
+          messageTs: msg.deleted_ts,
+          channel: msg.channel,
+          threadTs: msg.previous_message?.thread_ts,
+        },
+      });
+      processQueue();
+    } catch (error) {
+      console.error("Error queuing message delete:", error);
+    }
+  }
+
+  // The thread a message is in (its own ts for a parent), or undefined if it can't be looked up
+  async function threadRootOf(channel: string, ts: string): Promise<string | undefined> {
+    try {
+      const result = await client.conversations.replies({ channel, ts });
+      return result.messages?.find((m) => m.ts === ts)?.thread_ts;
+    } catch (error) {
+      console.error(`[Reaction Event] Could not look up the thread of ${ts}:`, error);
+      return undefined;
+    }
+  }
+
+  // Queue reactions that map to a trigger in reactionTriggers (reaction_added events)
+  async function handleReactionAdded(event: unknown): Promise<void> {
+    try {
+      const ev = event as {
+        user?: string;
+        reaction?: string;
+        item?: { type?: string; channel?: string; ts?: string };
+      };
+
+      if (!ev.user || !ev.reaction || ev.user === botUserId) return;
+      if (ev.item?.type !== "message" || !ev.item.channel || !ev.item.ts) return;
+      if (!isWatchedChannel(ev.item.channel)) return;
+
+      // Skin-tone variants ("+1::skin-tone-2") count as the base emoji
+      const reaction = ev.reaction.split("::")[0];
+      const action = appConfig.reactionTriggers[reaction];
+      if (!action) return;
+
+      // Keyed on the thread root, so the job runs in order with the thread's other events
+      const threadTs = await threadRootOf(ev.item.channel, ev.item.ts);
+      console.log(`[Reaction Event] :${reaction}: on ${ev.item.ts} - queuing ${action}`);
+      enqueue({
+        type: "reaction",
+        data: {
+          action,
+          reaction,
+          userId: ev.user,
+          channel: ev.item.channel,
+          messageTs: ev.item.ts,
+          ...(threadTs && { threadTs }),
+        },
+      });
+      processQueue();
+    } catch (error) {
+      console.error("Error queuing reaction:", error);
+    }
+  }
+
+  // Queue a decision on a draft; it runs in the reported message's thread, after what's already queued there
+  function enqueueDraftDecision(decision: "approve" | "reject" | "edit", draftId: string, userId: string, edits?: Partial<DraftEdits>): void {
+    const draft = store.getDraft(draftId);
+    if (!draft) {
+      console.log(`[Draft] ${draftId} not found (already decided or expired) - ignoring ${decision}`);
+      return;
+    }
+    console.log(`[Draft Event] ${decision} on draft ${draftId} - queuing`);
+    enqueue({
+      type: "draft",
+      data: { decision, draftId, userId, edits, channel: draft.channel, threadTs: draft.threadTs },
+    });
+    processQueue();
+  }
+
+  // Queue clicks on triage reply and draft buttons (app.action, block_actions payloads)
+  async function handleBlockAction(body: unknown): Promise<void> {
+    try {
+      const payload = body as {
+        user?: { id?: string };
+        channel?: { id?: string };
+        message?: { ts?: string; thread_ts?: string };
+        trigger_id?: string;
+        actions?: Array<{ action_id?: string; value?: string; selected_option?: { value?: string } }>;
+      };
+
+      const action = payload.actions?.[0];
+
+      // Draft buttons carry the draft ID and may sit in a review channel the bot doesn't monitor
+      if (action?.value && payload.user?.id && action.action_id === DRAFT_ACTIONS.edit) {
+        // The modal has to open within 3 seconds of the click, so this doesn't wait in the queue
+        const draft = store.getDraft(action.value);
+        if (draft && payload.trigger_id) await client.views.open({ trigger_id: payload.trigger_id, view: draftEditView(draft) });
+        return;
+      }
+      if (action?.value && payload.user?.id && (action.action_id === DRAFT_ACTIONS.approve || action.action_id === DRAFT_ACTIONS.reject)) {
+        enqueueDraftDecision(action.action_id === DRAFT_ACTIONS.approve ? "approve" : "reject", action.value, payload.user.id);
+        return;
+      }
+
+      const actionId = Object.values(TRIAGE_ACTIONS).find((id) => id === action?.action_id);
+      const target = parseActionValue(action?.selected_option?.value ?? action?.value);
+      const channel = payload.channel?.id;
+      const reply = payload.message;
+      if (!actionId || !target || !payload.user?.id || !channel || !reply?.ts) return;
+      if (!isWatchedChannel(channel)) return;
+
+      console.log(`[Button Event] ${actionId} on ${target.messageTs} - queuing`);
+      enqueue({
+        type: "block_action",
+        data: {
+          actionId,
+          userId: payload.user.id,
+          channel,
+          // The buttons sit on the bot's reply, which is in the triaged message's thread
+          threadTs: reply.thread_ts ?? reply.ts,
+          messageTs: target.messageTs,
+          ticketId: target.ticketId,
+          priority: target.priority,
+        },
+      });
+      processQueue();
+    } catch (error) {
+      console.error("Error queuing button action:", error);
+    }
+  }
+
+  // Ephemeral reply to a shortcut or slash command, or record it in dry-run mode. A failed
+  // reply is only logged: response URLs expire after 30 minutes.
+  async function respondToRequester(message: DecisionMessage, responseUrl: string, text: string): Promise<void> {
+    if (isDryRun()) {
+      recordDecision(message, "slack_respond", { text });
+      return;
+    }
+    await respond(responseUrl, text).catch((e) => console.log(`[Request] Could not reply to the requester: ${e.message}`));
+  }
+
+  async function isChannelMember(channel: string): Promise<boolean> {
+    if (isWatchedChannel(channel)) return true;
+    try {
+      return !!(await client.conversations.info({ channel })).channel?.is_member;
+    } catch {
+      // DMs and private channels the bot can't see
+      return false;
+    }
+  }
+
+  // Queue a message someone asked to have triaged. Works in any channel: where the bot is a
+  // member it answers in the thread as usual, elsewhere only the requester hears back.
+  async function requestTriage(request: {
+    requestedBy: string;
+    channel: string;
+    message: SlackApiMessage & { ts: string };
+    responseUrl?: string;
+  }): Promise<void> {
+    const { requestedBy, channel, message, responseUrl } = request;
+    const decision = { kind: "triage_request", channel, userId: requestedBy, text: message.text, threadTs: message.thread_ts ?? message.ts, messageTs: message.ts };
+    const reply = (text: string) => (responseUrl ? respondToRequester(decision, responseUrl, text) : Promise.resolve());
+
+    if (!message.user || message.bot_id) {
+      await reply("I can only triage messages people wrote.");
+      return;
+    }
+    const tracked = store.getMessage(message.ts);
+    if (tracked?.wasTriaged && tracked.ticketId) {
+      await reply(`That message is already tracked in ${tracked.ticketUrl ? `<${tracked.ticketUrl}|${tracked.ticketIdentifier}>` : tracked.ticketIdentifier}.`);
+      return;
+    }
+
+    const replyInThread = await isChannelMember(channel);
+    console.log(`[Request] ${requestedBy} asked to triage ${channel}/${message.ts} (${replyInThread ? "replying in thread" : "replying privately"})`);
+    store.markProcessed(message.ts);
+    enqueue({
+      type: "new",
+      data: {
+        text: message.text ?? "",
+        user: message.user,
+        ts: message.ts,
+        channel,
+        threadTs: message.thread_ts && message.thread_ts !== message.ts ? message.thread_ts : undefined,
+        files: message.files,
+        attachments: message.attachments,
+        requestedBy,
+        responseUrl,
+        replyInThread,
+      },
+    });
+    await reply("On it - triaging that message.");
+    processQueue();
+  }
+
+  // The "Send to Linear" message shortcut (app.shortcut, message_action payloads)
+  async function handleMessageShortcut(body: unknown): Promise<void> {
+    try {
+      const payload = body as {
+        callback_id?: string;
+        user?: { id?: string };
+        channel?: { id?: string };
+        message?: SlackApiMessage;
+        response_url?: string;
+      };
+      const { message } = payload;
+      if (payload.callback_id !== SEND_TO_LINEAR_SHORTCUT || !payload.user?.id || !payload.channel?.id || !message?.ts) return;
+      await requestTriage({ requestedBy: payload.user.id, channel: payload.channel.id, message: { ...message, ts: message.ts }, responseUrl: payload.response_url });
+    } catch (error) {
+      console.error("Error queuing shortcut:", error);
+    }
+  }
+
+  // "/triage <message link>" (app.command)
+  async function handleSlashCommand(body: unknown): Promise<void> {
+    try {
+      const payload = body as { command?: string; text?: string; user_id?: string; channel_id?: string; response_url?: string };
+      if (payload.command !== TRIAGE_COMMAND || !payload.user_id) return;
+      const decision = { kind: "triage_request", channel: payload.channel_id ?? "", userId: payload.user_id, text: payload.text };
+      const reply = (text: string) => (payload.response_url ? respondToRequester(decision, payload.response_url, text) : Promise.resolve());
+
+      // Links arrive bare or, with escaping on, as <url> / <url|label>
+      const url = payload.text?.match(/https?:\/\/[^\s<>|]+/)?.[0];
+      const parsed = url ? parseSlackUrl(url) : null;
+      if (!parsed) {
+        await reply(`Usage: \`${TRIAGE_COMMAND} <message link>\` - use *Copy link* in a message's menu, or the *Send to Linear* shortcut on the message itself.`);
+        return;
+      }
+
+      let message: SlackApiMessage | undefined;
+      try {
+        const result = await client.conversations.replies({ channel: parsed.channelId, ts: parsed.messageTs, limit: 1 });
+        message = result.messages?.find((m) => m.ts === parsed.messageTs);
+      } catch (error) {
+        console.log(`[Request] Could not read ${url}: ${error instanceof Error ? error.message : error}`);
+      }
+      if (!message?.ts) {
+        await reply(`I can't read that message. Add me to <#${parsed.channelId}>, or use the *Send to Linear* shortcut on the message instead.`);
+        return;
+      }
+      await requestTriage({
+        requestedBy: payload.user_id,
+        channel: parsed.channelId,
+        message: { ...message, ts: message.ts, thread_ts: message.thread_ts ?? parsed.threadTs },
+        responseUrl: payload.response_url,
+      });
+    } catch (error) {
+      console.error("Error queuing /triage:", error);
+    }
+  }
+
+  // Queue the edits saved in a draft's edit modal (app.view, view_submission payloads)
+  async function handleViewSubmission(body: unknown): Promise<void> {
+    try {
+      const payload = body as {
+        user?: { id?: string };
+        view?: { callback_id?: string; private_metadata?: string; state?: { values?: Parameters<typeof parseDraftEdits>[0] } };
+      };
+      const view = payload.view;
+      if (view?.callback_id !== DRAFT_EDIT_VIEW || !view.private_metadata || !payload.user?.id) return;
+      enqueueDraftDecision("edit", view.private_metadata, payload.user.id, parseDraftEdits(view.state?.values));
+    } catch (error) {
+      console.error("Error queuing draft edit:", error);
+    }
+  }
+
+  // Bolt delivers every message event to both app.message and app.event("message")
+  async function handleMessageEvent(event: unknown): Promise<void> {
+    await handleMessageChanged(event);
+    await handleMessageDeleted(event);
+  }
+
+  return {
+    handleMessage,
+    handleMessageEvent,
+    handleReactionAdded,
+    handleBlockAction,
+    handleViewSubmission,
+    handleMessageShortcut,
+    handleSlashCommand,
+    expireDrafts,
+    timeOutInfoRequests,
+    recoverMissedMessages,
+    resumePersisted,
+    processQueue,
+    stop,
+    get queueLength(): number {
+      return scheduler.pending + scheduler.running;
+    },
+    get runningCount(): number {
+      return scheduler.running;
+    },
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * queueStore.ts — Durable storage for the work queue and its dead-letter list.
+ *
+ * Every event the pipeline queues is written here before it runs and removed once it has
+ * been handled, so events still waiting at shutdown or crash are picked up on the next
+ * start. Items that fail for good are moved to the dead-letter list, where admins can
+ * inspect them and put them back on the queue (`@bot dead letters`, `npm run dead-letters`).
+ */
+
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import type { QueuedMessage } from "./pipeline.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A queued event plus its delivery state. */
+export interface QueuedJob extends QueuedMessage {
+  id: number;
+  enqueuedAt: number;
+  attempts: number;
+  /** Epoch ms before which the job must not run (set while backing off). */
+  notBefore: number;
+  lastError?: string;
+}
+
+export interface DeadLetter extends QueuedJob {
+  failedAt: number;
+}
+
+export interface QueueStore {
+  add(item: QueuedMessage): QueuedJob;
+  /** Jobs not yet handled, oldest first. */
+  pending(): QueuedJob[];
+  /** Record a failed attempt that will be retried at `notBefore`. */
+  reschedule(id: number, attempts: number, notBefore: number, lastError: string): void;
+  complete(id: number): void;
+  /** Move a job to the dead-letter list. */
+  bury(id: number, attempts: number, lastError: string): void;
+
+  deadLetters(): DeadLetter[];
+  /** Move a dead letter back onto the queue with a fresh attempt count. */
+  revive(id: number): QueuedJob | undefined;
+  discard(id: number): boolean;
+
+  close(): void;
+}
+
+/** One-line summary of a dead letter, for the admin command and the CLI. */
+export function describeDeadLetter(letter: DeadLetter): string {
+  const { channel, ts, messageTs, threadTs } = letter.data as Record<string, string | undefined>;
+  const where = channel ? ` in ${channel} (${ts ?? messageTs ?? threadTs})` : "";
+  const error = (letter.lastError ?? "unknown error").split("\n")[0].slice(0, 160);
+  return `#${letter.id} ${letter.type}${where}, ${letter.attempts} attempt(s), failed ${new Date(letter.failedAt).toISOString()}: ${error}`;
+}
+
+// ---------------------------------------------------------------------------
+// In-memory store
+// ---------------------------------------------------------------------------
+
+export function createMemoryQueueStore(): QueueStore {
+  const jobs = new Map<number, QueuedJob>();
+  const dead = new Map<number, DeadLetter>();
+  let nextId = 1;
+
+  return {
+    add(item) {
+      const job: QueuedJob = { ...item, id: nextId++, enqueuedAt: Date.now(), attempts: 0, notBefore: 0 };
+      jobs.set(job.id, job);
+      return { ...job };
+    },
+    pending: () => [...jobs.values()].map((job) => ({ ...job })),
+    reschedule(id, attempts, notBefore, lastError) {
+      const job = jobs.get(id);
+      if (job) Object.assign(job, { attempts, notBefore, lastError });
+    },
+    complete(id) {
+      jobs.delete(id);
+    },
+    bury(id, attempts, lastError) {
+      const job = jobs.get(id);
+      if (!job) return;
+      jobs.delete(id);
+      dead.set(id, { ...job, attempts, lastError, failedAt: Date.now() });
+    },
+
+    deadLetters: () => [...dead.values()].map((letter) => ({ ...letter })),
+    revive(id) {
+      const letter = dead.get(id);
+      if (!letter) return undefined;
+      dead.delete(id);
+      const job: QueuedJob = { type: letter.type, data: letter.data, id: nextId++, enqueuedAt: Date.now(), attempts: 0, notBefore: 0 };
+      jobs.set(job.id, job);
+      return { ...job };
+    },
+    discard: (id) => dead.delete(id),
+
+    close() {
+      jobs.clear();
+      dead.clear();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// SQLite store
+// ---------------------------------------------------------------------------
+
+type JobRow = {
+  id: number;
+  type: QueuedMessage["type"];
+  data: string;
+  enqueued_at: number;
+  attempts: number;
+  not_before: number;
+  last_error: string | null;
+};
+
+type DeadLetterRow = JobRow & { failed_at: number };
+
+function jobFromRow(row: JobRow): QueuedJob {
+  return {
+    id: row.id,
+    type: row.type,
+    data: JSON.parse(row.data),
+    enqueuedAt: row.enqueued_at,
+    attempts: row.attempts,
+    notBefore: row.not_before,
+    lastError: row.last_error ?? undefined,
+  };
+}
+
+export function createSqliteQueueStore(path: string): QueueStore {
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+
+  // Dead letters keep the id of the job they came from; revived jobs get a new one
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS queue_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      data TEXT NOT NULL,
+      enqueued_at INTEGER NOT NULL,
+      attempts INTEGER NOT NULL,
+      not_before INTEGER NOT NULL,
+      last_error TEXT
+    );
+    CREATE TABLE IF NOT EXISTS dead_letters (
+      id INTEGER PRIMARY KEY,
+      type TEXT NOT NULL,
+      data TEXT NOT NULL,
+      enqueued_at INTEGER NOT NULL,
+      attempts INTEGER NOT NULL,
+      not_before INTEGER NOT NULL,
+      last_error TEXT,
+      failed_at INTEGER NOT NULL
+    );
+  `);
+
+  const addStmt = db.prepare(
+    "INSERT INTO queue_jobs (type, data, enqueued_at, attempts, not_before) VALUES (?, ?, ?, 0, 0)"
+  );
+  const pendingStmt = db.prepare<[], JobRow>("SELECT * FROM queue_jobs ORDER BY id");
+  const rescheduleStmt = db.prepare("UPDATE queue_jobs SET attempts = ?, not_before = ?, last_error = ? WHERE id = ?");
+  const completeStmt = db.prepare("DELETE FROM queue_jobs WHERE id = ?");
+  const buryStmt = db.prepare(`
+    INSERT OR REPLACE INTO dead_letters (id, type, data, enqueued_at, attempts, not_before, last_error, failed_at)
+    SELECT id, type, data, enqueued_at, ?, not_before, ?, ? FROM queue_jobs WHERE id = ?
+  `);
+  const deadLettersStmt = db.prepare<[], DeadLetterRow>("SELECT * FROM dead_letters ORDER BY id");
+  const getDeadLetterStmt = db.prepare<[number], DeadLetterRow>("SELECT * FROM dead_letters WHERE id = ?");
+  const discardStmt = db.prepare("DELETE FROM dead_letters WHERE id = ?");
+
+  const bury = db.transaction((id: number, attempts: number, lastError: string) => {
+    buryStmt.run(attempts, lastError, Date.now(), id);
+    completeStmt.run(id);
+  });
+
+  const revive = db.transaction((id: number): QueuedJob | undefined => {
+    const letter = getDeadLetterStmt.get(id);
+    if (!letter) return undefined;
+    discardStmt.run(id);
+    const enqueuedAt = Date.now();
+    const { lastInsertRowid } = addStmt.run(letter.type, letter.data, enqueuedAt);
+    return { type: letter.type, data: JSON.parse(letter.data), id: Number(lastInsertRowid), enqueuedAt, attempts: 0, notBefore: 0 };
+  });
+
+  return {
+    add(item) {
+      const enqueuedAt = Date.now();
+      const { lastInsertRowid } = addStmt.run(item.type, JSON.stringify(item.data), enqueuedAt);
+      return { ...item, id: Number(lastInsertRowid), enqueuedAt, attempts: 0, notBefore: 0 };
+    },
+    pending: () => pendingStmt.all().map(jobFromRow),
+    reschedule(id, attempts, notBefore, lastError) {
+      rescheduleStmt.run(attempts, notBefore, lastError, id);
+    },
+    complete(id) {
+      completeStmt.run(id);
+    },
+    bury(id, attempts, lastError) {
+      bury(id, attempts, lastError);
+    },
+
+    deadLetters: () => deadLettersStmt.all().map((row) => ({ ...jobFromRow(row), failedAt: row.failed_at })),
+    revive: (id) => revive(id),
+    discard: (id) => discardStmt.run(id).changes > 0,
+
+    close() {
+      db.close();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/** Same `TRACKING_STORE` kind and database file as the tracking store (see store.ts). */
+export function createQueueStore(kind: string, path: string): QueueStore {
+  if (kind === "memory") return createMemoryQueueStore();
+  if (kind === "sqlite") return createSqliteQueueStore(path);
+  throw new Error(`Unknown TRACKING_STORE "${kind}" (expected "sqlite" or "memory")`);
+}
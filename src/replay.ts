@@ -0,0 +1,529 @@
+/**
+ * replay.ts — Feed recorded Slack events through the pipeline without a live workspace.
+ *
+ * Usage: npm run replay -- <events.jsonl> [--live] [--json] [--verbose]
+ *
+ * Each line of the input file is a Slack `message` event as delivered to the app
+ * (plain messages, thread replies, `message_changed` and `message_deleted`), a
+ * `reaction_added` event, a `block_actions` payload (a button click on a triage reply or a
+ * ticket draft), a `view_submission` payload (a saved draft edit), a `message_action` payload
+ * (the "Send to Linear" shortcut) or a slash command payload (`/triage`).
+ * Events go through the same routing as `app.message` / `app.event("message")` /
+ * `app.event("reaction_added")` / `app.action` / `app.view` / `app.shortcut` / `app.command` against in-process
+ * fakes of the Slack Web API and the Linear client, and the harness prints which queue
+ * type each event produced, which agent handler ran, and every Slack/Linear call made.
+ *
+ * By default a scripted agent stands in for Claude so runs are fast and deterministic.
+ * Annotate an event with `"_replay": { "action": "deferred" }` (or `"ticket": "FAKE-1"` for
+ * duplicates/updates) to choose what it decides. `--live` runs the real agent against the
+ * fakes instead and needs ANTHROPIC_API_KEY. With approval mode on (through TRIAGE_CONFIG_PATH)
+ * the scripted agent drafts tickets with the IDs draft-1, draft-2, … for the draft buttons to use.
+ */
+
+import "dotenv/config";
+import { existsSync, readFileSync } from "node:fs";
+import type { LinearClient } from "@linear/sdk";
+import type * as Agent from "./agent.js";
+import appConfig, { directMessageRoute, isDirectMessageChannel, type ChannelRoute } from "./config.js";
+import { loadConfigFile } from "./configFile.js";
+import { draftReviewBlocks } from "./blocks.js";
+import { createFakeLinear, createFakeSlack, type FakeCall, type FakeSlack } from "./fakes.js";
+import { createPipeline, type AgentHandlers, type QueuedMessage } from "./pipeline.js";
+import { createMemoryStore, type IssueDraft, type TrackingStore } from "./store.js";
+import { createMemoryQueueStore } from "./queueStore.js";
+
+const BOT_USER_ID = "UREPLAY";
+
+// A DM the pipeline takes in (DM intake on)
+const isDirectMessage = (channel: string) => appConfig.directMessages.enabled && isDirectMessageChannel(channel);
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What the scripted agent should decide for an event. */
+interface ReplayScript {
+  action?: string;
+  ticket?: string;
+}
+
+type ReplayEvent = Record<string, unknown> & { channel: string; _replay?: ReplayScript };
+
+/** The Slack message a scripted handler is acting on; its Linear changes are logged under it. */
+interface ScriptedRun {
+  kind: string;
+  channel: string;
+  threadTs: string;
+  messageTs: string;
+}
+
+/** A change the scripted agent made, with how to reverse it (for undo). */
+interface ScriptedChange extends ScriptedRun {
+  issue: { id: string; identifier: string };
+  /** Whether the change created the issue or commented on it (vs. an update). */
+  touchesTicket: boolean;
+  revert(): Promise<string>;
+  undone?: boolean;
+}
+
+type TraceEntry =
+  | { event: number; kind: "queue"; type: QueuedMessage["type"] }
+  | { event: number; kind: "handler"; name: string; result?: unknown }
+  | { event: number; kind: "call"; service: FakeCall["service"]; method: string; args: unknown };
+
+// ---------------------------------------------------------------------------
+// Input
+// ---------------------------------------------------------------------------
+
+function readEvents(path: string): ReplayEvent[] {
+  const lines = readFileSync(path, "utf8").split("\n");
+  const events: ReplayEvent[] = [];
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    let event: ReplayEvent;
+    try {
+      event = JSON.parse(line);
+    } catch (e) {
+      throw new Error(`${path}:${i + 1}: invalid JSON (${e instanceof Error ? e.message : e})`);
+    }
+    // Reaction events carry their channel on the reacted item
+    if (event.type === "reaction_added" && typeof event.channel !== "string") {
+      event.channel = (event.item as { channel?: string } | undefined)?.channel as string;
+    }
+    // Interaction payloads carry it as an object, slash commands as channel_id
+    if ((event.type === "block_actions" || event.type === "message_action") && typeof event.channel === "object") {
+      event.channel = (event.channel as { id?: string } | null)?.id as string;
+    }
+    if (typeof event.command === "string") {
+      event.channel = event.channel_id as string;
+    }
+    // Modal submissions aren't tied to a channel
+    if (event.type === "view_submission") {
+      event.channel = "";
+    }
+    if (typeof event.channel !== "string") {
+      throw new Error(`${path}:${i + 1}: event has no "channel"`);
+    }
+    events.push(event);
+  });
+  return events;
+}
+
+function describeEvent(event: ReplayEvent): string {
+  if (event.subtype === "message_changed") {
+    const msg = event.message as { ts?: string; text?: string };
+    return `message_changed ${event.channel} ${msg.ts} "${(msg.text ?? "").slice(0, 60)}"`;
+  }
+  if (event.subtype === "message_deleted") {
+    return `message_deleted ${event.channel} ${event.deleted_ts}`;
+  }
+  if (event.type === "view_submission") {
+    const view = event.view as { callback_id?: string; private_metadata?: string };
+    return `view_submission ${view.callback_id} ${view.private_metadata} by ${(event.user as { id?: string }).id}`;
+  }
+  if (event.type === "message_action") {
+    return `message_action ${event.channel} ${event.callback_id} on ${(event.message as { ts?: string }).ts} by ${(event.user as { id?: string }).id}`;
+  }
+  if (typeof event.command === "string") {
+    return `slash_command ${event.channel} ${event.command} "${String(event.text ?? "").slice(0, 60)}" by ${event.user_id}`;
+  }
+  if (event.type === "block_actions") {
+    const [action] = event.actions as Array<{ action_id?: string }>;
+    return `block_actions ${event.channel} ${action?.action_id} by ${(event.user as { id?: string }).id}`;
+  }
+  if (event.type === "reaction_added") {
+    return `reaction_added ${event.channel} ${(event.item as { ts?: string }).ts} :${event.reaction}: by ${event.user}`;
+  }
+  const where = event.thread_ts && event.thread_ts !== event.ts ? ` (thread ${event.thread_ts})` : "";
+  return `message ${event.channel} ${event.ts}${where} "${String(event.text ?? "").slice(0, 60)}"`;
+}
+
+// ---------------------------------------------------------------------------
+// Scripted agent
+// ---------------------------------------------------------------------------
+
+// Mimics the agent's observable behaviour (tickets, comments, thread replies) using the fakes
+function createScriptedAgent(
+  slack: FakeSlack,
+  linear: LinearClient,
+  store: TrackingStore,
+  routeFor: (channel: string) => ChannelRoute,
+  scriptFor: (ts: string) => ReplayScript | undefined
+): AgentHandlers {
+  const changes: ScriptedChange[] = [];
+  let draftCount = 0;
+
+  async function createIssue(run: ScriptedRun, fields: { title: string; description: string; priority: number }) {
+    const route = routeFor(run.channel);
+    const labelIds = route.issueTemplate?.labelIds;
+    const payload = await linear.createIssue({
+      teamId: route.linear.teamId,
+      ...(route.linear.projectId && { projectId: route.linear.projectId }),
+      ...(labelIds?.length && { labelIds }),
+      ...fields,
+    });
+    const issue = (await payload.issue)!;
+    changes.push({ ...run, issue, touchesTicket: true, revert: async () => {
+      await linear.updateIssue(issue.id, { stateId: "state-canceled" });
+      return `canceled ${issue.identifier}`;
+    } });
+    return issue;
+  }
+
+  // Returns null in approval mode, where the ticket is only drafted. `reply: false` keeps it out
+  // of Slack (the bot isn't in the channel)
+  async function createTicket(run: ScriptedRun & { userId?: string; reply?: boolean }, text: string) {
+    const fields = { title: text.split("\n")[0].slice(0, 80) || "(no title)", description: text, priority: 3 };
+    if (appConfig.approval.enabled && !isDirectMessage(run.channel)) {
+      const now = Date.now();
+      const draft: IssueDraft = {
+        id: `draft-${++draftCount}`,
+        channel: run.channel,
+        threadTs: run.threadTs,
+        messageTs: run.messageTs,
+        runKind: run.kind,
+        reporterId: run.userId,
+        ...fields,
+        reporterInfo: run.userId ?? "unknown",
+        suspectedDuplicates: [],
+        createdAt: now,
+        expiresAt: now + appConfig.approval.expiresAfterHours * 60 * 60 * 1000,
+      };
+      const reviewChannel = appConfig.approval.reviewChannelId || run.channel;
+      const posted = await slack.client.chat.postMessage({
+        channel: reviewChannel,
+        thread_ts: appConfig.approval.reviewChannelId ? undefined : run.threadTs,
+        text: `Ticket draft for review: ${fields.title}`,
+        blocks: draftReviewBlocks(draft),
+      });
+      store.saveDraft({ ...draft, review: { channel: reviewChannel, ts: posted.ts } });
+      await slack.client.chat.postMessage({ channel: run.channel, thread_ts: run.threadTs, text: "I've drafted a ticket for the team to review." });
+      return null;
+    }
+    const issue = await createIssue(run, fields);
+    if (run.reply !== false) {
+      await slack.client.chat.postMessage({ channel: run.channel, thread_ts: run.threadTs, text: `Created <${issue.url}|${issue.identifier}>` });
+    }
+    return issue;
+  }
+
+  async function commentOn(run: ScriptedRun, ticket: string | undefined, body: string) {
+    if (!ticket) throw new Error('scripted duplicate/update needs "_replay.ticket"');
+    const issue = await linear.issue(ticket);
+    const comment = (await (await linear.createComment({ issueId: issue.id, body })).comment)!;
+    changes.push({ ...run, issue, touchesTicket: true, revert: async () => {
+      await linear.deleteComment(comment.id);
+      return `deleted the comment on ${issue.identifier}`;
+    } });
+    return issue;
+  }
+
+  return {
+    async triageMessage(input) {
+      const run = {
+        kind: "triage",
+        channel: input.channel,
+        threadTs: input.threadTs,
+        messageTs: input.messageTs ?? input.threadTs,
+        userId: input.userId,
+        reply: input.replyInThread,
+      };
+      const script = scriptFor(run.messageTs);
+      const action = input.forcedBy ? "created" : script?.action ?? "created";
+      if (action === "created") {
+        const issue = await createTicket(run, input.messageText);
+        if (!issue) return { action: "drafted", message: "drafted" };
+        return { action, ticketId: issue.id, ticketIdentifier: issue.identifier, ticketUrl: issue.url, message: "created" };
+      }
+      if (action === "duplicate") {
+        const issue = await commentOn(run, script?.ticket, input.messageText);
+        await slack.client.chat.postMessage({
+          channel: input.channel,
+          thread_ts: input.threadTs,
+          text: `This looks like an existing ticket: <${issue.url}|${issue.identifier}>`,
+        });
+        return { action, ticketId: issue.id, ticketIdentifier: issue.identifier, ticketUrl: issue.url, message: "duplicate" };
+      }
+      if (action === "deferred") {
+        await slack.client.chat.postMessage({ channel: input.channel, thread_ts: input.threadTs, text: "Leaving this one for the team for now." });
+        return { action, message: "deferred" };
+      }
+      if (action === "needs_info") {
+        await slack.client.chat.postMessage({
+          channel: input.channel,
+          thread_ts: input.threadTs,
+          text: "Thanks! Could you add the steps to reproduce, your browser/OS and what you expected to happen?",
+        });
+        return { action, message: "needs_info" };
+      }
+      return { action: "skipped", message: "skipped" };
+    },
+
+    async triageOrphanThreadReply(input) {
+      const run = { kind: "orphan_thread", channel: input.channel, threadTs: input.threadTs, messageTs: input.messageTs, userId: input.userId };
+      const script = scriptFor(input.messageTs);
+      if (script?.action === "created") {
+        const issue = await createTicket(run, input.replyText);
+        return { action: "created", ticketId: issue?.id, ticketIdentifier: issue?.identifier, message: "created" };
+      }
+      if (script?.action === "updated") {
+        const issue = await commentOn(run, script.ticket, input.replyText);
+        return { action: "updated", ticketId: issue.id, ticketIdentifier: issue.identifier, message: "updated" };
+      }
+      return { action: "skipped", message: "skipped" };
+    },
+
+    async handleThreadReply(input) {
+      const run = { kind: "thread_reply", channel: input.channel, threadTs: input.threadTs, messageTs: input.messageTs };
+      await commentOn(run, input.ticketId, input.replyText);
+      await slack.client.reactions.add({ channel: input.channel, timestamp: input.messageTs, name: "white_check_mark" });
+    },
+
+    async handleDeferredFollowup(input) {
+      if (scriptFor(input.messageTs)?.action === "created") {
+        const run = { kind: "deferred_followup", channel: input.channel, threadTs: input.threadTs, messageTs: input.messageTs, userId: input.userId };
+        const issue = await createTicket(run, `${input.originalContext ?? ""}\n\n${input.replyText}`.trim());
+        return { action: "created", ticketId: issue?.id, ticketIdentifier: issue?.identifier, message: "created" };
+      }
+      return { action: "no_action", message: "no_action" };
+    },
+
+    async handleInfoFollowup(input) {
+      const run = { kind: "info_followup", channel: input.channel, threadTs: input.threadTs, messageTs: input.threadTs, userId: input.userId };
+      const details = input.timedOut ? "_No answer from the reporter; steps, environment and expected behaviour are unknown._" : input.replyText ?? "";
+      const issue = await createTicket(run, `${input.originalContext ?? ""}\n\n${details}`.trim());
+      if (!issue) return { action: "drafted", message: "drafted" };
+      return { action: "created", ticketId: issue.id, ticketIdentifier: issue.identifier, ticketUrl: issue.url, message: "created" };
+    },
+
+    async handleDirectCommand(input) {
+      await slack.client.chat.postMessage({ channel: input.channel, thread_ts: input.threadTs, text: "Done." });
+      return { action: "executed", message: "executed" };
+    },
+
+    async handleMessageEdit(input) {
+      const run = { kind: "message_edited", channel: input.channel, threadTs: input.threadTs ?? input.messageTs, messageTs: input.messageTs };
+      await commentOn(run, input.ticketId, `Reporter edited their Slack message:\n\n${input.editedText}`);
+    },
+
+    async handleMessageDelete(input) {
+      const run = { kind: "message_deleted", channel: input.channel, threadTs: input.messageTs, messageTs: input.messageTs };
+      await commentOn(run, input.ticketId, "The original Slack message was deleted.");
+    },
+
+    async setIssuePriority(input) {
+      const issue = await linear.issue(input.ticketId);
+      const previous = issue.priority;
+      await linear.updateIssue(issue.id, { priority: input.priority });
+      const run = { kind: input.trigger, channel: input.channel, threadTs: input.threadTs, messageTs: input.messageTs };
+      changes.push({ ...run, issue, touchesTicket: false, revert: async () => {
+        await linear.updateIssue(issue.id, { priority: previous });
+        return `restored the priority of ${issue.identifier}`;
+      } });
+      return { id: issue.id, identifier: issue.identifier, url: issue.url };
+    },
+
+    async assignIssueToSlackUser(input) {
+      const issue = await linear.issue(input.ticketId);
+      const profile = await slack.client.users.info({ user: input.userId });
+      const email = profile.user?.profile.email;
+      const assignee = (await linear.users()).nodes.find((u) => u.email === email);
+      if (!assignee) return { assigned: false, message: `No Linear user with ${email}.` };
+      const previous = (await issue.assignee)?.id ?? null;
+      await linear.updateIssue(issue.id, { assigneeId: assignee.id });
+      const run = { kind: "button", channel: input.channel, threadTs: input.threadTs, messageTs: input.messageTs };
+      changes.push({ ...run, issue, touchesTicket: false, revert: async () => {
+        await linear.updateIssue(issue.id, { assigneeId: previous });
+        return `restored the assignee of ${issue.identifier}`;
+      } });
+      return { assigned: true, message: `<${issue.url}|${issue.identifier}> is now assigned to ${assignee.name}.` };
+    },
+
+    // Each scripted change is its own set, so undo reverses just the latest one
+    async undoLastOperations(input) {
+      const change = [...changes].reverse().find((c) =>
+        !c.undone && c.channel === input.channel && c.threadTs === input.threadTs &&
+        (!input.messageTs || c.messageTs === input.messageTs) && (!input.runKind || c.kind === input.runKind));
+      if (!change) return { undone: false, message: "There's nothing to undo here.", issues: [] };
+      change.undone = true;
+      return {
+        undone: true,
+        message: `Undone: ${await change.revert()}.`,
+        runKind: change.kind,
+        messageTs: change.messageTs,
+        issues: change.touchesTicket ? [change.issue] : [],
+      };
+    },
+
+    async createIssueFromDraft(draft) {
+      const run = { kind: draft.runKind, channel: draft.channel, threadTs: draft.threadTs, messageTs: draft.messageTs };
+      const issue = await createIssue(run, { title: draft.title, description: draft.description, priority: draft.priority });
+      return { id: issue.id, identifier: issue.identifier, url: issue.url, priority: draft.priority };
+    },
+
+    async uploadImageToLinearCdn(_url, filename, contentType) {
+      const upload = await linear.fileUpload(contentType, filename, 0);
+      return { url: upload.uploadFile!.assetUrl, buffer: Buffer.alloc(0), contentType };
+    },
+  };
+}
+
+// Record each handler call in the trace, filling in its result once it returns
+function traced(agent: AgentHandlers, onCall: (name: string) => { result?: unknown }): AgentHandlers {
+  const wrapped = {} as Record<string, unknown>;
+  for (const [name, fn] of Object.entries(agent)) {
+    wrapped[name] = async (...args: unknown[]) => {
+      const entry = onCall(name);
+      entry.result = await (fn as (...a: unknown[]) => Promise<unknown>)(...args);
+      return entry.result;
+    };
+  }
+  return wrapped as unknown as AgentHandlers;
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+function summarizeResult(result: unknown): string {
+  if (!result || typeof result !== "object") return "";
+  const r = result as { action?: string; ticketIdentifier?: string; url?: string };
+  if (r.action) return ` → ${r.action}${r.ticketIdentifier ? ` ${r.ticketIdentifier}` : ""}`;
+  if (r.url) return ` → ${r.url}`;
+  return "";
+}
+
+function printTrace(events: ReplayEvent[], trace: TraceEntry[]): void {
+  events.forEach((event, i) => {
+    process.stdout.write(`#${i + 1} ${describeEvent(event)}\n`);
+    const entries = trace.filter((t) => t.event === i + 1);
+    if (entries.length === 0) process.stdout.write("   (ignored)\n");
+    for (const entry of entries) {
+      if (entry.kind === "queue") process.stdout.write(`   queue    ${entry.type}\n`);
+      else if (entry.kind === "handler") process.stdout.write(`   handler  ${entry.name}${summarizeResult(entry.result)}\n`);
+      else process.stdout.write(`   ${entry.service.padEnd(8)} ${entry.method} ${JSON.stringify(entry.args)}\n`);
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const flags = new Set(args.filter((a) => a.startsWith("--")));
+  const [path] = args.filter((a) => !a.startsWith("--"));
+  if (!path) {
+    console.error("Usage: npm run replay -- <events.jsonl> [--live] [--json] [--verbose]");
+    process.exit(1);
+  }
+
+  const configFilePath = process.env.TRIAGE_CONFIG_PATH;
+  if (configFilePath && existsSync(configFilePath)) {
+    Object.assign(appConfig, loadConfigFile(configFilePath, structuredClone(appConfig)));
+  }
+
+  const events = readEvents(path);
+
+  // Configured channels keep their routes; otherwise every channel in the file is monitored
+  // (shortcuts and slash commands work anywhere, so their channels don't count, and DMs get
+  // the DM route when DM intake is on)
+  const routes: ChannelRoute[] = appConfig.channels.length > 0
+    ? appConfig.channels
+    : [...new Set(events.filter((e) => e.type !== "message_action" && typeof e.command !== "string").map((e) => e.channel).filter((c) => c && !isDirectMessage(c)))].map((channelId) => ({
+        channelId,
+        channelName: channelId,
+        linear: { teamId: "team-replay", projectId: "project-replay" },
+      }));
+  const routeFor = (channel: string) =>
+    isDirectMessage(channel) ? directMessageRoute(appConfig, routes[0], channel) : routes.find((r) => r.channelId === channel) ?? routes[0];
+
+  const trace: TraceEntry[] = [];
+  let current = 0;
+  const onCall = (call: FakeCall) => trace.push({ event: current, kind: "call", ...call });
+
+  // The bot is in the monitored channels and its DMs only
+  const slack = createFakeSlack({
+    botUserId: BOT_USER_ID,
+    onCall,
+    isMember: (channel) => isDirectMessage(channel) || routes.some((r) => r.channelId === channel),
+  });
+  const linear = createFakeLinear({ onCall });
+  const scripts = new Map(events.filter((e) => e._replay && e.ts).map((e) => [e.ts as string, e._replay!]));
+
+  const store = createMemoryStore({ retentionMs: 30 * 24 * 60 * 60 * 1000 });
+  let agent: AgentHandlers;
+  if (flags.has("--live")) {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      console.error("--live needs ANTHROPIC_API_KEY");
+      process.exit(1);
+    }
+    const live: typeof Agent = await import("./agent.js");
+    live.setDependencies({ client: slack.client } as unknown as Parameters<typeof live.setDependencies>[0], linear, routes, store);
+    agent = live;
+  } else {
+    agent = createScriptedAgent(slack, linear, store, routeFor, (ts) => scripts.get(ts));
+  }
+
+  const pipeline = createPipeline({
+    client: slack.client,
+    store,
+    queue: createMemoryQueueStore(),
+    agent: traced(agent, (name) => {
+      const entry: TraceEntry = { event: current, kind: "handler", name };
+      trace.push(entry);
+      return entry;
+    }),
+    botUserId: BOT_USER_ID,
+    isMonitoredChannel: (channel) => routes.some((r) => r.channelId === channel),
+    onEnqueue: (item) => trace.push({ event: current, kind: "queue", type: item.type }),
+    respond: slack.respond,
+  });
+
+  // The pipeline logs every step; keep the report readable unless asked for it
+  const log = console.log;
+  if (!flags.has("--verbose")) console.log = () => {};
+
+  try {
+    for (const [i, event] of events.entries()) {
+      current = i + 1;
+      const { _replay, ...slackEvent } = event;
+      if (slackEvent.type === "reaction_added") {
+        await pipeline.handleReactionAdded(slackEvent);
+      } else if (slackEvent.type === "block_actions") {
+        await pipeline.handleBlockAction({ ...slackEvent, channel: { id: slackEvent.channel } });
+      } else if (slackEvent.type === "view_submission") {
+        await pipeline.handleViewSubmission(slackEvent);
+      } else if (slackEvent.type === "message_action") {
+        // The shortcut's message is already in Slack, even in channels the replay doesn't post to
+        slack.applyEvent({ ...(slackEvent.message as Record<string, unknown>), channel: slackEvent.channel });
+        await pipeline.handleMessageShortcut({ ...slackEvent, channel: { id: slackEvent.channel } });
+      } else if (typeof slackEvent.command === "string") {
+        await pipeline.handleSlashCommand(slackEvent);
+      } else {
+        slack.applyEvent(slackEvent);
+        // Bolt hands every message event to both listeners
+        await pipeline.handleMessage(slackEvent);
+        await pipeline.handleMessageEvent(slackEvent);
+      }
+      await pipeline.processQueue();
+      await pipeline.expireDrafts();
+      pipeline.timeOutInfoRequests();
+      await pipeline.processQueue();
+    }
+  } finally {
+    console.log = log;
+  }
+
+  if (flags.has("--json")) {
+    for (const entry of trace) process.stdout.write(JSON.stringify(entry) + "\n");
+  } else {
+    printTrace(events, trace);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
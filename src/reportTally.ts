@@ -0,0 +1,213 @@
+/**
+ * reportTally.ts — The "Slack reports" section the bot keeps in a ticket's description.
+ *
+ * Every report the bot files or links to a ticket adds its reporter to the section: who
+ * reported it, whether they're internal or external, when they first and last reported it,
+ * and their Slack threads. The section itself is the record: it is parsed back from the
+ * description on each update, so it survives restarts. Undoing a report takes just that report
+ * back out of the current section (see removeReport), so reports and edits made since stay.
+ *
+ * Reporters are Slack users, linked to their profile so they can be told apart by ID:
+ *
+ *   ### Slack reports
+ *   **2 people** reported this (1 internal, 1 external) · first 2024-05-01 · last 2024-05-14
+ *
+ *   - [Alice Example](https://slack.com/team/U0ALICE) · external · 2024-05-01 → 2024-05-14 · [thread](…) [thread](…)
+ *   - [Bob Example](https://slack.com/team/U0BOB) · internal · 2024-05-03 · [thread](…)
+ *
+ *   _This section is kept up to date by the triage bot._
+ */
+
+import { PRIORITY_NAMES } from "./blocks.js";
+import type { EscalationThreshold } from "./config.js";
+
+const HEADING = "### Slack reports";
+const FOOTER = "_This section is kept up to date by the triage bot._";
+// Threads listed per reporter; older ones are dropped from the list
+const MAX_THREADS = 5;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ReporterKind = "internal" | "external" | "unknown";
+
+export interface Reporter {
+  /** Slack user ID. */
+  userId: string;
+  name: string;
+  /** The reporter's affiliation (see slackUsers.ts): their Slack workspace, or their email and `internalEmailDomain`. */
+  kind: ReporterKind;
+  /** Dates as YYYY-MM-DD. */
+  firstSeen: string;
+  lastSeen: string;
+  /** Slack permalinks of the threads they reported in, oldest first. */
+  threads: string[];
+}
+
+export interface ReportTally {
+  reporters: Reporter[];
+  /** The last automatic escalation, so it isn't repeated after someone lowers the priority again. */
+  escalation?: { priority: number; reporters: number };
+}
+
+/** What undo needs to take a report back out of the tally. */
+export interface RecordedReport {
+  userId: string;
+  threadUrl: string;
+  /** The reporter's entry before the report; absent when they were new to the ticket. */
+  previous?: Pick<Reporter, "lastSeen" | "threads">;
+}
+
+export interface NewReport {
+  userId: string;
+  name: string;
+  kind: ReporterKind;
+  /** YYYY-MM-DD */
+  date: string;
+  threadUrl: string;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing and Rendering
+// ---------------------------------------------------------------------------
+
+const REPORTER_LINE = /^- \[(.+?)\]\(https:\/\/slack\.com\/team\/([A-Z0-9]+)\) · (internal|external|unknown) · (\d{4}-\d{2}-\d{2})(?: → (\d{4}-\d{2}-\d{2}))?(?: · (.*))?$/;
+const ESCALATION_LINE = /^Priority raised to \*\*\w+\*\* \((\d)\) at (\d+) reporters/;
+
+// Line range of the managed section, footer included
+function sectionBounds(lines: string[]): { start: number; end: number } | null {
+  const start = lines.findIndex((line) => line.trim() === HEADING);
+  if (start < 0) return null;
+  const footer = lines.findIndex((line, i) => i > start && line.trim() === FOOTER);
+  return { start, end: footer < 0 ? lines.length - 1 : footer };
+}
+
+/** Read the tally back from a description. Descriptions without the section have no reporters yet. */
+export function parseReportTally(description: string): ReportTally {
+  const lines = description.split("\n");
+  const bounds = sectionBounds(lines);
+  if (!bounds) return { reporters: [] };
+
+  const tally: ReportTally = { reporters: [] };
+  for (const line of lines.slice(bounds.start + 1, bounds.end)) {
+    const reporter = REPORTER_LINE.exec(line.trim());
+    if (reporter) {
+      const [, name, userId, kind, firstSeen, lastSeen, links] = reporter;
+      tally.reporters.push({
+        userId,
+        name,
+        kind: kind as ReporterKind,
+        firstSeen,
+        lastSeen: lastSeen ?? firstSeen,
+        threads: [...(links ?? "").matchAll(/\]\((https:\/\/slack\.com\/archives\/[^)\s]+)\)/g)].map((m) => m[1]),
+      });
+      continue;
+    }
+    const escalation = ESCALATION_LINE.exec(line.trim());
+    if (escalation) tally.escalation = { priority: Number(escalation[1]), reporters: Number(escalation[2]) };
+  }
+  return tally;
+}
+
+function renderSection(tally: ReportTally): string {
+  const { reporters } = tally;
+  const count = (kind: ReporterKind) => reporters.filter((r) => r.kind === kind).length;
+  const kinds = (["internal", "external"] as const).filter((k) => count(k) > 0).map((k) => `${count(k)} ${k}`);
+  const first = reporters.map((r) => r.firstSeen).sort()[0];
+  const last = reporters.map((r) => r.lastSeen).sort().at(-1);
+
+  const summary = `**${reporters.length} ${reporters.length === 1 ? "person" : "people"}** reported this` +
+    (kinds.length > 0 ? ` (${kinds.join(", ")})` : "") +
+    (first === last ? ` · ${first}` : ` · first ${first} · last ${last}`);
+
+  const lines = reporters.map((r) => {
+    const seen = r.firstSeen === r.lastSeen ? r.firstSeen : `${r.firstSeen} → ${r.lastSeen}`;
+    const threads = r.threads.map((url) => `[thread](${url})`).join(" ");
+    return `- [${r.name.replace(/[[\]]/g, "")}](https://slack.com/team/${r.userId}) · ${r.kind} · ${seen}${threads ? ` · ${threads}` : ""}`;
+  });
+
+  const escalation = tally.escalation
+    ? [`Priority raised to **${PRIORITY_NAMES[tally.escalation.priority] ?? tally.escalation.priority}** (${tally.escalation.priority}) at ${tally.escalation.reporters} reporters.`, ""]
+    : [];
+
+  return [HEADING, summary, "", ...lines, "", ...escalation, FOOTER].join("\n");
+}
+
+/**
+ * The description with its section replaced by (or, the first time, followed by) the tally.
+ * A tally without reporters removes the section.
+ */
+export function withReportTally(description: string, tally: ReportTally): string {
+  const lines = description.split("\n");
+  const bounds = sectionBounds(lines);
+  if (tally.reporters.length === 0) {
+    if (!bounds) return description;
+    const before = lines.slice(0, bounds.start).join("\n").trimEnd();
+    const after = lines.slice(bounds.end + 1).join("\n").trim();
+    return [before, after].filter(Boolean).join("\n\n");
+  }
+  const section = renderSection(tally);
+  if (!bounds) return description.trim() ? `${description.trimEnd()}\n\n${section}` : section;
+  return [...lines.slice(0, bounds.start), section, ...lines.slice(bounds.end + 1)].join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Counting and Escalation
+// ---------------------------------------------------------------------------
+
+/** Add a report; someone reporting again updates their last-seen date and threads. */
+export function addReport(tally: ReportTally, report: NewReport): ReportTally {
+  const existing = tally.reporters.find((r) => r.userId === report.userId);
+  if (!existing) {
+    const reporter: Reporter = {
+      userId: report.userId,
+      name: report.name,
+      kind: report.kind,
+      firstSeen: report.date,
+      lastSeen: report.date,
+      threads: [report.threadUrl],
+    };
+    return { ...tally, reporters: [...tally.reporters, reporter] };
+  }
+  const threads = existing.threads.includes(report.threadUrl) ? existing.threads : [...existing.threads, report.threadUrl].slice(-MAX_THREADS);
+  const updated: Reporter = {
+    ...existing,
+    name: report.name,
+    kind: report.kind,
+    lastSeen: report.date > existing.lastSeen ? report.date : existing.lastSeen,
+    threads,
+  };
+  return { ...tally, reporters: tally.reporters.map((r) => (r === existing ? updated : r)) };
+}
+
+/**
+ * Take a report back out (undo): its thread leaves the reporter's list, and a reporter it added
+ * is dropped once none of their threads are left. Reports made since are kept.
+ */
+export function removeReport(tally: ReportTally, report: RecordedReport): ReportTally {
+  const existing = tally.reporters.find((r) => r.userId === report.userId);
+  if (!existing) return tally;
+  const { previous } = report;
+  const threads = previous?.threads.includes(report.threadUrl) ? existing.threads : existing.threads.filter((url) => url !== report.threadUrl);
+  if (!previous && threads.length === 0) return { ...tally, reporters: tally.reporters.filter((r) => r !== existing) };
+  // The last-seen date goes back too, unless the reporter has reported again since
+  const reportedSince = threads.some((url) => !previous?.threads.includes(url));
+  const updated: Reporter = { ...existing, threads, lastSeen: previous && !reportedSince ? previous.lastSeen : existing.lastSeen };
+  return { ...tally, reporters: tally.reporters.map((r) => (r === existing ? updated : r)) };
+}
+
+/**
+ * The priority the ticket should be raised to, or undefined when it stays as it is: the most
+ * urgent threshold reached, if it is more urgent than both the current priority and the last
+ * automatic escalation. Linear's 0 (no priority) counts as the least urgent.
+ */
+export function escalatedPriority(tally: ReportTally, thresholds: EscalationThreshold[], currentPriority: number): number | undefined {
+  const reached = thresholds.filter((t) => tally.reporters.length >= t.reporters).map((t) => t.priority);
+  if (reached.length === 0) return undefined;
+  const target = Math.min(...reached);
+  const urgency = (priority: number) => (priority === 0 ? 5 : priority);
+  if (urgency(target) >= urgency(currentPriority)) return undefined;
+  if (tally.escalation && urgency(target) >= urgency(tally.escalation.priority)) return undefined;
+  return target;
+}
@@ -0,0 +1,75 @@
+/**
+ * retry.ts — Which failures are worth retrying, and how long to wait before the next attempt.
+ *
+ * Used by the work queue in pipeline.ts. Agent functions rethrow these errors instead of
+ * reporting them as a decision, so the queue can try the event again later.
+ */
+
+export interface RetryPolicy {
+  /** Attempts before an item goes to the dead-letter list (including the first one). */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on every further attempt. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 5_000,
+  maxDelayMs: 5 * 60_000,
+};
+
+// Anthropic overload / rate limits, Linear and Slack 5xx and rate limits, network trouble
+const TRANSIENT_PATTERNS = [
+  /overloaded/i,
+  /rate[ _-]?limit/i,
+  /too many requests/i,
+  /\b(?:status(?: code)?|API Error):? (?:429|5\d\d)\b/i,
+  /internal server error|bad gateway|service unavailable|gateway timeout/i,
+  /fetch failed|socket hang up|ETIMEDOUT|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN/,
+];
+
+function statusOf(error: unknown): number | undefined {
+  if (typeof error !== "object" || error === null) return undefined;
+  const e = error as { status?: unknown; statusCode?: unknown };
+  for (const value of [e.status, e.statusCode]) {
+    if (typeof value === "number") return value;
+  }
+  return undefined;
+}
+
+// @linear/sdk error types (LinearErrorType) that clear up on their own
+const TRANSIENT_LINEAR_TYPES = ["Ratelimited", "NetworkError", "InternalError", "LockTimeout"];
+
+export function isTransientError(error: unknown): boolean {
+  const type = (error as { type?: unknown } | null)?.type;
+  if (typeof type === "string" && TRANSIENT_LINEAR_TYPES.includes(type)) return true;
+  const status = statusOf(error);
+  if (status !== undefined) return status === 429 || status >= 500;
+  // @slack/web-api reports rate limits and HTTP failures through error codes
+  const code = (error as { code?: unknown } | null)?.code;
+  if (code === "slack_webapi_rate_limited_error" || code === "slack_webapi_http_error") return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return TRANSIENT_PATTERNS.some((pattern) => pattern.test(message));
+}
+
+/**
+ * An agent run cut short through its abort signal, as on shutdown. The SDK's AbortError
+ * doesn't set a name, so its messages ("Operation aborted", …) are matched as well.
+ */
+export function isAbortError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  return error.name === "AbortError" || /\baborted\b/i.test(error.message);
+}
+
+/** Delay before attempt number `attempt + 1`, honouring a server's Retry-After when given. */
+export function retryDelayMs(policy: RetryPolicy, attempt: number, error: unknown): number {
+  const retryAfter = (error as { retryAfter?: unknown } | null)?.retryAfter;
+  if (typeof retryAfter === "number" && retryAfter > 0) {
+    return Math.min(retryAfter * 1000, policy.maxDelayMs);
+  }
+  const exponential = policy.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+  // ±20% jitter so retries of several threads don't line up
+  const jitter = exponential * (Math.random() * 0.4 - 0.2);
+  return Math.min(Math.round(exponential + jitter), policy.maxDelayMs);
+}
@@ -0,0 +1,116 @@
+/**
+ * scheduler.ts — Run queued work concurrently while keeping order within each key.
+ *
+ * The pipeline keys every queued event by its Slack thread (`channel:thread_ts`, or the
+ * message's own ts for top-level messages), so independent threads are triaged in parallel
+ * while an edit, reply or command never overtakes the event that created its thread.
+ */
+
+export interface SchedulerOptions<T> {
+  /** Items with the same key run one at a time, in the order they were pushed. */
+  keyOf(item: T): string;
+  run(item: T): Promise<void>;
+  /** Maximum number of items running at once. Read on every dispatch, so it can change live. */
+  concurrency(): number;
+  /** Epoch ms before which an item must not start. A waiting item also holds back later items with its key. */
+  notBefore?(item: T): number;
+  onError?(item: T, error: unknown): void;
+}
+
+export interface Scheduler<T> {
+  push(item: T): void;
+  /** Put an item back at the front of the line (called from `run` to retry it later). */
+  requeue(item: T): void;
+  /** Start whatever can run now. Resolves once nothing is queued or running (or, after stop, running). */
+  drain(): Promise<void>;
+  /** Start nothing new from now on. Resolves once the items already running have finished. */
+  stop(): Promise<void>;
+  /** Items waiting to start. */
+  readonly pending: number;
+  /** Items currently running. */
+  readonly running: number;
+}
+
+export function createScheduler<T>(options: SchedulerOptions<T>): Scheduler<T> {
+  const queue: T[] = [];
+  const activeKeys = new Set<string>();
+  let idleWaiters: Array<() => void> = [];
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  function dispatch(): void {
+    if (wakeTimer) clearTimeout(wakeTimer);
+    wakeTimer = null;
+    if (stopped) {
+      if (activeKeys.size === 0) resolveIdle();
+      return;
+    }
+
+    // Oldest first, skipping items whose key is busy or waiting; later items of that key wait behind it
+    const now = Date.now();
+    const blocked = new Set(activeKeys);
+    let wakeAt = Infinity;
+    for (let i = 0; i < queue.length && activeKeys.size < Math.max(1, options.concurrency()); ) {
+      const key = options.keyOf(queue[i]);
+      const notBefore = options.notBefore?.(queue[i]) ?? 0;
+      if (blocked.has(key) || notBefore > now) {
+        if (notBefore > now) wakeAt = Math.min(wakeAt, notBefore);
+        blocked.add(key);
+        i++;
+        continue;
+      }
+      const [item] = queue.splice(i, 1);
+      activeKeys.add(key);
+      blocked.add(key);
+      void execute(item, key);
+    }
+    if (wakeAt !== Infinity) {
+      wakeTimer = setTimeout(dispatch, wakeAt - now);
+    }
+
+    if (activeKeys.size === 0 && queue.length === 0) resolveIdle();
+  }
+
+  function resolveIdle(): void {
+    const waiters = idleWaiters;
+    idleWaiters = [];
+    for (const resolve of waiters) resolve();
+  }
+
+  async function execute(item: T, key: string): Promise<void> {
+    try {
+      await options.run(item);
+    } catch (error) {
+      options.onError?.(item, error);
+    } finally {
+      activeKeys.delete(key);
+      dispatch();
+    }
+  }
+
+  function drain(): Promise<void> {
+    const idle = new Promise<void>((resolve) => idleWaiters.push(resolve));
+    dispatch();
+    return idle;
+  }
+
+  return {
+    push(item) {
+      queue.push(item);
+    },
+    requeue(item) {
+      queue.unshift(item);
+    },
+    drain,
+    stop() {
+      stopped = true;
+      return drain();
+    },
+    get pending() {
+      return queue.length;
+    },
+    get running() {
+      return activeKeys.size;
+    },
+  };
+}
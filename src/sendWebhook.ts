@@ -0,0 +1,44 @@
+/**
+ * sendWebhook.ts — POST a sample Linear webhook to the local receiver, signed like Linear does.
+ *
+ * Usage: npm run send-webhook -- <payload.json> [--url http://localhost:3000/webhooks/linear]
+ *
+ * `webhookTimestamp` is set to the current time so the receiver's replay check passes.
+ * Signs with LINEAR_WEBHOOK_SECRET.
+ */
+
+import "dotenv/config";
+import { readFileSync } from "node:fs";
+import { LINEAR_WEBHOOK_PATH, signLinearWebhook } from "./webhooks.js";
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const file = args.find((a) => !a.startsWith("--"));
+  const urlIndex = args.indexOf("--url");
+  const url = urlIndex >= 0 ? args[urlIndex + 1] : `http://localhost:${process.env.WEBHOOK_PORT ?? "3000"}${LINEAR_WEBHOOK_PATH}`;
+  const secret = process.env.LINEAR_WEBHOOK_SECRET;
+
+  if (!file) {
+    console.error("Usage: npm run send-webhook -- <payload.json> [--url http://localhost:3000/webhooks/linear]");
+    process.exit(1);
+  }
+  if (!secret) {
+    console.error("Missing required environment variable: LINEAR_WEBHOOK_SECRET");
+    process.exit(1);
+  }
+
+  const payload = { ...JSON.parse(readFileSync(file, "utf8")), webhookTimestamp: Date.now() };
+  const body = JSON.stringify(payload);
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Linear-Signature": signLinearWebhook(body, secret) },
+    body,
+  });
+  console.log(`${response.status} ${await response.text()}`);
+  if (!response.ok) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
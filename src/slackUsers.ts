@@ -0,0 +1,193 @@
+/**
+ * slackUsers.ts — Who a Slack user is, and which organization they belong to.
+ *
+ * In shared (Slack Connect) channels, people from other companies often have no email on
+ * their profile, so `internalEmailDomain` alone can't tell internal and external users apart.
+ * The directory also compares the user's home workspace and Enterprise Grid org with the
+ * bot's own, and names the other organization with `team.info`. Users are cached for an hour
+ * and workspace names for the life of the process, since every report and every
+ * `slack_get_user_info` call looks them up.
+ */
+
+import type { ReporterPriorityRule } from "./config.js";
+import type { ReporterKind } from "./reportTally.js";
+
+const USER_TTL_MS = 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface SlackUser {
+  id?: string;
+  name?: string;
+  real_name?: string;
+  team_id?: string;
+  is_stranger?: boolean;
+  is_restricted?: boolean;
+  is_ultra_restricted?: boolean;
+  enterprise_user?: { enterprise_id?: string; enterprise_name?: string };
+  profile?: { email?: string };
+}
+
+/** The Slack Web API calls the directory makes. */
+export interface UserDirectoryClient {
+  auth: { test(): Promise<{ team_id?: string; enterprise_id?: string }> };
+  users: { info(args: { user: string }): Promise<{ user?: SlackUser }> };
+  team: { info(args: { team: string }): Promise<{ team?: { name?: string } }> };
+}
+
+export interface SlackUserInfo {
+  id: string;
+  name: string;
+  realName?: string;
+  /** Lowercased. Often hidden for people from other organizations. */
+  email?: string;
+  /** The user's home workspace. */
+  teamId?: string;
+  /** Slack's flag for someone from another organization who shares a channel but no workspace with the bot. */
+  isStranger: boolean;
+  enterprise?: { id: string; name?: string };
+  affiliation: ReporterKind;
+  /** The organization of an external user: their Slack Connect workspace or Enterprise Grid org, else their email domain. */
+  org?: string;
+  /** Home workspace of a Slack Connect user, i.e. someone from another organization's workspace. */
+  externalTeamId?: string;
+  /** Email domain, unless it's a webmail domain that says nothing about the company. */
+  companyDomain?: string;
+  /** "Internal", "External — Acme Corp", "External" or "Unknown", for prompts and ticket attribution. */
+  label: string;
+}
+
+export interface UserDirectorySettings {
+  internalEmailDomain: string;
+  /** Webmail and other shared email domains, never used as an organization. */
+  ignoredDomains: string[];
+}
+
+export interface UserDirectory {
+  lookup(userId: string): Promise<SlackUserInfo>;
+}
+
+// ---------------------------------------------------------------------------
+// Directory
+// ---------------------------------------------------------------------------
+
+/** Settings are read on every lookup, so config reloads apply to users looked up afterwards. */
+export function createUserDirectory(client: UserDirectoryClient, settings: () => UserDirectorySettings): UserDirectory {
+  const users = new Map<string, { info: SlackUserInfo; expiresAt: number }>();
+  const teamNames = new Map<string, Promise<string | undefined>>();
+  let ownWorkspace: Promise<{ teamId?: string; enterpriseId?: string }> | null = null;
+
+  function own(): Promise<{ teamId?: string; enterpriseId?: string }> {
+    ownWorkspace ??= client.auth.test()
+      .then((auth) => ({ teamId: auth.team_id, enterpriseId: auth.enterprise_id }))
+      .catch((error) => {
+        ownWorkspace = null;
+        console.error("[Users] Could not look up the bot's Slack workspace:", error);
+        return {};
+      });
+    return ownWorkspace;
+  }
+
+  // Failed lookups aren't cached, so a missing scope or a hiccup doesn't stick
+  function teamName(teamId: string): Promise<string | undefined> {
+    let name = teamNames.get(teamId);
+    if (!name) {
+      name = client.team.info({ team: teamId })
+        .then((result) => result.team?.name || undefined)
+        .catch((error) => {
+          teamNames.delete(teamId);
+          console.error(`[Users] Could not look up Slack workspace ${teamId}:`, error);
+          return undefined;
+        });
+      teamNames.set(teamId, name);
+    }
+    return name;
+  }
+
+  async function describe(userId: string, user: SlackUser): Promise<SlackUserInfo> {
+    const { internalEmailDomain, ignoredDomains } = settings();
+    const internalDomain = internalEmailDomain.toLowerCase();
+    const email = user.profile?.email?.toLowerCase();
+    const emailDomain = email?.split("@")[1];
+    const companyDomain = emailDomain && !ignoredDomains.includes(emailDomain) ? emailDomain : undefined;
+    const enterprise = user.enterprise_user?.enterprise_id
+      ? { id: user.enterprise_user.enterprise_id, name: user.enterprise_user.enterprise_name }
+      : undefined;
+
+    // Only users with a home workspace need the bot's own to compare against
+    const ours = user.team_id ? await own() : {};
+    const sameOrg = !!user.team_id && (user.team_id === ours.teamId || (!!ours.enterpriseId && enterprise?.id === ours.enterpriseId));
+    const otherOrg = !!user.is_stranger || (!!user.team_id && !!ours.teamId && !sameOrg);
+
+    let affiliation: ReporterKind;
+    let org: string | undefined;
+    if (otherOrg) {
+      affiliation = "external";
+      org = (user.team_id && await teamName(user.team_id)) || enterprise?.name || companyDomain;
+    } else if (internalDomain && email) {
+      affiliation = email.endsWith(`@${internalDomain}`) ? "internal" : "external";
+      if (affiliation === "external") org = companyDomain;
+    } else {
+      // A full member of the bot's own workspace; guests may well be customers
+      affiliation = sameOrg && !user.is_restricted && !user.is_ultra_restricted ? "internal" : "unknown";
+    }
+
+    return {
+      id: user.id ?? userId,
+      name: user.name ?? userId,
+      ...(user.real_name && { realName: user.real_name }),
+      ...(email && { email }),
+      ...(user.team_id && { teamId: user.team_id }),
+      isStranger: !!user.is_stranger,
+      ...(enterprise && { enterprise }),
+      affiliation,
+      ...(org && { org }),
+      ...(otherOrg && user.team_id && { externalTeamId: user.team_id }),
+      ...(companyDomain && { companyDomain }),
+      label: affiliationLabel(affiliation, org),
+    };
+  }
+
+  return {
+    async lookup(userId) {
+      const cached = users.get(userId);
+      if (cached && cached.expiresAt > Date.now()) return cached.info;
+      const { user } = await client.users.info({ user: userId });
+      if (!user) throw new Error(`Slack user ${userId} not found`);
+      const info = await describe(userId, user);
+      users.set(userId, { info, expiresAt: Date.now() + USER_TTL_MS });
+      return info;
+    },
+  };
+}
+
+export function affiliationLabel(affiliation: ReporterKind, org?: string): string {
+  if (affiliation === "internal") return "Internal";
+  if (affiliation === "external") return org ? `External — ${org}` : "External";
+  return "Unknown";
+}
+
+// ---------------------------------------------------------------------------
+// Priority Rules
+// ---------------------------------------------------------------------------
+
+function ruleApplies(rule: ReporterPriorityRule, user: Pick<SlackUserInfo, "affiliation" | "org">): boolean {
+  if (rule.affiliation !== user.affiliation) return false;
+  if (!rule.orgs || rule.orgs.length === 0) return true;
+  const org = user.org?.toLowerCase();
+  return !!org && rule.orgs.some((o) => o.toLowerCase() === org);
+}
+
+/**
+ * A new ticket's priority after the rules matching its reporter, applied in order. Priorities
+ * run from 1 (Urgent) to 4 (Low), so "at least High" means 2 or lower.
+ */
+export function priorityForReporter(rules: ReporterPriorityRule[], user: Pick<SlackUserInfo, "affiliation" | "org">, priority: number): number {
+  return rules.filter((rule) => ruleApplies(rule, user)).reduce((p, rule) => {
+    if (rule.atLeast !== undefined) p = Math.min(p, rule.atLeast);
+    if (rule.atMost !== undefined) p = Math.max(p, rule.atMost);
+    return p;
+  }, priority);
+}
@@ -0,0 +1,549 @@
+/**
+ * store.ts — Persistence for thread/message → ticket tracking.
+ *
+ * The Slack listener needs to remember which threads and messages map to which
+ * Linear tickets so follow-ups, edits, and deletes reach the right ticket. It also keeps the
+ * log of Linear writes the bot made, so the last one in a thread can be undone, and the
+ * ticket drafts waiting for approval.
+ * The default store is a SQLite file so mappings survive restarts; an
+ * in-memory store is available for tests and local experiments.
+ */
+
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import type { RecordedReport } from "./reportTally.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type TriageAction = "created" | "duplicate" | "skipped" | "deferred" | "needs_info" | "drafted" | "error";
+
+/** Ticket info for a Slack thread (keyed by thread_ts), used to route follow-up replies. */
+export interface ThreadTicketInfo {
+  ticketId: string;
+  ticketIdentifier: string;
+  createdAt: number;
+  isDuplicate: boolean;
+  isDeferred: boolean;
+  /**
+   * The bot asked the reporter for missing details and no ticket exists yet (ticketId is "").
+   * `createdAt` is when it asked; the ticket is created on the reporter's answer or on timeout.
+   */
+  isAwaitingInfo?: boolean;
+  originalContext?: string;
+  originalReporterId?: string;
+  /** Slack channel of the thread (missing for mappings stored before channels were recorded). */
+  channel?: string;
+}
+
+/** Ticket info for a Slack message (keyed by message ts), used to handle edits and deletes. */
+export interface MessageTicketInfo {
+  ticketId: string;
+  ticketIdentifier: string;
+  ticketUrl?: string;
+  createdAt: number;
+  wasTriaged: boolean;
+  action: TriageAction;
+}
+
+/** Issue fields an update overwrote, restored on undo. */
+export interface IssueFields {
+  title?: string;
+  description?: string;
+  priority?: number;
+  stateId?: string;
+  assigneeId?: string | null;
+}
+
+/** A Linear write made by an agent tool, with what it takes to reverse it. */
+export type ReversibleOperation =
+  | { kind: "create_issue"; issueId: string; identifier: string }
+  | { kind: "add_comment"; issueId: string; identifier: string; commentId: string }
+  | { kind: "update_issue"; issueId: string; identifier: string; previous: IssueFields }
+  | { kind: "add_label"; issueId: string; identifier: string; labelId: string; labelName: string }
+  | { kind: "remove_label"; issueId: string; identifier: string; labelId: string; labelName: string }
+  | { kind: "create_relation"; issueId: string; identifier: string; relationId: string }
+  | { kind: "add_customer_request"; issueId: string; identifier: string; needId: string; attachmentId: string; createdAttachment?: boolean; customerName: string }
+  | { kind: "record_report"; issueId: string; identifier: string; reporterName: string; report: RecordedReport; escalation?: ReportEscalation };
+
+/** A priority raised by a report (see reportTally.ts), reverted on undo only if nobody has changed it since. */
+export interface ReportEscalation {
+  priority: number;
+  previousPriority: number;
+  /** The tally's escalation note before this one. */
+  previousEscalation?: { priority: number; reporters: number };
+}
+
+/** One logged operation. Operations from the same agent run share a `setId` and are undone together. */
+export interface OperationRecord {
+  setId: string;
+  channel: string;
+  threadTs: string;
+  /** The Slack message the run handled. */
+  messageTs: string;
+  /** Kind of run that made the change (e.g. "triage", "thread_reply"). */
+  runKind: string;
+  createdAt: number;
+  operation: ReversibleOperation;
+}
+
+export interface OperationFilter {
+  messageTs?: string;
+  runKind?: string;
+}
+
+/** A ticket waiting for a team member's approval (approval mode), with the Slack message it came from. */
+export interface IssueDraft {
+  id: string;
+  channel: string;
+  threadTs: string;
+  messageTs: string;
+  /** Kind of run that drafted it; the approved ticket is logged for undo as if that run created it. */
+  runKind: string;
+  /** Slack user whose message was triaged. */
+  reporterId?: string;
+  /** Title without the channel's title prefix (added when the ticket is created). */
+  title: string;
+  description: string;
+  priority: number;
+  reporterInfo: string;
+  /** Existing issues the agent's duplicate search turned up. */
+  suspectedDuplicates: Array<{ identifier: string; url: string; title?: string }>;
+  /** The review message with the Approve / Edit / Reject buttons. */
+  review?: { channel: string; ts: string };
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface TrackingStore {
+  getThread(threadTs: string): ThreadTicketInfo | undefined;
+  setThread(threadTs: string, info: ThreadTicketInfo): void;
+  deleteThread(threadTs: string): void;
+  /** Every thread tracking a ticket (matched by ID or identifier), e.g. to report status changes. */
+  findThreadsForTicket(ticketId: string, ticketIdentifier: string): Array<{ threadTs: string; info: ThreadTicketInfo }>;
+  /** Threads still waiting for the reporter's answers, asked at or before `askedBefore`. */
+  threadsAwaitingInfo(askedBefore: number): Array<{ threadTs: string; info: ThreadTicketInfo }>;
+
+  getMessage(messageTs: string): MessageTicketInfo | undefined;
+  setMessage(messageTs: string, info: MessageTicketInfo): void;
+  deleteMessage(messageTs: string): void;
+
+  hasProcessed(messageTs: string): boolean;
+  markProcessed(messageTs: string): void;
+
+  /** Linear comments the bot wrote itself, so the comment sync never echoes them back to Slack. */
+  markBotComment(commentId: string): void;
+  isBotComment(commentId: string): boolean;
+
+  recordOperation(record: OperationRecord): void;
+  /**
+   * The most recent operation set not yet undone for a thread, in the order it was made.
+   * The filter narrows it to sets made while handling one message and/or by one kind of run.
+   */
+  lastOperationSet(channel: string, threadTs: string, filter?: OperationFilter): OperationRecord[];
+  markOperationSetUndone(setId: string): void;
+
+  /** Saving a draft with an existing ID replaces it (e.g. after an edit). */
+  saveDraft(draft: IssueDraft): void;
+  getDraft(id: string): IssueDraft | undefined;
+  deleteDraft(id: string): void;
+  /** Drafts whose expiry time is at or before `now`. */
+  expiredDrafts(now: number): IssueDraft[];
+
+  /** Remove every entry older than the retention window. */
+  cleanup(): void;
+  close(): void;
+}
+
+export interface StoreOptions {
+  /** How long mappings are kept, in milliseconds. */
+  retentionMs: number;
+}
+
+// ---------------------------------------------------------------------------
+// In-memory store
+// ---------------------------------------------------------------------------
+
+export function createMemoryStore(options: StoreOptions): TrackingStore {
+  const threads = new Map<string, ThreadTicketInfo>();
+  const messages = new Map<string, MessageTicketInfo>();
+  const processed = new Map<string, number>();
+  const botComments = new Map<string, number>();
+  let operations: Array<OperationRecord & { undone: boolean }> = [];
+  const drafts = new Map<string, IssueDraft>();
+
+  return {
+    getThread: (threadTs) => threads.get(threadTs),
+    setThread: (threadTs, info) => { threads.set(threadTs, info); },
+    deleteThread: (threadTs) => { threads.delete(threadTs); },
+    findThreadsForTicket(ticketId, ticketIdentifier) {
+      return [...threads.entries()]
+        .filter(([, info]) => !info.isDeferred && !info.isAwaitingInfo && (info.ticketId === ticketId || info.ticketIdentifier === ticketIdentifier || info.ticketId === ticketIdentifier))
+        .map(([threadTs, info]) => ({ threadTs, info }));
+    },
+    threadsAwaitingInfo(askedBefore) {
+      return [...threads.entries()]
+        .filter(([, info]) => info.isAwaitingInfo && info.createdAt <= askedBefore)
+        .map(([threadTs, info]) => ({ threadTs, info }));
+    },
+
+    getMessage: (messageTs) => messages.get(messageTs),
+    setMessage: (messageTs, info) => { messages.set(messageTs, info); },
+    deleteMessage: (messageTs) => { messages.delete(messageTs); },
+
+    hasProcessed: (messageTs) => processed.has(messageTs),
+    markProcessed: (messageTs) => { processed.set(messageTs, Date.now()); },
+
+    markBotComment: (commentId) => { botComments.set(commentId, Date.now()); },
+    isBotComment: (commentId) => botComments.has(commentId),
+
+    recordOperation: (record) => { operations.push({ ...record, undone: false }); },
+    lastOperationSet(channel, threadTs, filter = {}) {
+      const last = [...operations].reverse().find((op) =>
+        !op.undone && op.channel === channel && op.threadTs === threadTs &&
+        (!filter.messageTs || op.messageTs === filter.messageTs) && (!filter.runKind || op.runKind === filter.runKind));
+      return last ? operations.filter((op) => op.setId === last.setId).map(({ undone: _undone, ...op }) => op) : [];
+    },
+    markOperationSetUndone(setId) {
+      for (const op of operations) if (op.setId === setId) op.undone = true;
+    },
+
+    saveDraft: (draft) => { drafts.set(draft.id, draft); },
+    getDraft: (id) => drafts.get(id),
+    deleteDraft: (id) => { drafts.delete(id); },
+    expiredDrafts: (now) => [...drafts.values()].filter((d) => d.expiresAt <= now),
+
+    cleanup() {
+      const cutoff = Date.now() - options.retentionMs;
+      for (const [key, info] of threads.entries()) {
+        if (info.createdAt < cutoff) threads.delete(key);
+      }
+      for (const [key, info] of messages.entries()) {
+        if (info.createdAt < cutoff) messages.delete(key);
+      }
+      for (const [key, processedAt] of processed.entries()) {
+        if (processedAt < cutoff) processed.delete(key);
+      }
+      for (const [key, createdAt] of botComments.entries()) {
+        if (createdAt < cutoff) botComments.delete(key);
+      }
+      operations = operations.filter((op) => op.createdAt >= cutoff);
+    },
+    close() {
+      threads.clear();
+      messages.clear();
+      processed.clear();
+      botComments.clear();
+      operations = [];
+      drafts.clear();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// SQLite store
+// ---------------------------------------------------------------------------
+
+type ThreadRow = {
+  ticket_id: string;
+  ticket_identifier: string;
+  created_at: number;
+  is_duplicate: number;
+  is_deferred: number;
+  is_awaiting_info: number;
+  original_context: string | null;
+  original_reporter_id: string | null;
+  channel: string | null;
+};
+
+type OperationRow = {
+  set_id: string;
+  channel: string;
+  thread_ts: string;
+  message_ts: string;
+  run_kind: string;
+  created_at: number;
+  operation: string;
+};
+
+type MessageRow = {
+  ticket_id: string;
+  ticket_identifier: string;
+  ticket_url: string | null;
+  created_at: number;
+  was_triaged: number;
+  action: TriageAction;
+};
+
+function threadFromRow(row: ThreadRow): ThreadTicketInfo {
+  return {
+    ticketId: row.ticket_id,
+    ticketIdentifier: row.ticket_identifier,
+    createdAt: row.created_at,
+    isDuplicate: !!row.is_duplicate,
+    isDeferred: !!row.is_deferred,
+    isAwaitingInfo: !!row.is_awaiting_info,
+    originalContext: row.original_context ?? undefined,
+    originalReporterId: row.original_reporter_id ?? undefined,
+    channel: row.channel ?? undefined,
+  };
+}
+
+export function createSqliteStore(path: string, options: StoreOptions): TrackingStore {
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS thread_tickets (
+      thread_ts TEXT PRIMARY KEY,
+      ticket_id TEXT NOT NULL,
+      ticket_identifier TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      is_duplicate INTEGER NOT NULL,
+      is_deferred INTEGER NOT NULL,
+      original_context TEXT,
+      original_reporter_id TEXT,
+      channel TEXT,
+      is_awaiting_info INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE TABLE IF NOT EXISTS message_tickets (
+      message_ts TEXT PRIMARY KEY,
+      ticket_id TEXT NOT NULL,
+      ticket_identifier TEXT NOT NULL,
+      ticket_url TEXT,
+      created_at INTEGER NOT NULL,
+      was_triaged INTEGER NOT NULL,
+      action TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS processed_messages (
+      message_ts TEXT PRIMARY KEY,
+      processed_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS bot_comments (
+      comment_id TEXT PRIMARY KEY,
+      created_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS operations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      set_id TEXT NOT NULL,
+      channel TEXT NOT NULL,
+      thread_ts TEXT NOT NULL,
+      message_ts TEXT NOT NULL,
+      run_kind TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      operation TEXT NOT NULL,
+      undone INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS operations_thread ON operations (channel, thread_ts);
+    CREATE TABLE IF NOT EXISTS drafts (
+      id TEXT PRIMARY KEY,
+      expires_at INTEGER NOT NULL,
+      draft TEXT NOT NULL
+    );
+  `);
+
+  // Databases created before channels were recorded
+  const threadColumns = db.prepare<[], { name: string }>("PRAGMA table_info(thread_tickets)").all();
+  if (!threadColumns.some((c) => c.name === "channel")) {
+    db.exec("ALTER TABLE thread_tickets ADD COLUMN channel TEXT");
+  }
+  // ...and before the bot asked for missing details
+  if (!threadColumns.some((c) => c.name === "is_awaiting_info")) {
+    db.exec("ALTER TABLE thread_tickets ADD COLUMN is_awaiting_info INTEGER NOT NULL DEFAULT 0");
+  }
+
+  const getThreadStmt = db.prepare<[string], ThreadRow>("SELECT * FROM thread_tickets WHERE thread_ts = ?");
+  const setThreadStmt = db.prepare(`
+    INSERT OR REPLACE INTO thread_tickets
+      (thread_ts, ticket_id, ticket_identifier, created_at, is_duplicate, is_deferred, original_context, original_reporter_id, channel, is_awaiting_info)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const deleteThreadStmt = db.prepare("DELETE FROM thread_tickets WHERE thread_ts = ?");
+  const findThreadsStmt = db.prepare<[string, string, string], ThreadRow & { thread_ts: string }>(
+    "SELECT * FROM thread_tickets WHERE is_deferred = 0 AND is_awaiting_info = 0 AND (ticket_id IN (?, ?) OR ticket_identifier = ?)"
+  );
+  const awaitingInfoStmt = db.prepare<[number], ThreadRow & { thread_ts: string }>(
+    "SELECT * FROM thread_tickets WHERE is_awaiting_info = 1 AND created_at <= ? ORDER BY created_at"
+  );
+
+  const getMessageStmt = db.prepare<[string], MessageRow>("SELECT * FROM message_tickets WHERE message_ts = ?");
+  const setMessageStmt = db.prepare(`
+    INSERT OR REPLACE INTO message_tickets
+      (message_ts, ticket_id, ticket_identifier, ticket_url, created_at, was_triaged, action)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const deleteMessageStmt = db.prepare("DELETE FROM message_tickets WHERE message_ts = ?");
+
+  const hasProcessedStmt = db.prepare("SELECT 1 FROM processed_messages WHERE message_ts = ?");
+  const markProcessedStmt = db.prepare("INSERT OR REPLACE INTO processed_messages (message_ts, processed_at) VALUES (?, ?)");
+
+  const markBotCommentStmt = db.prepare("INSERT OR REPLACE INTO bot_comments (comment_id, created_at) VALUES (?, ?)");
+  const isBotCommentStmt = db.prepare("SELECT 1 FROM bot_comments WHERE comment_id = ?");
+
+  const recordOperationStmt = db.prepare(`
+    INSERT INTO operations (set_id, channel, thread_ts, message_ts, run_kind, created_at, operation)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const lastSetStmt = db.prepare<{ channel: string; threadTs: string; messageTs: string | null; runKind: string | null }, { set_id: string }>(`
+    SELECT set_id FROM operations
+    WHERE undone = 0 AND channel = @channel AND thread_ts = @threadTs
+      AND (@messageTs IS NULL OR message_ts = @messageTs) AND (@runKind IS NULL OR run_kind = @runKind)
+    ORDER BY id DESC LIMIT 1
+  `);
+  const operationSetStmt = db.prepare<[string], OperationRow>("SELECT * FROM operations WHERE set_id = ? ORDER BY id");
+  const markSetUndoneStmt = db.prepare("UPDATE operations SET undone = 1 WHERE set_id = ?");
+
+  const saveDraftStmt = db.prepare("INSERT OR REPLACE INTO drafts (id, expires_at, draft) VALUES (?, ?, ?)");
+  const getDraftStmt = db.prepare<[string], { draft: string }>("SELECT draft FROM drafts WHERE id = ?");
+  const deleteDraftStmt = db.prepare("DELETE FROM drafts WHERE id = ?");
+  const expiredDraftsStmt = db.prepare<[number], { draft: string }>("SELECT draft FROM drafts WHERE expires_at <= ? ORDER BY expires_at");
+
+  const cleanupStmts = [
+    db.prepare("DELETE FROM thread_tickets WHERE created_at < ?"),
+    db.prepare("DELETE FROM message_tickets WHERE created_at < ?"),
+    db.prepare("DELETE FROM processed_messages WHERE processed_at < ?"),
+    db.prepare("DELETE FROM bot_comments WHERE created_at < ?"),
+    db.prepare("DELETE FROM operations WHERE created_at < ?"),
+  ];
+
+  return {
+    getThread(threadTs) {
+      const row = getThreadStmt.get(threadTs);
+      return row ? threadFromRow(row) : undefined;
+    },
+    setThread(threadTs, info) {
+      setThreadStmt.run(
+        threadTs,
+        info.ticketId,
+        info.ticketIdentifier,
+        info.createdAt,
+        info.isDuplicate ? 1 : 0,
+        info.isDeferred ? 1 : 0,
+        info.originalContext ?? null,
+        info.originalReporterId ?? null,
+        info.channel ?? null,
+        info.isAwaitingInfo ? 1 : 0
+      );
+    },
+    deleteThread(threadTs) {
+      deleteThreadStmt.run(threadTs);
+    },
+    findThreadsForTicket(ticketId, ticketIdentifier) {
+      return findThreadsStmt.all(ticketId, ticketIdentifier, ticketIdentifier)
+        .map((row) => ({ threadTs: row.thread_ts, info: threadFromRow(row) }));
+    },
+    threadsAwaitingInfo(askedBefore) {
+      return awaitingInfoStmt.all(askedBefore).map((row) => ({ threadTs: row.thread_ts, info: threadFromRow(row) }));
+    },
+
+    getMessage(messageTs) {
+      const row = getMessageStmt.get(messageTs);
+      if (!row) return undefined;
+      return {
+        ticketId: row.ticket_id,
+        ticketIdentifier: row.ticket_identifier,
+        ticketUrl: row.ticket_url ?? undefined,
+        createdAt: row.created_at,
+        wasTriaged: !!row.was_triaged,
+        action: row.action,
+      };
+    },
+    setMessage(messageTs, info) {
+      setMessageStmt.run(
+        messageTs,
+        info.ticketId,
+        info.ticketIdentifier,
+        info.ticketUrl ?? null,
+        info.createdAt,
+        info.wasTriaged ? 1 : 0,
+        info.action
+      );
+    },
+    deleteMessage(messageTs) {
+      deleteMessageStmt.run(messageTs);
+    },
+
+    hasProcessed(messageTs) {
+      return !!hasProcessedStmt.get(messageTs);
+    },
+    markProcessed(messageTs) {
+      markProcessedStmt.run(messageTs, Date.now());
+    },
+
+    markBotComment(commentId) {
+      markBotCommentStmt.run(commentId, Date.now());
+    },
+    isBotComment(commentId) {
+      return !!isBotCommentStmt.get(commentId);
+    },
+
+    recordOperation(record) {
+      recordOperationStmt.run(
+        record.setId,
+        record.channel,
+        record.threadTs,
+        record.messageTs,
+        record.runKind,
+        record.createdAt,
+        JSON.stringify(record.operation)
+      );
+    },
+    lastOperationSet(channel, threadTs, filter = {}) {
+      const last = lastSetStmt.get({ channel, threadTs, messageTs: filter.messageTs ?? null, runKind: filter.runKind ?? null });
+      if (!last) return [];
+      return operationSetStmt.all(last.set_id).map((row) => ({
+        setId: row.set_id,
+        channel: row.channel,
+        threadTs: row.thread_ts,
+        messageTs: row.message_ts,
+        runKind: row.run_kind,
+        createdAt: row.created_at,
+        operation: JSON.parse(row.operation),
+      }));
+    },
+    markOperationSetUndone(setId) {
+      markSetUndoneStmt.run(setId);
+    },
+
+    saveDraft(draft) {
+      saveDraftStmt.run(draft.id, draft.expiresAt, JSON.stringify(draft));
+    },
+    getDraft(id) {
+      const row = getDraftStmt.get(id);
+      return row ? JSON.parse(row.draft) : undefined;
+    },
+    deleteDraft(id) {
+      deleteDraftStmt.run(id);
+    },
+    expiredDrafts(now) {
+      return expiredDraftsStmt.all(now).map((row) => JSON.parse(row.draft));
+    },
+
+    cleanup() {
+      const cutoff = Date.now() - options.retentionMs;
+      for (const stmt of cleanupStmts) stmt.run(cutoff);
+    },
+    close() {
+      db.close();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+export function createStore(
+  kind: string,
+  path: string,
+  options: StoreOptions
+): TrackingStore {
+  if (kind === "memory") return createMemoryStore(options);
+  if (kind === "sqlite") return createSqliteStore(path, options);
+  throw new Error(`Unknown TRACKING_STORE "${kind}" (expected "sqlite" or "memory")`);
+}
@@ -0,0 +1,276 @@
+/**
+ * webhooks.ts — Receive Linear webhooks and report ticket changes back to the Slack threads.
+ *
+ * Linear POSTs to /webhooks/linear with a JSON body signed with the webhook's secret
+ * (hex HMAC-SHA256 of the raw body in the `linear-signature` header). When a tracked issue
+ * changes state, every thread that reported it gets a reply ("WOR-123 moved to Done") and
+ * the original message gets a status emoji. Comments that start with `commentSyncMarker`
+ * ("/slack" by default) are posted in those threads too, converted to Slack mrkdwn; comments
+ * the bot wrote itself are never echoed back.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import appConfig from "./config.js";
+import { isDryRun, recordDecision } from "./dryRun.js";
+import { markdownToMrkdwn } from "./mrkdwn.js";
+import type { SlackClient } from "./pipeline.js";
+import type { ThreadTicketInfo, TrackingStore } from "./store.js";
+
+export const LINEAR_WEBHOOK_PATH = "/webhooks/linear";
+
+// Linear signs every delivery with webhookTimestamp; older deliveries are treated as replays
+const MAX_WEBHOOK_AGE_MS = 60_000;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Status emoji on the original message, by workflow state type. Other state types clear it.
+const STATUS_EMOJI: Record<string, string> = {
+  started: "hourglass_flowing_sand",
+  completed: "white_check_mark",
+  canceled: "x",
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The parts of a Linear webhook delivery the bot reads. */
+export interface LinearWebhookPayload {
+  action: "create" | "update" | "remove" | string;
+  /** Entity type, e.g. "Issue" or "Comment". */
+  type: string;
+  data: Record<string, unknown>;
+  /** Previous values of the fields that changed (update events only). */
+  updatedFrom?: Record<string, unknown>;
+  url?: string;
+  webhookTimestamp: number;
+}
+
+interface WebhookIssue {
+  id: string;
+  identifier: string;
+  title?: string;
+  url?: string;
+  state?: { name: string; type: string };
+}
+
+interface WebhookComment {
+  id: string;
+  body: string;
+  issueId: string;
+  issue?: { id: string; identifier?: string; url?: string };
+  user?: { id: string; name: string };
+}
+
+export interface WebhookDeps {
+  client: SlackClient;
+  store: TrackingStore;
+  /** Signing secret of the Linear webhook. */
+  secret: string;
+  /** Channel for mappings stored before channels were recorded (single-channel setups only). */
+  fallbackChannel?(): string | undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Signature
+// ---------------------------------------------------------------------------
+
+export function signLinearWebhook(rawBody: string | Buffer, secret: string): string {
+  return createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+export function verifyLinearSignature(rawBody: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signLinearWebhook(rawBody, secret), "hex");
+  const received = Buffer.from(signature, "hex");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+// ---------------------------------------------------------------------------
+// Handling
+// ---------------------------------------------------------------------------
+
+export function createLinearWebhookHandler(deps: WebhookDeps) {
+  const { client, store } = deps;
+
+  function threadsFor(issue: { id: string; identifier: string }): Array<{ threadTs: string; channel: string; info: ThreadTicketInfo }> {
+    return store.findThreadsForTicket(issue.id, issue.identifier).flatMap(({ threadTs, info }) => {
+      const channel = info.channel ?? deps.fallbackChannel?.();
+      if (!channel) {
+        console.log(`[Webhook] No channel recorded for thread ${threadTs} - skipping`);
+        return [];
+      }
+      return [{ threadTs, channel, info }];
+    });
+  }
+
+  async function reply(channel: string, threadTs: string, text: string): Promise<void> {
+    if (isDryRun()) {
+      recordDecision({ kind: "linear_webhook", channel, threadTs }, "slack_reply_in_thread", { channel, threadTs, text });
+      return;
+    }
+    await client.chat.postMessage({ channel, thread_ts: threadTs, text });
+  }
+
+  // Swap the status emoji on the thread's original message (errors for missing/duplicate reactions are expected)
+  async function setStatusEmoji(channel: string, timestamp: string, emoji: string | undefined): Promise<void> {
+    if (isDryRun()) {
+      if (emoji) recordDecision({ kind: "linear_webhook", channel, threadTs: timestamp }, "slack_add_reaction", { channel, timestamp, name: emoji });
+      return;
+    }
+    for (const name of Object.values(STATUS_EMOJI)) {
+      if (name !== emoji) await client.reactions.remove({ channel, timestamp, name }).catch(() => {});
+    }
+    if (!emoji) return;
+    await client.reactions.add({ channel, timestamp, name: emoji }).catch((e) => {
+      if (!e.message?.includes("already_reacted")) console.log(`[Webhook] Could not add :${emoji}: - ${e.message}`);
+    });
+  }
+
+  // A thread that fails doesn't fail the delivery: Linear would resend it, and every thread that
+  // already got the update would get it again. Only a delivery that reached no thread is retried.
+  async function postToThreads<T extends { threadTs: string; channel: string }>(threads: T[], post: (thread: T) => Promise<void>): Promise<void> {
+    let posted = 0;
+    let firstError: unknown;
+    for (const thread of threads) {
+      try {
+        await post(thread);
+        posted++;
+      } catch (error) {
+        firstError ??= error;
+        console.error(`[Webhook] Could not update thread ${thread.threadTs} in ${thread.channel}:`, error);
+      }
+    }
+    if (posted === 0 && firstError !== undefined) throw firstError;
+  }
+
+  async function handleIssueStateChange(payload: LinearWebhookPayload): Promise<void> {
+    const issue = payload.data as unknown as WebhookIssue;
+    if (!issue.state) return;
+
+    const threads = threadsFor(issue);
+    if (threads.length === 0) return;
+
+    const link = issue.url ? `<${issue.url}|${issue.identifier}>` : issue.identifier;
+    console.log(`[Webhook] ${issue.identifier} moved to ${issue.state.name} - updating ${threads.length} thread(s)`);
+    const state = issue.state;
+    await postToThreads(threads, async ({ threadTs, channel }) => {
+      await reply(channel, threadTs, `${link} moved to *${state.name}*`);
+      await setStatusEmoji(channel, threadTs, STATUS_EMOJI[state.type]);
+    });
+  }
+
+  // The comment text to post, or undefined when the comment isn't marked for Slack
+  function markedText(body: string): string | undefined {
+    const marker = appConfig.commentSyncMarker;
+    const text = body.trim();
+    if (!marker) return text || undefined;
+    if (text !== marker && !text.startsWith(`${marker} `) && !text.startsWith(`${marker}\n`)) return undefined;
+    return text.slice(marker.length).trim() || undefined;
+  }
+
+  async function handleCommentCreate(payload: LinearWebhookPayload): Promise<void> {
+    const comment = payload.data as unknown as WebhookComment;
+    // Loop prevention: the agent records every comment it creates (see linear_add_comment)
+    if (store.isBotComment(comment.id)) return;
+
+    const text = markedText(comment.body ?? "");
+    if (!text) return;
+
+    const threads = threadsFor({ id: comment.issueId, identifier: comment.issue?.identifier ?? comment.issueId });
+    if (threads.length === 0) return;
+
+    const author = comment.user?.name ?? "Someone";
+    const url = comment.issue?.url ?? payload.url;
+    console.log(`[Webhook] Comment by ${author} on ${comment.issue?.identifier ?? comment.issueId} - posting to ${threads.length} thread(s)`);
+    await postToThreads(threads, async ({ threadTs, channel, info }) => {
+      const link = url ? `<${url}|${info.ticketIdentifier}>` : info.ticketIdentifier;
+      await reply(channel, threadTs, `*${author}* commented on ${link}:\n${markdownToMrkdwn(text)}`);
+    });
+  }
+
+  return async function handleLinearWebhook(payload: LinearWebhookPayload): Promise<void> {
+    if (payload.type === "Issue" && payload.action === "update" && payload.updatedFrom && "stateId" in payload.updatedFrom) {
+      await handleIssueStateChange(payload);
+    } else if (payload.type === "Comment" && payload.action === "create") {
+      await handleCommentCreate(payload);
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// HTTP Server
+// ---------------------------------------------------------------------------
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Payload too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function respond(res: ServerResponse, status: number, text: string): void {
+  res.writeHead(status, { "Content-Type": "text/plain" });
+  res.end(text);
+}
+
+/** HTTP server for Linear webhooks. Deliveries with a bad signature or an old timestamp get a 401. */
+export function createWebhookServer(deps: WebhookDeps) {
+  const handle = createLinearWebhookHandler(deps);
+
+  const server = createServer(async (req, res) => {
+    if (req.url?.split("?")[0] !== LINEAR_WEBHOOK_PATH) return respond(res, 404, "Not found");
+    if (req.method !== "POST") return respond(res, 405, "Method not allowed");
+
+    let payload: LinearWebhookPayload;
+    try {
+      const body = await readBody(req);
+      if (!verifyLinearSignature(body, req.headers["linear-signature"] as string | undefined, deps.secret)) {
+        console.log("[Webhook] Rejected delivery with an invalid signature");
+        return respond(res, 401, "Invalid signature");
+      }
+      payload = JSON.parse(body.toString("utf8"));
+    } catch (error) {
+      return respond(res, 400, error instanceof Error ? error.message : "Bad request");
+    }
+
+    if (typeof payload.webhookTimestamp !== "number" || Math.abs(Date.now() - payload.webhookTimestamp) > MAX_WEBHOOK_AGE_MS) {
+      console.log("[Webhook] Rejected delivery with a stale timestamp");
+      return respond(res, 401, "Stale webhook");
+    }
+
+    try {
+      await handle(payload);
+      respond(res, 200, "OK");
+    } catch (error) {
+      // Non-2xx makes Linear retry the delivery; only thrown when no thread got the update
+      console.error(`[Webhook] Error handling ${payload.type} ${payload.action}:`, error);
+      respond(res, 500, "Error");
+    }
+  });
+
+  return {
+    /** Start listening; resolves with the bound port. */
+    listen(port: number): Promise<number> {
+      return new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, () => resolve((server.address() as AddressInfo).port));
+      });
+    },
+    close(): Promise<void> {
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}